@@ -0,0 +1,190 @@
+// backend/src/mock/pineconeMockServer.ts
+// Lokaler Pinecone-Ersatz (Data-Plane) zum Offline-Testen des Pinecone-Adapters.
+//
+// Start:  npm run mock:pinecone
+// Dann:   VECTOR_STORE=pinecone PINECONE_API_KEY=mock PINECONE_INDEX=mock \
+//         PINECONE_INDEX_HOST=http://localhost:5081 npm run dev
+import express, { Request, Response, NextFunction } from 'express';
+import { Server } from 'http';
+
+interface MockRecord {
+  id: string;
+  values: number[];
+  metadata?: Record<string, unknown>;
+}
+
+const DEFAULT_DIMENSION = 1024;
+
+export function createPineconeMockApp(dimension: number = DEFAULT_DIMENSION) {
+  const app = express();
+  const namespaces: Map<string, Map<string, MockRecord>> = new Map();
+
+  const getNamespace = (name?: string) => {
+    const key = name || '';
+    if (!namespaces.has(key)) {
+      namespaces.set(key, new Map());
+    }
+    return namespaces.get(key)!;
+  };
+
+  app.use(express.json({ limit: '50mb' }));
+
+  // Wie bei Pinecone: ohne Api-Key kein Zugriff
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    if (!req.header('Api-Key')) {
+      return res.status(401).json({ code: 16, message: 'Missing Api-Key header' });
+    }
+    next();
+  });
+
+  app.post('/vectors/upsert', (req: Request, res: Response) => {
+    const { vectors = [], namespace } = req.body as { vectors?: MockRecord[], namespace?: string };
+    const records = getNamespace(namespace);
+
+    for (const vector of vectors) {
+      if (!Array.isArray(vector.values) || vector.values.length !== dimension) {
+        return res.status(400).json({
+          code: 3,
+          message: `Vector dimension ${vector.values?.length} does not match the dimension of the index ${dimension}`
+        });
+      }
+      records.set(vector.id, vector);
+    }
+
+    res.json({ upsertedCount: vectors.length });
+  });
+
+  app.post('/query', (req: Request, res: Response) => {
+    const { vector, topK = 10, includeMetadata = false, includeValues = false, filter, namespace } = req.body;
+    const records = getNamespace(namespace);
+
+    const matches = Array.from(records.values())
+      .filter(record => !filter || matchesFilter(record.metadata || {}, filter))
+      .map(record => ({
+        id: record.id,
+        score: cosineSimilarity(vector || [], record.values),
+        ...(includeValues ? { values: record.values } : {}),
+        ...(includeMetadata && record.metadata ? { metadata: record.metadata } : {})
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+
+    res.json({ matches, namespace: namespace || '' });
+  });
+
+  app.get('/vectors/fetch', (req: Request, res: Response) => {
+    const records = getNamespace(req.query.namespace as string | undefined);
+    const ids = ([] as string[]).concat((req.query.ids as string | string[]) || []);
+
+    const vectors: Record<string, MockRecord> = {};
+    for (const id of ids) {
+      const record = records.get(id);
+      if (record) vectors[id] = record;
+    }
+
+    res.json({ vectors, namespace: req.query.namespace || '' });
+  });
+
+  app.get('/vectors/list', (req: Request, res: Response) => {
+    const records = getNamespace(req.query.namespace as string | undefined);
+    const prefix = (req.query.prefix as string) || '';
+    const limit = Number(req.query.limit) || 100;
+    const offset = Number(req.query.paginationToken) || 0;
+
+    const ids = Array.from(records.keys()).filter(id => id.startsWith(prefix)).sort();
+    const page = ids.slice(offset, offset + limit);
+    const next = offset + limit < ids.length ? String(offset + limit) : undefined;
+
+    res.json({
+      vectors: page.map(id => ({ id })),
+      pagination: next ? { next } : undefined,
+      namespace: req.query.namespace || ''
+    });
+  });
+
+  app.post('/vectors/delete', (req: Request, res: Response) => {
+    const { ids = [], deleteAll = false, namespace } = req.body;
+    const records = getNamespace(namespace);
+
+    if (deleteAll) {
+      records.clear();
+    } else {
+      for (const id of ids) records.delete(id);
+    }
+
+    res.json({});
+  });
+
+  app.post('/describe_index_stats', (req: Request, res: Response) => {
+    const summary: Record<string, { vectorCount: number }> = {};
+    let total = 0;
+
+    namespaces.forEach((records, name) => {
+      summary[name] = { vectorCount: records.size };
+      total += records.size;
+    });
+
+    res.json({
+      namespaces: summary,
+      dimension,
+      indexFullness: 0,
+      totalVectorCount: total
+    });
+  });
+
+  return app;
+}
+
+// Teilmenge der Pinecone-Filtersyntax: Gleichheit ({ feld: wert } bzw. { feld: { $eq: wert } }),
+// { feld: { $in: [...] } } (Listenfelder passen, wenn ein Element enthalten ist), { feld: { $exists: bool } }
+// und { $or: [filter, ...] }; mehrere Felder = UND
+function matchesFilter(metadata: Record<string, unknown>, filter: Record<string, unknown>): boolean {
+  return Object.entries(filter).every(([key, condition]) => {
+    if (key === '$or') {
+      return (condition as Record<string, unknown>[]).some(alternative => matchesFilter(metadata, alternative));
+    }
+    if (condition !== null && typeof condition === 'object' && '$exists' in condition) {
+      return (key in metadata) === (condition as { $exists: boolean }).$exists;
+    }
+    if (condition !== null && typeof condition === 'object' && '$in' in condition) {
+      const allowed = (condition as { $in: unknown[] }).$in;
+      const value = metadata[key];
+      return Array.isArray(value) ? value.some(item => allowed.includes(item)) : allowed.includes(value);
+    }
+
+    const expected = condition !== null && typeof condition === 'object' && '$eq' in condition
+      ? (condition as { $eq: unknown }).$eq
+      : condition;
+    return metadata[key] === expected;
+  });
+}
+
+function cosineSimilarity(vec1: number[], vec2: number[]): number {
+  if (vec1.length !== vec2.length || vec1.length === 0) return 0;
+
+  let dotProduct = 0;
+  let norm1 = 0;
+  let norm2 = 0;
+
+  for (let i = 0; i < vec1.length; i++) {
+    dotProduct += vec1[i] * vec2[i];
+    norm1 += vec1[i] * vec1[i];
+    norm2 += vec2[i] * vec2[i];
+  }
+
+  if (norm1 === 0 || norm2 === 0) return 0;
+  return dotProduct / (Math.sqrt(norm1) * Math.sqrt(norm2));
+}
+
+export function startPineconeMockServer(port: number, dimension?: number): Promise<Server> {
+  return new Promise(resolve => {
+    const server = createPineconeMockApp(dimension).listen(port, () => resolve(server));
+  });
+}
+
+if (require.main === module) {
+  const port = Number(process.env.PINECONE_MOCK_PORT) || 5081;
+  startPineconeMockServer(port).then(() => {
+    console.log(`Pinecone mock server running on http://localhost:${port}`);
+  });
+}
@@ -0,0 +1,152 @@
+// backend/src/scripts/evaluateRetrieval.ts
+// Vergleicht Retrieval-Modi auf einem Fragenkatalog gegen den konfigurierten Vector Store
+// (VECTOR_STORE, KNOWLEDGE_BASE_DIR bzw. Pinecone wie beim Server).
+//
+// Start: npm run eval:retrieval -- --file questions.json --modes standard,multi-query,hyde --k 5
+// Optional: --rerank, --lexical-weight 0.5, --mmr-lambda 0.7, --merge-adjacent, --verbose (Logs der Suche anzeigen)
+//
+// questions.json: [{ "question": "Was kostet X?", "expected": ["preise.pdf"] }, ...]
+// expected enthält Dokumentnamen, Dokument-IDs oder Chunk-IDs; optional je Frage collections, tags, userId.
+import fs from 'fs';
+import { performance } from 'perf_hooks';
+import dotenv from 'dotenv';
+import { createVectorStore } from '../services/vectorStoreFactory';
+import { Citation, VectorStore } from '../services/vectorStore';
+import { RETRIEVAL_MODES, RetrievalMode, getQueryExpander, isRetrievalMode } from '../services/queryExpansion';
+
+dotenv.config();
+
+interface EvaluationCase {
+  question: string;
+  expected: string[];
+  collections?: string[];
+  tags?: string[];
+  userId?: string;
+}
+
+function readArg(name: string, fallback: number): number {
+  const index = process.argv.indexOf(`--${name}`);
+  const value = index >= 0 ? Number(process.argv[index + 1]) : NaN;
+  return Number.isFinite(value) ? value : fallback;
+}
+
+function readString(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+function hasFlag(name: string): boolean {
+  return process.argv.includes(`--${name}`);
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+}
+
+function loadCases(file: string): EvaluationCase[] {
+  const cases = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  if (!Array.isArray(cases) || cases.some(c => typeof c?.question !== 'string' || !Array.isArray(c.expected))) {
+    throw new Error(`${file} must contain an array of { question, expected: [...] }`);
+  }
+  return cases;
+}
+
+function isExpected(citation: Citation, expected: string[]): boolean {
+  return expected.some(value => value === citation.source || value === citation.documentId || value === citation.chunkId);
+}
+
+async function evaluate(store: VectorStore, cases: EvaluationCase[], mode: RetrievalMode, k: number) {
+  const latencies: number[] = [];
+  let hits = 0;
+  let reciprocalRanks = 0;
+  let recall = 0;
+  let results = 0;
+
+  for (const testCase of cases) {
+    const start = performance.now();
+    const { citations } = await store.searchSimilar(testCase.question, {
+      topK: k,
+      retrievalMode: mode,
+      rerank: hasFlag('rerank') || undefined,
+      lexicalWeight: readString('lexical-weight') !== undefined ? readArg('lexical-weight', 0.5) : undefined,
+      mmrLambda: readString('mmr-lambda') !== undefined ? readArg('mmr-lambda', 1) : undefined,
+      mergeAdjacent: hasFlag('merge-adjacent') || undefined,
+      collections: testCase.collections,
+      tags: testCase.tags,
+      userId: testCase.userId,
+      quiet: !hasFlag('verbose')
+    });
+    latencies.push(performance.now() - start);
+
+    // Gepinnte Chunks stehen vorne und zählen wie Treffer der Suche
+    const ranked = citations.slice(0, k);
+    const firstHit = ranked.findIndex(citation => isExpected(citation, testCase.expected));
+    if (firstHit >= 0) {
+      hits++;
+      reciprocalRanks += 1 / (firstHit + 1);
+    }
+    const found = testCase.expected.filter(value => ranked.some(citation => isExpected(citation, [value])));
+    recall += testCase.expected.length > 0 ? found.length / testCase.expected.length : 0;
+    results += ranked.length;
+
+    if (hasFlag('verbose')) {
+      console.log(`[${mode}] ${testCase.question} => ${firstHit >= 0 ? `hit at ${firstHit + 1}` : 'miss'}`);
+    }
+  }
+
+  const avg = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+  return {
+    [`hit@${k}`]: (hits / cases.length).toFixed(3),
+    MRR: (reciprocalRanks / cases.length).toFixed(3),
+    [`recall@${k}`]: (recall / cases.length).toFixed(3),
+    'avg results': (results / cases.length).toFixed(1),
+    'avg query (ms)': avg(latencies).toFixed(0),
+    'p95 query (ms)': percentile(latencies, 0.95).toFixed(0)
+  };
+}
+
+async function main() {
+  const file = readString('file');
+  if (!file) {
+    throw new Error('Usage: npm run eval:retrieval -- --file questions.json [--modes standard,hyde] [--k 5] [--rerank]');
+  }
+
+  const cases = loadCases(file);
+  const k = readArg('k', 5);
+  const modes = (readString('modes') || RETRIEVAL_MODES.join(','))
+    .split(',')
+    .map(mode => mode.trim());
+
+  const invalid = modes.filter(mode => !isRetrievalMode(mode));
+  if (invalid.length > 0) {
+    throw new Error(`Unknown retrieval modes: ${invalid.join(', ')}. Use ${RETRIEVAL_MODES.join(', ')}.`);
+  }
+
+  // Ohne LLM fielen diese Modi auf standard zurück und verfälschten den Vergleich
+  const runnable = (modes as RetrievalMode[]).filter(mode => {
+    if (mode !== 'standard' && !getQueryExpander()) {
+      console.warn(`Skipping ${mode}: requires MISTRAL_API_KEY`);
+      return false;
+    }
+    return true;
+  });
+
+  const store = createVectorStore();
+  await store.initialize();
+  const stats = await store.getStats({ allUsers: true });
+  console.log(`Evaluating ${cases.length} questions against ${stats.totalDocuments} documents (${stats.totalChunks} chunks)...`);
+
+  const table: Record<string, Record<string, string>> = {};
+  for (const mode of runnable) {
+    table[mode] = await evaluate(store, cases, mode, k);
+  }
+
+  console.table(table);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
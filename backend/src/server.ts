@@ -4,8 +4,21 @@ import dotenv from 'dotenv';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
+import crypto from 'crypto';
 import { ChatService } from './services/chatService';
-import { VectorStoreService } from './services/vectorStoreService';
+import { SiteContentIndexer } from './services/siteContentIndexer';
+import { createVectorStore } from './services/vectorStoreFactory';
+import { EmbeddingError } from './services/embeddingService';
+import { getEmbeddingCache } from './services/embeddingCache';
+import { AddDocumentOptions, AddDocumentResult, ChunkUpdate, DocumentUpdate, ExportedDocument, FieldFilter, SearchOptions, SearchResult } from './services/vectorStore';
+import { IngestionJob, IngestionJobQueue, isTerminalState } from './services/ingestionJobs';
+import { ARCHIVE_LIMITS, ArchiveEntry, ArchiveUsage, SkippedEntry, extractZip } from './services/archiveExtraction';
+import { SUPPORTED_EXTENSIONS, normalizeCollection, normalizeTags } from './services/documentProcessing';
+import { SITEMAP_MAX_URLS, assertPublicUrl, fetchPage, fetchSitemapUrls, normalizeHttpUrl } from './services/webIngestion';
+import { ChunkingOptions, ChunkingStrategy, resolveChunkingOptions } from './services/chunking';
+import { getReranker, isRerankDefault } from './services/reranker';
+import { RETRIEVAL_MODES, getQueryExpander, isRetrievalMode } from './services/queryExpansion';
+import { createArchiveFooter, createArchiveHeader, parseArchive, serializeDocument } from './services/knowledgeBaseArchive';
 
 dotenv.config();
 
@@ -27,15 +40,16 @@ app.use(cors({
     ? ['https://mistral11.vercel.app', 'https://mistral11-*.vercel.app']
     : ['http://localhost:3000', 'http://localhost:5173'],
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
   allowedHeaders: ['Content-Type', 'Authorization']
 }));
 
 // Simplified auth middleware for development
 const optionalAuth = (req: any, res: any, next: any) => {
-  // Skip auth in development
+  // Skip auth in development; X-Dev-User simuliert andere Benutzer (z.B. für private Dokumente)
+  const devUser = process.env.NODE_ENV !== 'production' ? req.header('X-Dev-User') : undefined;
   req.user = {
-    id: 'dev-user',
+    id: devUser || 'dev-user',
     email: 'dev@example.com',
     name: 'Developer',
     roles: ['Admin']
@@ -47,6 +61,13 @@ const optionalAuth = (req: any, res: any, next: any) => {
 const authMiddleware = optionalAuth;
 const adminMiddleware = (req: any, res: any, next: any) => next();
 
+app.use('/api', authMiddleware);
+
+// Benutzer aus der Auth-Middleware; private Dokumente gehören dieser ID
+function getUserId(req: Request): string | undefined {
+  return (req as Request & { user?: { id: string } }).user?.id;
+}
+
 // File upload configuration - unterschiedlich für lokale Entwicklung vs Vercel
 let upload: multer.Multer;
 
@@ -59,7 +80,7 @@ if (process.env.NODE_ENV === 'production') {
       fileSize: 10 * 1024 * 1024, // 10MB
     },
     fileFilter: (req, file, cb) => {
-      const allowedTypes = ['.pdf', '.txt', '.md', '.doc', '.docx'];
+      const allowedTypes = ['.pdf', '.txt', '.md', '.doc', '.docx', '.html', '.htm', '.csv', '.xlsx', '.json'];
       const ext = path.extname(file.originalname).toLowerCase();
       
       if (allowedTypes.includes(ext)) {
@@ -90,7 +111,7 @@ if (process.env.NODE_ENV === 'production') {
     storage,
     limits: { fileSize: 10 * 1024 * 1024 }, // 10MB limit
     fileFilter: (req, file, cb) => {
-      const allowedTypes = ['.pdf', '.txt', '.docx', '.md'];
+      const allowedTypes = ['.pdf', '.txt', '.docx', '.md', '.html', '.htm', '.csv', '.xlsx', '.json'];
       const ext = path.extname(file.originalname).toLowerCase();
       
       // Zusätzliche MIME-Type Validierung für PDFs
@@ -108,29 +129,92 @@ if (process.env.NODE_ENV === 'production') {
   });
 }
 
+// Sammel-Upload: mehrere Dateien und/oder ZIP-Archive, immer im Speicher (Archive werden ganz gelesen).
+// Einzelne Dokumente dürfen wie beim normalen Upload höchstens 10MB groß sein, das wird je Datei geprüft.
+// multer begrenzt nur einzelne Dateien; die ganze Anfrage begrenzt limitBulkRequest.
+const bulkUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: ARCHIVE_LIMITS.maxTotalBytes, files: ARCHIVE_LIMITS.maxFiles },
+  fileFilter: (req, file, cb) => {
+    const ext = path.extname(file.originalname).toLowerCase();
+    
+    if (ext === '.zip' || SUPPORTED_EXTENSIONS.includes(ext)) {
+      cb(null, true);
+    } else {
+      cb(new Error(`Invalid file type. Allowed types: ${[...SUPPORTED_EXTENSIONS, '.zip'].join(', ')}`) as any);
+    }
+  }
+});
+
+// Spielraum für Multipart-Header und Formularfelder
+const BULK_REQUEST_OVERHEAD_BYTES = 1024 * 1024;
+
+// Sammel-Upload vor dem Einlesen anhand von Content-Length ablehnen, wenn er größer als das Gesamtlimit ist
+function limitBulkRequest(req: Request, res: Response, next: NextFunction) {
+  const length = Number(req.headers['content-length']);
+  if (!req.headers['content-length'] || !Number.isFinite(length)) {
+    return res.status(411).json({ error: 'Content-Length header is required for bulk uploads' });
+  }
+  if (length > ARCHIVE_LIMITS.maxTotalBytes + BULK_REQUEST_OVERHEAD_BYTES) {
+    return res.status(400).json({ error: `Upload too large. Maximum total size is ${ARCHIVE_LIMITS.maxTotalBytes / (1024 * 1024)}MB.` });
+  }
+  next();
+}
+
+// Import von Knowledge-Base-Archiven: komplett im Speicher, da vor dem Einspielen ganz geprüft wird
+const IMPORT_MAX_BYTES = (Number(process.env.IMPORT_MAX_MB) || 200) * 1024 * 1024;
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: IMPORT_MAX_BYTES, files: 1 }
+});
+
 // Services
-const chatService = new ChatService();
-const vectorStoreService = new VectorStoreService();
+const siteContent = new SiteContentIndexer();
+const chatService = new ChatService(siteContent);
+const vectorStoreService = createVectorStore();
+const ingestionJobs = new IngestionJobQueue();
 
-// Initialize services
-async function initializeServices() {
+// Initialize services - nur einmal, auch wenn Listen-Callback und Modul-Start es beide anstoßen
+let servicesReady: Promise<void> | undefined;
+
+function initializeServices(): Promise<void> {
+  servicesReady ??= loadServices();
+  return servicesReady;
+}
+
+async function loadServices() {
   try {
     await vectorStoreService.initialize();
     console.log('Vector store initialized');
     
     // Zeige Statistiken beim Start
-    const stats = vectorStoreService.getStats();
+    const stats = await vectorStoreService.getStats({ allUsers: true });
     console.log(`Knowledge base: ${stats.totalDocuments} documents, ${stats.totalChunks} chunks`);
+
+    // Chunks anderer Modelle findet nur die lexikalische Suche
+    const staleChunks = Object.entries(stats.embeddingModels || {})
+      .filter(([model]) => model !== stats.embeddingModel)
+      .reduce((sum, [, count]) => sum + count, 0);
+    if (staleChunks > 0) {
+      console.warn(`${staleChunks} chunks were embedded with another model than ${stats.embeddingModel}; run POST /api/admin/reindex`);
+    }
   } catch (error) {
     console.error('Failed to initialize services:', error);
   }
+  
+  // Website-Inhalte getrennt einlesen: Fehler hier sollen die Knowledge Base nicht blockieren
+  try {
+    await siteContent.index();
+  } catch (error) {
+    console.error('Failed to index site content:', error);
+  }
 }
 
 // Routes
 
 // Health check endpoint (no auth needed)
-app.get('/api/health', (req: Request, res: Response) => {
-  const stats = vectorStoreService.getStats();
+app.get('/api/health', async (req: Request, res: Response) => {
+  const stats = await vectorStoreService.getStats();
   res.json({ 
     status: 'OK', 
     message: process.env.NODE_ENV === 'production' ? 'Server is running on Vercel' : 'Server is running locally',
@@ -146,32 +230,251 @@ app.get('/api/health', (req: Request, res: Response) => {
 // Chat endpoint - AKTUALISIERT für sources support
 app.post('/api/chat', async (req: Request, res: Response) => {
   try {
-    const { message, model = 'mistral-small', useKnowledgeBase = true } = req.body;
+    const { message, model = 'mistral-small', useKnowledgeBase = true, rewriteQuery = true } = req.body;
     
     if (!message) {
       return res.status(400).json({ error: 'Message is required' });
     }
     
-    let context = '';
+    // Optional: Folgefragen nicht anhand des Verlaufs umschreiben
+    if (typeof rewriteQuery !== 'boolean') {
+      return res.status(400).json({ error: 'rewriteQuery must be a boolean' });
+    }
+    
+    // Verlauf je Benutzer (ohne Anmeldung gemeinsamer Verlauf)
+    const userId = getUserId(req);
+    const searchOptions = parseSearchOptions(req.body);
+    const searchQuery = rewriteQuery ? await chatService.condenseQuery(message, userId) : message;
+    if (searchQuery !== message) {
+      console.log(`Rewrote query "${message}" to "${searchQuery}"`);
+    }
+    
+    let knowledge: SearchResult = { context: '', citations: [] };
     if (useKnowledgeBase) {
       // Retrieve relevant context from vector store
-      context = await vectorStoreService.searchSimilar(message);
+      knowledge = await vectorStoreService.searchSimilar(searchQuery, { ...searchOptions, userId });
       
-      if (context) {
-        console.log(`Found relevant context for query: "${message.substring(0, 50)}..."`);
+      if (knowledge.context) {
+        console.log(`Found relevant context for query: "${searchQuery.substring(0, 50)}..."`);
       }
     }
     
-    // ChatService gibt jetzt ein Objekt mit response und sources zurück
-    const result = await chatService.chat(message, context, model);
-    res.json(result); // Sendet { response: string, sources?: string[] }
+    // ChatService gibt jetzt ein Objekt mit response, sources und citations zurück
+    const result = await chatService.chat(message, knowledge, model, userId, searchQuery);
+    // rewrittenQuery zeigt beim Debuggen, womit tatsächlich gesucht wurde
+    res.json({ ...result, ...(searchQuery !== message && { rewrittenQuery: searchQuery }) });
   } catch (error) {
+    if (error instanceof Error && error.message.includes('Invalid search options')) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Chat error:', error);
     res.status(500).json({ error: 'Failed to process chat request' });
   }
 });
 
+// Retrieval debuggen: dieselbe Suche wie im Chat (inkl. Umschreiben der Folgefrage), aber ohne Antwort,
+// dafür mit allen Kandidaten, ihren Scores je Stufe, dem Grund für ihr Ausscheiden und den Laufzeiten
+app.post('/api/search', adminMiddleware, async (req: Request, res: Response) => {
+  try {
+    const { message, rewriteQuery = true, topK } = req.body;
+    
+    if (!message || typeof message !== 'string') {
+      return res.status(400).json({ error: 'Message is required' });
+    }
+    if (typeof rewriteQuery !== 'boolean') {
+      return res.status(400).json({ error: 'rewriteQuery must be a boolean' });
+    }
+    if (topK !== undefined && (!Number.isInteger(topK) || topK < 1 || topK > 50)) {
+      return res.status(400).json({ error: 'topK must be an integer between 1 and 50' });
+    }
+    
+    const userId = getUserId(req);
+    const searchOptions = parseSearchOptions(req.body);
+    const searchQuery = rewriteQuery ? await chatService.condenseQuery(message, userId) : message;
+    const result = await vectorStoreService.searchSimilar(searchQuery, { ...searchOptions, topK, userId, trace: true });
+    
+    res.json({
+      message,
+      ...(searchQuery !== message && { rewrittenQuery: searchQuery }),
+      citations: result.citations,
+      context: result.context,
+      // Fehlt, wenn nichts durchsucht werden konnte (leere Knowledge Base bzw. Filter ohne Treffer)
+      trace: result.trace ?? null
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('Invalid search options')) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Search error:', error);
+    res.status(500).json({ error: 'Failed to search knowledge base' });
+  }
+});
+
+// Suchoptionen aus Chat- bzw. Suchanfrage prüfen (ohne Angabe gelten die Defaults des Stores)
+function parseSearchOptions(body: any): SearchOptions {
+  const { lexicalWeight, filter, collections, tags, rerank, retrievalMode, mmrLambda, mergeAdjacent } = body || {};
+  const invalid = (reason: string) => new Error(`Invalid search options: ${reason}`);
+  
+  // Optional: Gewichtung BM25 vs. Vektorsuche (0 = nur Vektor, 1 = nur BM25)
+  if (lexicalWeight !== undefined && (typeof lexicalWeight !== 'number' || lexicalWeight < 0 || lexicalWeight > 1)) {
+    throw invalid('lexicalWeight must be a number between 0 and 1');
+  }
+  
+  // Optional: nur Tabellenzeilen/Datensätze mit diesen Spaltenwerten, z.B. { "Tier": "SMB" }
+  if (filter !== undefined && !isFieldFilter(filter)) {
+    throw invalid('filter must be an object mapping column names to strings, numbers or booleans');
+  }
+  
+  // Optional: nur Dokumente aus diesen Sammlungen bzw. mit diesen Tags
+  if (collections !== undefined && !isStringArray(collections)) {
+    throw invalid('collections must be an array of strings');
+  }
+  if (tags !== undefined && !isStringArray(tags)) {
+    throw invalid('tags must be an array of strings');
+  }
+  
+  // Optional: zweite Stufe mit Reranker ein- bzw. ausschalten (ohne Angabe: RERANK_DEFAULT)
+  if (rerank !== undefined && typeof rerank !== 'boolean') {
+    throw invalid('rerank must be a boolean');
+  }
+  if (rerank === true && !getReranker()) {
+    throw invalid('Reranking is not configured (set RERANKER)');
+  }
+  
+  // Optional: mit Umformulierungen (multi-query) bzw. hypothetischer Antwort (hyde) suchen
+  if (retrievalMode !== undefined && !isRetrievalMode(retrievalMode)) {
+    throw invalid(`retrievalMode must be one of: ${RETRIEVAL_MODES.join(', ')}`);
+  }
+  if (retrievalMode && retrievalMode !== 'standard' && !getQueryExpander()) {
+    throw invalid(`Retrieval mode ${retrievalMode} requires MISTRAL_API_KEY`);
+  }
+  
+  // Optional: Vielfalt der Treffer (MMR, 1 = nur Relevanz) und Zusammenführen benachbarter Chunks
+  if (mmrLambda !== undefined && (typeof mmrLambda !== 'number' || mmrLambda < 0 || mmrLambda > 1)) {
+    throw invalid('mmrLambda must be a number between 0 and 1');
+  }
+  if (mergeAdjacent !== undefined && typeof mergeAdjacent !== 'boolean') {
+    throw invalid('mergeAdjacent must be a boolean');
+  }
+  
+  return { lexicalWeight, filter, collections, tags, rerank, retrievalMode, mmrLambda, mergeAdjacent };
+}
+
+function isFieldFilter(value: unknown): value is FieldFilter {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+    && Object.values(value).every(v => ['string', 'number', 'boolean'].includes(typeof v));
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+// Formularfelder bzw. JSON: collection und tags (Liste oder kommagetrennt); leere Felder = keine Angabe
+function parseDocumentScope(body: any): DocumentUpdate {
+  const { collection, tags } = body || {};
+  const scope: DocumentUpdate = {};
+  
+  if (collection !== undefined && collection !== '') {
+    if (typeof collection !== 'string') {
+      throw new Error('Invalid collection: must be a string');
+    }
+    scope.collection = normalizeCollection(collection);
+  }
+  if (tags !== undefined && tags !== '') {
+    const list = typeof tags === 'string' ? tags.split(',') : tags;
+    if (!isStringArray(list)) {
+      throw new Error('Invalid tags: must be a list of strings');
+    }
+    scope.tags = normalizeTags(list);
+  }
+  
+  return scope;
+}
+
+// Formularfeld bzw. JSON visibility: shared (Default) oder private (nur für den hochladenden Benutzer)
+function parseOwner(body: any, req: Request): string | undefined {
+  const visibility = body?.visibility || 'shared';
+  if (visibility !== 'shared' && visibility !== 'private') {
+    throw new Error('Invalid visibility: must be shared or private');
+  }
+  if (visibility === 'shared') {
+    return undefined;
+  }
+  
+  const userId = getUserId(req);
+  if (!userId) {
+    throw new Error('Invalid visibility: private documents require a signed-in user');
+  }
+  return userId;
+}
+
+function isScopeError(error: unknown): boolean {
+  return error instanceof Error && (error.message.includes('Invalid collection') || error.message.includes('Invalid tags') ||
+    error.message.includes('Invalid visibility'));
+}
+
+// Formularfelder chunkStrategy, chunkSize, chunkOverlap (Multipart => Strings); leere Felder = Default
+function parseChunkingOptions(body: any): ChunkingOptions | undefined {
+  const { chunkStrategy, chunkSize, chunkOverlap } = body || {};
+  const options: ChunkingOptions = {};
+  
+  if (chunkStrategy) options.strategy = chunkStrategy as ChunkingStrategy;
+  if (chunkSize !== undefined && chunkSize !== '') options.chunkSize = Number(chunkSize);
+  if (chunkOverlap !== undefined && chunkOverlap !== '') options.chunkOverlap = Number(chunkOverlap);
+  
+  return Object.keys(options).length > 0 ? options : undefined;
+}
+
+// Verarbeitungsfehler eines Uploads in eine verständliche Meldung übersetzen
+function describeIngestionError(error: unknown): string {
+  // Embedding-Provider nicht erreichbar: Dokument wurde nicht übernommen
+  if (error instanceof EmbeddingError) {
+    return `Embedding service unavailable, document was not added: ${error.message}`;
+  }
+  if (error instanceof Error) {
+    if (error.message.includes('pdf-parse')) {
+      return 'PDF processing failed. Make sure pdf-parse is installed.';
+    }
+    if (error.message.includes('No text content')) {
+      return 'Could not extract text from PDF. The file might be corrupted or contain only images.';
+    }
+    return error.message;
+  }
+  return 'Failed to process file';
+}
+
+function describeAddDocumentResult(result: AddDocumentResult): string {
+  const messages = {
+    created: 'File uploaded and processed successfully',
+    updated: `File replaced, now at version ${result.version}`,
+    unchanged: 'File content is unchanged, nothing to update',
+    duplicate: `Identical content already exists as "${result.name}"`,
+    reindexed: `Re-embedded ${result.chunks} chunks of version ${result.version}`
+  };
+  return messages[result.status];
+}
+
+// Job für die API aufbereiten (Ergebnis mit Meldung wie bisher beim synchronen Upload)
+function serializeJob(job: IngestionJob) {
+  return {
+    ...job,
+    result: job.result && { ...job.result, message: describeAddDocumentResult(job.result) }
+  };
+}
+
+function removeUploadedFile(uploadedFile?: Express.Multer.File): void {
+  // Nur lokal liegt der Upload als temporäre Datei vor
+  if (uploadedFile?.path) {
+    try {
+      fs.unlinkSync(uploadedFile.path);
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+  }
+}
+
 // Admin: Upload files to knowledge base - ANGEPASST für Memory Buffer (Vercel)
+// Die Verarbeitung läuft als Hintergrund-Job; Antwort 202 mit Job-ID
 app.post('/api/admin/upload', upload.single('file'), async (req: RequestWithFile, res: Response) => {
   try {
     const uploadedFile = req.file;
@@ -189,68 +492,322 @@ app.post('/api/admin/upload', upload.single('file'), async (req: RequestWithFile
       try {
         require.resolve('pdf-parse');
       } catch (e) {
+        removeUploadedFile(uploadedFile);
         return res.status(500).json({ 
           error: 'PDF support not installed. Please run: npm install pdf-parse' 
         });
       }
     }
     
-    // Process and add to vector store
+    // Optionale Chunking-Parameter aus den Formularfeldern, vor der Verarbeitung prüfen
+    const chunking = parseChunkingOptions(req.body);
+    resolveChunkingOptions(uploadedFile.originalname, chunking);
+    const scope = parseDocumentScope(req.body);
+    const owner = parseOwner(req.body, req);
+    
     // Unterscheide zwischen lokalem File Path und Memory Buffer
-    if (process.env.NODE_ENV === 'production') {
-      // Vercel: Verwende Buffer
-      await vectorStoreService.addDocument(uploadedFile.buffer, uploadedFile.originalname);
-    } else {
-      // Lokal: Verwende File Path
-      await vectorStoreService.addDocument(uploadedFile.path, uploadedFile.originalname);
-    }
+    const input = process.env.NODE_ENV === 'production'
+      ? uploadedFile.buffer // Vercel: Verwende Buffer
+      : uploadedFile.path; // Lokal: Verwende File Path
     
-    // Get updated stats
-    const stats = vectorStoreService.getStats();
-    const docStats = stats.documents.find(d => d.name === uploadedFile.originalname);
+    const job = ingestionJobs.enqueue(
+      uploadedFile.originalname,
+      async ({ signal, onProgress }) => {
+        try {
+          return await vectorStoreService.addDocument(input, uploadedFile.originalname, { chunking, ...scope, owner, signal, onProgress });
+        } catch (error) {
+          if (signal.aborted) throw error;
+          throw new Error(describeIngestionError(error));
+        } finally {
+          removeUploadedFile(uploadedFile);
+        }
+      },
+      { discard: () => removeUploadedFile(uploadedFile) }
+    );
     
-    res.json({ 
-      message: 'File uploaded and processed successfully',
-      filename: uploadedFile.originalname,
-      chunks: docStats?.chunks || 0,
-      totalDocuments: stats.totalDocuments
+    res.status(202).json({ 
+      message: 'File accepted for processing',
+      jobId: job.id,
+      job: serializeJob(job)
     });
   } catch (error) {
     console.error('Upload error:', error);
     
     // Cleanup bei Fehler (nur lokal)
     if (process.env.NODE_ENV !== 'production') {
-      const uploadedFile = req.file;
-      if (uploadedFile && uploadedFile.path) {
-        try {
-          fs.unlinkSync(uploadedFile.path);
-        } catch (e) {
-          // Ignore cleanup errors
-        }
-      }
+      removeUploadedFile(req.file);
     }
     
-    // Bessere Fehlermeldungen
-    let errorMessage = 'Failed to process file';
-    if (error instanceof Error) {
-      if (error.message.includes('pdf-parse')) {
-        errorMessage = 'PDF processing failed. Make sure pdf-parse is installed.';
-      } else if (error.message.includes('No text content')) {
-        errorMessage = 'Could not extract text from PDF. The file might be corrupted or contain only images.';
-      } else {
-        errorMessage = error.message;
-      }
+    if (error instanceof Error && (error.message.includes('Invalid chunking options') || isScopeError(error))) {
+      return res.status(400).json({ error: error.message });
+    }
+    
+    res.status(500).json({ error: describeIngestionError(error) });
+  }
+});
+
+// Hochgeladene Dateien und Inhalte von ZIP-Archiven zu einzelnen Dokumenten auflösen.
+// Dateianzahl und Bytes (hochgeladen plus entpackt) gelten für den ganzen Upload; Archive brechen beim
+// Überschreiten sofort ab.
+async function collectBulkEntries(files: Express.Multer.File[]): Promise<{ entries: ArchiveEntry[]; skipped: SkippedEntry[] }> {
+  const entries: ArchiveEntry[] = [];
+  const skipped: SkippedEntry[] = [];
+  const isZip = (file: Express.Multer.File) => path.extname(file.originalname).toLowerCase() === '.zip';
+  const usage: ArchiveUsage = {
+    files: files.filter(file => !isZip(file)).length,
+    bytes: files.reduce((sum, file) => sum + file.size, 0)
+  };
+  
+  if (usage.files > ARCHIVE_LIMITS.maxFiles) {
+    throw new Error(`Too many files: at most ${ARCHIVE_LIMITS.maxFiles} files per bulk upload`);
+  }
+  if (usage.bytes > ARCHIVE_LIMITS.maxTotalBytes) {
+    throw new Error(`Upload too large. Maximum total size is ${ARCHIVE_LIMITS.maxTotalBytes / (1024 * 1024)}MB.`);
+  }
+  
+  for (const file of files) {
+    if (isZip(file)) {
+      const archive = await extractZip(file.buffer, SUPPORTED_EXTENSIONS, ARCHIVE_LIMITS, usage);
+      entries.push(...archive.entries);
+      skipped.push(...archive.skipped);
+    } else if (file.size > ARCHIVE_LIMITS.maxEntryBytes) {
+      skipped.push({ name: file.originalname, reason: 'File exceeds the maximum size of 10MB' });
+    } else {
+      entries.push({ name: file.originalname, buffer: file.buffer });
+    }
+  }
+  
+  return { entries, skipped };
+}
+
+// Stand eines Sammel-Uploads: Zähler je Zustand und Ergebnis je Datei
+function describeBatch(batchId: string, jobs: IngestionJob[]) {
+  const summary = { total: jobs.length, queued: 0, processing: 0, done: 0, failed: 0, cancelled: 0 };
+  
+  for (const job of jobs) {
+    if (job.state === 'parsing' || job.state === 'embedding') {
+      summary.processing++;
+    } else {
+      summary[job.state]++;
+    }
+  }
+  
+  return {
+    batchId,
+    finished: jobs.every(job => isTerminalState(job.state)),
+    summary,
+    files: jobs.map(serializeJob)
+  };
+}
+
+// Admin: Mehrere Dateien bzw. ZIP-Archive hochladen; jede Datei wird ein eigener Job im selben Batch
+app.post('/api/admin/upload/bulk', limitBulkRequest, bulkUpload.array('files'), async (req: Request, res: Response) => {
+  try {
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+    
+    if (files.length === 0) {
+      return res.status(400).json({ error: 'No files uploaded' });
+    }
+    
+    const chunking = parseChunkingOptions(req.body);
+    resolveChunkingOptions('', chunking);
+    const scope = parseDocumentScope(req.body);
+    const owner = parseOwner(req.body, req);
+    
+    const { entries, skipped } = await collectBulkEntries(files);
+    const batchId = crypto.randomUUID();
+    
+    console.log(`Bulk upload ${batchId}: ${entries.length} files queued, ${skipped.length} skipped`);
+    
+    const jobs = [
+      ...entries.map(entry => ingestionJobs.enqueue(
+        entry.name,
+        async ({ signal, onProgress }) => {
+          try {
+            return await vectorStoreService.addDocument(entry.buffer, entry.name, { chunking, ...scope, owner, signal, onProgress });
+          } catch (error) {
+            if (signal.aborted) throw error;
+            throw new Error(describeIngestionError(error));
+          }
+        },
+        { batchId }
+      )),
+      ...skipped.map(entry => ingestionJobs.reject(entry.name, entry.reason, { batchId }))
+    ];
+    
+    res.status(202).json({
+      message: `${entries.length} of ${jobs.length} files accepted for processing`,
+      ...describeBatch(batchId, jobs)
+    });
+  } catch (error) {
+    if (error instanceof Error && (error.message.includes('Invalid archive') || error.message.includes('Too many files') ||
+        error.message.includes('Upload too large') || error.message.includes('Invalid chunking options') || isScopeError(error))) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Bulk upload error:', error);
+    res.status(500).json({ error: 'Failed to process bulk upload' });
+  }
+});
+
+// Admin: Ergebnisbericht eines Sammel-Uploads
+app.get('/api/admin/upload/bulk/:batchId', (req: Request, res: Response) => {
+  const jobs = ingestionJobs.list(req.params.batchId);
+  if (jobs.length === 0) {
+    return res.status(404).json({ error: 'Batch not found' });
+  }
+  res.json(describeBatch(req.params.batchId, jobs));
+});
+
+// Webseite im Job abrufen und einlesen; die URL ist Dokumentname und damit Quelle in Zitaten
+function enqueueUrlIngestion(url: string, options: Pick<AddDocumentOptions, 'chunking' | 'collection' | 'tags' | 'owner'>): IngestionJob {
+  return ingestionJobs.enqueue(url, async ({ signal, onProgress }) => {
+    try {
+      const page = await fetchPage(url, signal);
+      
+      return await vectorStoreService.addDocument(page.buffer, url, {
+        ...options,
+        extract: { format: page.format, baseUrl: page.url },
+        signal,
+        onProgress
+      });
+    } catch (error) {
+      if (signal.aborted) throw error;
+      throw new Error(describeIngestionError(error));
+    }
+  });
+}
+
+// Admin: Ingest a web page by URL
+app.post('/api/admin/ingest/url', async (req: Request, res: Response) => {
+  try {
+    const url = normalizeHttpUrl(req.body?.url);
+    
+    const chunking = parseChunkingOptions(req.body);
+    resolveChunkingOptions(url, chunking);
+    const scope = parseDocumentScope(req.body);
+    const owner = parseOwner(req.body, req);
+    // Interne Ziele gleich ablehnen; der Job prüft jede Weiterleitung erneut
+    await assertPublicUrl(url);
+    
+    const job = enqueueUrlIngestion(url, { chunking, ...scope, owner });
+    res.status(202).json({ 
+      message: 'URL accepted for processing',
+      jobId: job.id,
+      job: serializeJob(job)
+    });
+  } catch (error) {
+    if (error instanceof Error && (error.message.includes('Invalid URL') || error.message.includes('URL not allowed') ||
+        error.message.includes('Invalid chunking options') || isScopeError(error))) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error instanceof Error && error.message.includes('Failed to fetch')) {
+      return res.status(502).json({ error: error.message });
+    }
+    console.error('URL ingestion error:', error);
+    res.status(500).json({ error: 'Failed to start URL ingestion' });
+  }
+});
+
+// Admin: Ingest all pages listed in a sitemap (ein Job pro Seite)
+app.post('/api/admin/ingest/sitemap', async (req: Request, res: Response) => {
+  try {
+    const sitemapUrl = normalizeHttpUrl(req.body?.url);
+    
+    const limit = req.body?.limit === undefined ? SITEMAP_MAX_URLS : Number(req.body.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > SITEMAP_MAX_URLS) {
+      return res.status(400).json({ error: `limit must be an integer between 1 and ${SITEMAP_MAX_URLS}` });
+    }
+    
+    const chunking = parseChunkingOptions(req.body);
+    resolveChunkingOptions('', chunking);
+    const scope = parseDocumentScope(req.body);
+    const owner = parseOwner(req.body, req);
+    
+    const urls = await fetchSitemapUrls(sitemapUrl, limit);
+    if (urls.length === 0) {
+      return res.status(422).json({ error: 'The sitemap does not contain any page URLs' });
     }
     
-    res.status(500).json({ error: errorMessage });
+    const jobs = urls.map(url => enqueueUrlIngestion(url, { chunking, ...scope, owner }));
+    res.status(202).json({ 
+      message: `${jobs.length} pages accepted for processing`,
+      jobs: jobs.map(serializeJob)
+    });
+  } catch (error) {
+    if (error instanceof Error && (error.message.includes('Invalid URL') || error.message.includes('URL not allowed') ||
+        error.message.includes('Invalid chunking options') || isScopeError(error))) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error instanceof Error && error.message.includes('Failed to fetch')) {
+      return res.status(502).json({ error: error.message });
+    }
+    console.error('Sitemap ingestion error:', error);
+    res.status(500).json({ error: 'Failed to start sitemap ingestion' });
+  }
+});
+
+// Admin: List ingestion jobs
+app.get('/api/admin/jobs', (req: Request, res: Response) => {
+  res.json({ jobs: ingestionJobs.list().map(serializeJob) });
+});
+
+// Admin: Get ingestion job status
+app.get('/api/admin/jobs/:id', (req: Request, res: Response) => {
+  const job = ingestionJobs.get(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
   }
+  res.json(serializeJob(job));
 });
 
-// Admin: List knowledge base files
+// Admin: Stream ingestion job updates (Server-Sent Events), endet mit dem Abschluss des Jobs
+app.get('/api/admin/jobs/:id/events', (req: Request, res: Response) => {
+  const job = ingestionJobs.get(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+  
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+  
+  const send = (update: IngestionJob) => {
+    res.write(`data: ${JSON.stringify(serializeJob(update))}\n\n`);
+    if (isTerminalState(update.state)) {
+      unsubscribe();
+      res.end();
+    }
+  };
+  
+  const unsubscribe = ingestionJobs.subscribe(job.id, send);
+  req.on('close', unsubscribe);
+  send(job);
+});
+
+// Admin: Cancel ingestion job
+app.post('/api/admin/jobs/:id/cancel', (req: Request, res: Response) => {
+  try {
+    const job = ingestionJobs.cancel(req.params.id);
+    res.json(serializeJob(job));
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error instanceof Error && error.message.includes('already')) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error('Cancel job error:', error);
+    res.status(500).json({ error: 'Failed to cancel job' });
+  }
+});
+
+// Admin: List knowledge base files (gemeinsame und die eigenen privaten)
 app.get('/api/admin/files', async (req: Request, res: Response) => {
   try {
-    const files = await vectorStoreService.listDocuments();
-    const stats = vectorStoreService.getStats();
+    const files = await vectorStoreService.listDocuments({ userId: getUserId(req) });
+    const stats = await vectorStoreService.getStats({ userId: getUserId(req) });
     
     res.json({ 
       files,
@@ -268,31 +825,426 @@ app.get('/api/admin/files', async (req: Request, res: Response) => {
 // Admin: Delete file from knowledge base
 app.delete('/api/admin/files/:id', async (req: Request, res: Response) => {
   try {
-    await vectorStoreService.deleteDocument(req.params.id);
+    await vectorStoreService.deleteDocument(req.params.id, { userId: getUserId(req) });
     
-    const stats = vectorStoreService.getStats();
+    const remaining = await vectorStoreService.listDocuments({ userId: getUserId(req) });
     
     res.json({ 
       message: 'File deleted successfully',
-      remainingDocuments: stats.totalDocuments
+      remainingDocuments: remaining.length
     });
   } catch (error) {
     console.error('Delete file error:', error);
+    if (error instanceof Error && error.message.includes('not found')) {
+      return res.status(404).json({ error: error.message });
+    }
     res.status(500).json({ error: 'Failed to delete file' });
   }
 });
 
+// Admin: Sammlung bzw. Tags eines Dokuments ändern
+app.patch('/api/admin/files/:id', async (req: Request, res: Response) => {
+  try {
+    const changes = parseDocumentScope(req.body);
+    if (changes.collection === undefined && changes.tags === undefined) {
+      return res.status(400).json({ error: 'Nothing to update: provide collection or tags' });
+    }
+    
+    const document = await vectorStoreService.updateDocument(req.params.id, changes, { userId: getUserId(req) });
+    res.json({ message: 'Document updated', document });
+  } catch (error) {
+    console.error('Update file error:', error);
+    if (isScopeError(error)) {
+      return res.status(400).json({ error: (error as Error).message });
+    }
+    if (error instanceof Error && error.message.includes('not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to update file' });
+  }
+});
+
+// Admin: List versions of a document
+app.get('/api/admin/files/:id/versions', async (req: Request, res: Response) => {
+  try {
+    const versions = await vectorStoreService.listVersions(req.params.id, { userId: getUserId(req) });
+    res.json({ versions });
+  } catch (error) {
+    console.error('List versions error:', error);
+    if (error instanceof Error && error.message.includes('not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to list versions' });
+  }
+});
+
+// Admin: Chunks eines Dokuments mit Text und Metadaten (aktive Version)
+app.get('/api/admin/files/:id/chunks', async (req: Request, res: Response) => {
+  try {
+    const chunks = await vectorStoreService.listChunks(req.params.id, { userId: getUserId(req) });
+    res.json({ documentId: req.params.id, chunks });
+  } catch (error) {
+    console.error('List chunks error:', error);
+    if (error instanceof Error && error.message.includes('not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to list chunks' });
+  }
+});
+
+// Admin: Chunks direkt durchsuchen, z.B. nach einer zitierten Passage (?q=...&documentId=...&limit=...)
+app.get('/api/admin/chunks', async (req: Request, res: Response) => {
+  try {
+    const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+    if (!query) {
+      return res.status(400).json({ error: 'Query parameter q is required' });
+    }
+    
+    const limit = req.query.limit === undefined ? 20 : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+      return res.status(400).json({ error: 'limit must be an integer between 1 and 100' });
+    }
+    
+    const documentId = typeof req.query.documentId === 'string' ? req.query.documentId : undefined;
+    const chunks = await vectorStoreService.searchChunks(query, { documentId, limit, userId: getUserId(req) });
+    res.json({ chunks });
+  } catch (error) {
+    console.error('Chunk search error:', error);
+    if (error instanceof Error && error.message.includes('not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to search chunks' });
+  }
+});
+
+// Admin: Chunk bearbeiten (Text wird neu eingebettet), deaktivieren bzw. aktivieren oder für Anfragen pinnen
+app.patch('/api/admin/chunks/:chunkId', async (req: Request, res: Response) => {
+  try {
+    const { text, disabled, pinnedQueries } = req.body || {};
+    
+    if (text !== undefined && (typeof text !== 'string' || text.trim().length === 0)) {
+      return res.status(400).json({ error: 'text must be a non-empty string' });
+    }
+    if (disabled !== undefined && typeof disabled !== 'boolean') {
+      return res.status(400).json({ error: 'disabled must be a boolean' });
+    }
+    if (pinnedQueries !== undefined &&
+        (!Array.isArray(pinnedQueries) || pinnedQueries.some(query => typeof query !== 'string'))) {
+      return res.status(400).json({ error: 'pinnedQueries must be an array of strings' });
+    }
+    if (text === undefined && disabled === undefined && pinnedQueries === undefined) {
+      return res.status(400).json({ error: 'Nothing to update: provide text, disabled or pinnedQueries' });
+    }
+    
+    const changes: ChunkUpdate = { text: text?.trim(), disabled, pinnedQueries };
+    const chunk = await vectorStoreService.updateChunk(req.params.chunkId, changes, { userId: getUserId(req) });
+    res.json({ message: 'Chunk updated', chunk });
+  } catch (error) {
+    console.error('Update chunk error:', error);
+    if (error instanceof EmbeddingError) {
+      return res.status(503).json({ error: `Embedding service unavailable, chunk was not changed: ${error.message}` });
+    }
+    if (error instanceof Error && error.message.includes('not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to update chunk' });
+  }
+});
+
+// Admin: Roll back a document to an earlier version
+app.post('/api/admin/files/:id/rollback', async (req: Request, res: Response) => {
+  try {
+    const version = Number(req.body?.version);
+    if (!Number.isInteger(version) || version < 1) {
+      return res.status(400).json({ error: 'A valid version number is required' });
+    }
+    
+    const document = await vectorStoreService.rollbackDocument(req.params.id, version, { userId: getUserId(req) });
+    res.json({ 
+      message: `Document rolled back to version ${document.version}`,
+      document
+    });
+  } catch (error) {
+    console.error('Rollback error:', error);
+    if (error instanceof Error && error.message.includes('not found')) {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error instanceof Error && error.message.includes('not supported')) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to roll back document' });
+  }
+});
+
+// Admin: Gesamte Knowledge Base (alle Benutzer, aktive Versionen mit Embeddings) als JSONL-Archiv.
+// Wird zeilenweise geschrieben, damit große Stores nicht komplett im Speicher landen.
+app.get('/api/admin/export', async (req: Request, res: Response) => {
+  try {
+    const documents = await vectorStoreService.listDocuments({ allUsers: true });
+    const stats = await vectorStoreService.getStats({ allUsers: true });
+    const date = new Date().toISOString().slice(0, 10);
+
+    res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="knowledge-base-${date}.jsonl"`);
+    res.write(createArchiveHeader(stats.embeddingModel) + '\n');
+
+    let exported = 0;
+    for (const doc of documents) {
+      try {
+        res.write(serializeDocument(await vectorStoreService.exportDocument(doc.id)) + '\n');
+        exported++;
+      } catch (error) {
+        // Während des Exports gelöschte Dokumente fehlen einfach im Archiv
+        if (error instanceof Error && error.message.includes('not found')) continue;
+        throw error;
+      }
+    }
+
+    res.end(createArchiveFooter(exported) + '\n');
+  } catch (error) {
+    console.error('Export error:', error);
+    if (res.headersSent) {
+      // Ohne Schlusszeile wird das abgebrochene Archiv beim Import abgelehnt
+      res.destroy();
+      return;
+    }
+    res.status(500).json({ error: 'Failed to export knowledge base' });
+  }
+});
+
+// Dokument mit derselben ID ersetzen: vorher sichern (aktive Version) und bei einem Fehler zurückspielen
+async function swapDocument(exported: ExportedDocument): Promise<void> {
+  const backup = await vectorStoreService.exportDocument(exported.document.id);
+  await vectorStoreService.deleteDocument(exported.document.id, { allUsers: true });
+
+  try {
+    await vectorStoreService.importDocument(exported);
+  } catch (error) {
+    await vectorStoreService.importDocument(backup).catch(restoreError => {
+      console.error(`Restoring ${backup.document.name} failed:`, restoreError);
+    });
+    throw error;
+  }
+}
+
+// Admin: Archiv aus /api/admin/export einspielen.
+// mode=merge (Standard) ergänzt den Store, mode=replace ersetzt alle Dokumente (gelöscht wird erst nach dem Import).
+// onConflict regelt beim Zusammenführen Dokumente mit gleicher ID bzw. gleichem Namen und Besitzer:
+// skip (Standard) behält das vorhandene, overwrite ersetzt es, fail bricht ohne Änderungen ab.
+app.post('/api/admin/import', importUpload.single('file'), async (req: Request, res: Response) => {
+  try {
+    const mode = req.body?.mode || 'merge';
+    const onConflict = req.body?.onConflict || 'skip';
+    if (!['merge', 'replace'].includes(mode)) {
+      return res.status(400).json({ error: 'mode must be merge or replace' });
+    }
+    if (!['skip', 'overwrite', 'fail'].includes(onConflict)) {
+      return res.status(400).json({ error: 'onConflict must be skip, overwrite or fail' });
+    }
+    if (!req.file) {
+      return res.status(400).json({ error: 'No archive uploaded' });
+    }
+
+    // Erst vollständig prüfen, dann ändern: ein fehlerhaftes bzw. zum Store unpassendes Archiv lässt ihn unberührt
+    const archive = parseArchive(req.file.buffer.toString('utf-8'));
+    const existing = await vectorStoreService.listDocuments({ allUsers: true });
+
+    const conflictsOf = (document: { id: string; name: string; owner?: string }) => mode === 'replace' ? [] : existing.filter(doc =>
+      doc.id === document.id || (doc.name === document.name && doc.owner === document.owner)
+    );
+    const conflicts = archive.documents
+      .map(({ document }) => ({ document, existing: conflictsOf(document) }))
+      .filter(conflict => conflict.existing.length > 0);
+
+    if (conflicts.length > 0 && onConflict === 'fail') {
+      return res.status(409).json({
+        error: `${conflicts.length} documents already exist`,
+        conflicts: conflicts.map(conflict => ({
+          id: conflict.document.id,
+          name: conflict.document.name,
+          existing: conflict.existing.map(doc => doc.id)
+        }))
+      });
+    }
+
+    const conflictOf = (documentId: string) => conflicts.find(conflict => conflict.document.id === documentId)?.existing || [];
+    const skipped = onConflict === 'skip' ? conflicts.map(conflict => conflict.document.name) : [];
+    const pending = archive.documents.filter(({ document }) => onConflict !== 'skip' || conflictOf(document.id).length === 0);
+
+    // Passen Embeddings nicht zum Store (fehlend bzw. andere Dimension), nichts ändern
+    const invalid: { name: string; error: string }[] = [];
+    for (const exported of pending) {
+      try {
+        await vectorStoreService.validateImport(exported);
+      } catch (error) {
+        invalid.push({ name: exported.document.name, error: error instanceof Error ? error.message : 'Invalid document' });
+      }
+    }
+    if (invalid.length > 0) {
+      return res.status(422).json({ error: `${invalid.length} documents cannot be imported into this store`, failed: invalid });
+    }
+
+    // Ersetzte Dokumente erst nach erfolgreichem Import löschen; nur eines mit derselben ID muss vorher
+    // weichen und wird bei einem Fehler aus seiner Sicherung wiederhergestellt
+    const existingIds = new Set(existing.map(doc => doc.id));
+    const deleted = new Set<string>();
+    const imported: string[] = [];
+    const overwritten: string[] = [];
+    const failed: { name: string; error: string }[] = [];
+    let staleChunks = 0;
+
+    for (const exported of pending) {
+      const { document } = exported;
+      const conflicting = conflictOf(document.id);
+
+      try {
+        if (existingIds.has(document.id) && !deleted.has(document.id)) {
+          await swapDocument(exported);
+          deleted.add(document.id);
+        } else {
+          await vectorStoreService.importDocument(exported);
+        }
+        // Ein vorhandenes Dokument kann mit mehreren Einträgen des Archivs kollidieren
+        for (const doc of conflicting.filter(doc => !deleted.has(doc.id))) {
+          await vectorStoreService.deleteDocument(doc.id, { allUsers: true });
+          deleted.add(doc.id);
+        }
+        (conflicting.length > 0 ? overwritten : imported).push(document.name);
+        staleChunks += exported.chunks.filter(chunk => chunk.embeddingModel !== archive.header.embeddingModel).length;
+      } catch (error) {
+        console.error(`Import of ${document.name} failed:`, error);
+        failed.push({ name: document.name, error: error instanceof Error ? error.message : 'Import failed' });
+      }
+    }
+
+    const warnings: string[] = [];
+    if (mode === 'replace') {
+      const remaining = existing.filter(doc => !deleted.has(doc.id));
+      if (failed.length > 0) {
+        // Lieber zu viele Dokumente behalten als ein nur teilweise eingespieltes Archiv
+        warnings.push(`Kept ${remaining.length} existing documents because ${failed.length} imports failed`);
+      } else {
+        for (const doc of remaining) {
+          await vectorStoreService.deleteDocument(doc.id, { allUsers: true });
+          deleted.add(doc.id);
+        }
+      }
+    }
+    const removed = mode === 'replace' ? deleted.size : 0;
+
+    // Chunks fremder Modelle findet nur die lexikalische Suche, bis neu eingebettet wurde
+    const stats = await vectorStoreService.getStats({ allUsers: true });
+    if (archive.header.embeddingModel !== stats.embeddingModel) {
+      warnings.push(`Archive was embedded with ${archive.header.embeddingModel}, this server uses ${stats.embeddingModel}; run POST /api/admin/reindex`);
+    } else if (staleChunks > 0) {
+      warnings.push(`${staleChunks} imported chunks were embedded with another model; run POST /api/admin/reindex`);
+    }
+
+    res.json({
+      message: `Imported ${imported.length + overwritten.length} of ${archive.documents.length} documents`,
+      mode,
+      imported,
+      overwritten,
+      skipped,
+      failed,
+      removed,
+      warnings
+    });
+  } catch (error) {
+    console.error('Import error:', error);
+    if (error instanceof Error && error.message.includes('Invalid knowledge base archive')) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to import knowledge base' });
+  }
+});
+
+// Admin: Alle bzw. ausgewählte Dokumente mit dem aktuellen Embedding-Modell neu einbetten (ein Job je Dokument)
+app.post('/api/admin/reindex', async (req: Request, res: Response) => {
+  try {
+    const documentIds = req.body?.documentIds;
+    if (documentIds !== undefined &&
+        (!Array.isArray(documentIds) || documentIds.some(id => typeof id !== 'string'))) {
+      return res.status(400).json({ error: 'documentIds must be an array of document ids' });
+    }
+
+    const documents = await vectorStoreService.listDocuments({ allUsers: true });
+    const missing = (documentIds as string[] | undefined)?.filter(id => !documents.some(doc => doc.id === id)) || [];
+    if (missing.length > 0) {
+      return res.status(404).json({ error: `Document not found: ${missing.join(', ')}` });
+    }
+
+    const selected = documentIds ? documents.filter(doc => documentIds.includes(doc.id)) : documents;
+
+    const batchId = crypto.randomUUID();
+    const jobs = selected.map(doc => ingestionJobs.enqueue(
+      doc.name,
+      ({ signal, onProgress }) => vectorStoreService.reindexDocument(doc.id, { signal, onProgress }),
+      { batchId }
+    ));
+
+    res.status(202).json({
+      message: `${jobs.length} documents queued for reindexing`,
+      ...describeBatch(batchId, jobs)
+    });
+  } catch (error) {
+    console.error('Reindex error:', error);
+    res.status(500).json({ error: 'Failed to start reindexing' });
+  }
+});
+
 // Admin: Get knowledge base statistics
 app.get('/api/admin/stats', async (req: Request, res: Response) => {
   try {
-    const stats = vectorStoreService.getStats();
-    res.json(stats);
+    const stats = await vectorStoreService.getStats({ userId: getUserId(req) });
+    const reranker = getReranker();
+    res.json({
+      ...stats,
+      embeddingCache: getEmbeddingCache().getStats(),
+      reranker: reranker && { name: reranker.name, minScore: reranker.minScore, default: isRerankDefault() }
+    });
   } catch (error) {
     console.error('Stats error:', error);
     res.status(500).json({ error: 'Failed to get statistics' });
   }
 });
 
+// Admin: Website-Inhalte sofort neu einlesen (sonst beim nächsten Chat nach Änderung der Datei)
+app.post('/api/admin/site-content/reindex', async (req: Request, res: Response) => {
+  try {
+    const result = await siteContent.index();
+    res.json({ message: `Indexed ${result.pages} pages`, ...result });
+  } catch (error) {
+    console.error('Site content reindex error:', error);
+    if (error instanceof Error && error.message.includes('Invalid site content')) {
+      return res.status(422).json({ error: error.message });
+    }
+    res.status(500).json({ error: 'Failed to index site content' });
+  }
+});
+
+// Sammlungen und Tags mit Anzahl der Dokumente, z.B. für die Auswahl im Chat
+app.get('/api/collections', async (req: Request, res: Response) => {
+  try {
+    const documents = await vectorStoreService.listDocuments({ userId: getUserId(req) });
+    const collections = new Map<string, number>();
+    const tags = new Map<string, number>();
+    
+    for (const doc of documents) {
+      collections.set(doc.collection, (collections.get(doc.collection) || 0) + 1);
+      doc.tags.forEach(tag => tags.set(tag, (tags.get(tag) || 0) + 1));
+    }
+    
+    const toList = (counts: Map<string, number>) => Array.from(counts, ([name, count]) => ({ name, documents: count }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    
+    res.json({ collections: toList(collections), tags: toList(tags) });
+  } catch (error) {
+    console.error('List collections error:', error);
+    res.status(500).json({ error: 'Failed to list collections' });
+  }
+});
+
 // Get available models (no auth for testing)
 app.get('/api/models', (req: Request, res: Response) => {
   res.json({
@@ -308,7 +1260,10 @@ app.get('/api/models', (req: Request, res: Response) => {
 app.use((error: any, req: Request, res: Response, next: NextFunction) => {
   if (error instanceof multer.MulterError) {
     if (error.code === 'LIMIT_FILE_SIZE') {
-      return res.status(400).json({ error: 'File too large. Maximum size is 10MB.' });
+      // Beim Sammel-Upload gilt die Grenze für ganze Archive
+      const maxSize = req.path.startsWith('/api/admin/upload/bulk') ? `${ARCHIVE_LIMITS.maxTotalBytes / (1024 * 1024)}MB`
+        : req.path.startsWith('/api/admin/import') ? `${IMPORT_MAX_BYTES / (1024 * 1024)}MB` : '10MB';
+      return res.status(400).json({ error: `File too large. Maximum size is ${maxSize}.` });
     }
     return res.status(400).json({ error: `Upload error: ${error.message}` });
   }
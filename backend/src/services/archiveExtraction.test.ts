@@ -0,0 +1,132 @@
+import zlib from 'zlib';
+import { describe, expect, it } from 'vitest';
+import { ArchiveLimits, ArchiveUsage, extractZip } from './archiveExtraction';
+
+interface ZipFile {
+  name: string;
+  content?: string | Buffer;
+  deflate?: boolean;
+  encrypted?: boolean;
+}
+
+// Minimales ZIP (ohne Zip64), damit die Tests keine weitere Bibliothek brauchen
+function createZip(files: ZipFile[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf-8');
+    const content = Buffer.from(file.content ?? '');
+    const compressed = file.deflate ? zlib.deflateRawSync(content) : content;
+    // Verschlüsselte Einträge beginnen mit einem 12 Byte langen Header
+    const data = file.encrypted ? Buffer.concat([Buffer.alloc(12), compressed]) : compressed;
+    const flags = file.encrypted ? 0x1 : 0;
+    const method = file.deflate ? 8 : 0;
+    const crc = zlib.crc32(content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(flags, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(flags, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const SUPPORTED = ['.txt', '.md'];
+
+const LIMITS: ArchiveLimits = { maxFiles: 5, maxEntryBytes: 1024, maxTotalBytes: 4096, maxCompressionRatio: 100 };
+
+describe('extractZip', () => {
+  it('extracts supported files and reports skipped ones', async () => {
+    const zip = createZip([
+      { name: 'docs/' },
+      { name: 'docs/readme.md', content: '# Hallo' },
+      { name: 'notes.txt', content: 'Notiz '.repeat(20), deflate: true },
+      { name: 'image.png', content: 'png' },
+      { name: 'inner.zip', content: 'zip' },
+      { name: 'secret.txt', content: 'geheim', encrypted: true },
+      { name: '__MACOSX/docs/._readme.md', content: 'meta' },
+      { name: 'docs/.DS_Store', content: 'meta' }
+    ]);
+    const usage: ArchiveUsage = { files: 0, bytes: 0 };
+
+    const archive = await extractZip(zip, SUPPORTED, LIMITS, usage);
+
+    expect(archive.entries.map(entry => [entry.name, entry.buffer.toString('utf-8')])).toEqual([
+      ['docs/readme.md', '# Hallo'],
+      ['notes.txt', 'Notiz '.repeat(20)]
+    ]);
+    expect(archive.skipped).toEqual([
+      { name: 'image.png', reason: 'Unsupported file type .png' },
+      { name: 'inner.zip', reason: 'Nested archives are not supported' },
+      { name: 'secret.txt', reason: 'Encrypted files are not supported' }
+    ]);
+    expect(usage).toEqual({ files: 5, bytes: 7 + 120 });
+  });
+
+  it('skips files larger than the entry limit', async () => {
+    const zip = createZip([{ name: 'large.txt', content: Buffer.alloc(2048, 'a') }, { name: 'small.txt', content: 'ok' }]);
+
+    const archive = await extractZip(zip, SUPPORTED, LIMITS);
+
+    expect(archive.entries.map(entry => entry.name)).toEqual(['small.txt']);
+    expect(archive.skipped).toEqual([{ name: 'large.txt', reason: expect.stringContaining('File exceeds the maximum size') }]);
+  });
+
+  it('rejects path traversal and broken archives', async () => {
+    await expect(extractZip(createZip([{ name: '../evil.txt', content: 'x' }]), SUPPORTED, LIMITS))
+      .rejects.toThrow('Invalid archive');
+    await expect(extractZip(Buffer.from('not a zip'), SUPPORTED, LIMITS)).rejects.toThrow('Invalid archive');
+  });
+
+  it('rejects entries with a suspicious compression ratio', async () => {
+    const zip = createZip([{ name: 'bomb.txt', content: Buffer.alloc(100_000), deflate: true }]);
+
+    await expect(extractZip(zip, SUPPORTED, { ...LIMITS, maxEntryBytes: 200_000, maxTotalBytes: 200_000 }))
+      .rejects.toThrow('Invalid archive: suspicious compression ratio for bomb.txt');
+  });
+
+  it('counts files and bytes already used by other files of the same upload', async () => {
+    const zip = createZip([{ name: 'a.txt', content: 'a' }, { name: 'b.txt', content: 'b' }]);
+
+    await expect(extractZip(zip, SUPPORTED, LIMITS, { files: 4, bytes: 0 }))
+      .rejects.toThrow('Invalid archive: more than 5 files per upload');
+    await expect(extractZip(zip, SUPPORTED, LIMITS, { files: 0, bytes: 4095 }))
+      .rejects.toThrow('Invalid archive: uploaded and uncompressed content exceeds');
+
+    const usage: ArchiveUsage = { files: 3, bytes: 4094 };
+    await expect(extractZip(zip, SUPPORTED, LIMITS, usage)).resolves.toMatchObject({ entries: [{ name: 'a.txt' }, { name: 'b.txt' }] });
+    expect(usage).toEqual({ files: 5, bytes: 4096 });
+  });
+});
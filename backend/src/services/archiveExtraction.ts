@@ -0,0 +1,142 @@
+// backend/src/services/archiveExtraction.ts
+// ZIP-Archive für den Sammel-Upload entpacken, mit Grenzen gegen Path Traversal und Zip-Bomben
+import path from 'path';
+import { Readable } from 'stream';
+import yauzl from 'yauzl';
+
+export interface ArchiveEntry {
+  // Pfad innerhalb des Archivs (mit "/"), wird zum Dokumentnamen
+  name: string;
+  buffer: Buffer;
+}
+
+// Einträge, die nicht eingelesen werden, mit Grund für den Upload-Bericht
+export interface SkippedEntry {
+  name: string;
+  reason: string;
+}
+
+export interface ExtractedArchive {
+  entries: ArchiveEntry[];
+  skipped: SkippedEntry[];
+}
+
+// Bereits verbrauchte Dateien und Bytes; mehrere Archive eines Uploads teilen sich dieselben Grenzen
+export interface ArchiveUsage {
+  files: number;
+  bytes: number;
+}
+
+export interface ArchiveLimits {
+  maxFiles: number;
+  maxEntryBytes: number;
+  maxTotalBytes: number;
+  // Verhältnis entpackt/gepackt, ab dem ein Eintrag als Zip-Bombe gilt
+  maxCompressionRatio: number;
+}
+
+const MB = 1024 * 1024;
+
+export const ARCHIVE_LIMITS: ArchiveLimits = {
+  maxFiles: Number(process.env.BULK_MAX_FILES) || 100,
+  // Gleiche Grenze wie beim einzelnen Upload
+  maxEntryBytes: 10 * MB,
+  maxTotalBytes: (Number(process.env.BULK_MAX_TOTAL_MB) || 200) * MB,
+  maxCompressionRatio: 100
+};
+
+/**
+ * Entpackt ein ZIP-Archiv vollständig in den Speicher.
+ *
+ * Absolute Pfade und ".."-Segmente lehnt yauzl bereits beim Lesen des Verzeichnisses ab;
+ * die tatsächlich entpackten Bytes werden gegen die angegebenen Größen geprüft.
+ * Verstöße gegen Datei-, Größen- oder Kompressionsgrenzen verwerfen das ganze Archiv,
+ * nicht unterstützte, verschlüsselte oder zu große Einzeldateien werden übersprungen.
+ * `usage` wird fortgeschrieben, damit maxFiles und maxTotalBytes über alle Dateien eines Uploads gelten.
+ */
+export async function extractZip(
+  buffer: Buffer,
+  supportedExtensions: string[],
+  limits: ArchiveLimits = ARCHIVE_LIMITS,
+  usage: ArchiveUsage = { files: 0, bytes: 0 }
+): Promise<ExtractedArchive> {
+  let zipfile: yauzl.ZipFile;
+  try {
+    zipfile = await yauzl.fromBufferPromise(buffer, { lazyEntries: true, strictFileNames: true, validateEntrySizes: true });
+  } catch (error) {
+    throw new Error(`Invalid archive: ${(error as Error).message}`);
+  }
+
+  const entries: ArchiveEntry[] = [];
+  const skipped: SkippedEntry[] = [];
+
+  try {
+    for await (const entry of zipfile.eachEntry()) {
+      const name = entry.fileName;
+      if (name.endsWith('/') || isMetadataEntry(name)) continue;
+
+      if (++usage.files > limits.maxFiles) {
+        throw new Error(`Invalid archive: more than ${limits.maxFiles} files per upload`);
+      }
+
+      const ext = path.posix.extname(name).toLowerCase();
+      if (ext === '.zip') {
+        skipped.push({ name, reason: 'Nested archives are not supported' });
+        continue;
+      }
+      if (!supportedExtensions.includes(ext)) {
+        skipped.push({ name, reason: `Unsupported file type${ext ? ` ${ext}` : ''}` });
+        continue;
+      }
+      if (entry.isEncrypted()) {
+        skipped.push({ name, reason: 'Encrypted files are not supported' });
+        continue;
+      }
+      if (entry.uncompressedSize > limits.maxEntryBytes) {
+        skipped.push({ name, reason: `File exceeds the maximum size of ${limits.maxEntryBytes / MB}MB` });
+        continue;
+      }
+
+      if (entry.compressedSize > 0 && entry.uncompressedSize / entry.compressedSize > limits.maxCompressionRatio) {
+        throw new Error(`Invalid archive: suspicious compression ratio for ${name}`);
+      }
+      // validateEntrySizes sorgt dafür, dass die angegebene Größe stimmt: Abbruch vor dem Entpacken
+      if (usage.bytes + entry.uncompressedSize > limits.maxTotalBytes) {
+        throw new Error(`Invalid archive: uploaded and uncompressed content exceeds ${limits.maxTotalBytes / MB}MB`);
+      }
+
+      const content = await readLimited(await zipfile.openReadStreamPromise(entry), limits.maxEntryBytes, name);
+      usage.bytes += content.length;
+      entries.push({ name, buffer: content });
+    }
+  } catch (error) {
+    const message = (error as Error).message;
+    throw message.startsWith('Invalid archive') ? error : new Error(`Invalid archive: ${message}`);
+  } finally {
+    zipfile.close();
+  }
+
+  return { entries, skipped };
+}
+
+// Von macOS bzw. Explorer angelegte Metadaten und versteckte Dateien ignorieren
+function isMetadataEntry(name: string): boolean {
+  return name.startsWith('__MACOSX/') || path.posix.basename(name).startsWith('.') || path.posix.basename(name) === 'Thumbs.db';
+}
+
+// Angaben im Archiv können gefälscht sein: beim Lesen selbst mitzählen
+async function readLimited(stream: Readable, maxBytes: number, name: string): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of stream) {
+    size += chunk.length;
+    if (size > maxBytes) {
+      stream.destroy();
+      throw new Error(`Invalid archive: ${name} is larger than declared`);
+    }
+    chunks.push(chunk);
+  }
+
+  return Buffer.concat(chunks);
+}
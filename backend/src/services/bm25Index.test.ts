@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { Bm25Index, tokenize } from './bm25Index';
+
+describe('tokenize', () => {
+  it('lowercases and folds umlauts and ß', () => {
+    expect(tokenize('Größe Übergabe')).toEqual(['groesse', 'uebergabe']);
+  });
+
+  it('keeps codes and e-mail addresses whole and indexes their parts', () => {
+    expect(tokenize('Modell XJ-42 an info@example.com')).toEqual([
+      'info@example.com',
+      'modell',
+      'xj-42', 'xj', '42',
+      'an'
+    ]);
+  });
+});
+
+describe('Bm25Index', () => {
+  it('ranks documents containing rarer query terms higher', () => {
+    const index = new Bm25Index();
+    index.add('a', 'Der Vertrag endet nach zwei Jahren');
+    index.add('b', 'Die Kündigung des Vertrags ist schriftlich einzureichen');
+    index.add('c', 'Der Vertrag enthält eine Kündigungsfrist von drei Monaten');
+
+    const matches = index.search('Kündigungsfrist');
+
+    expect(matches[0].id).toBe('c');
+    expect(matches.every(match => match.score > 0)).toBe(true);
+  });
+
+  it('matches query terms inside compound words with a reduced weight', () => {
+    const index = new Bm25Index();
+    index.add('exact', 'vertrag');
+    index.add('compound', 'mietvertrag');
+
+    const [first, second] = index.search('vertrag');
+
+    expect(first.id).toBe('exact');
+    expect(second.id).toBe('compound');
+    expect(second.score).toBeLessThan(first.score);
+  });
+
+  it('finds codes by their exact spelling', () => {
+    const index = new Bm25Index();
+    index.add('a', 'Ersatzteil XJ-42 für Produkt A');
+    index.add('b', 'Ersatzteil XK-17 für Produkt B');
+
+    expect(index.search('xj-42')[0].id).toBe('a');
+  });
+
+  it('replaces the text when a document is added again and forgets removed documents', () => {
+    const index = new Bm25Index();
+    index.add('a', 'alpha beta');
+    index.add('a', 'gamma');
+    index.add('b', 'beta');
+
+    expect(index.size).toBe(2);
+    expect(index.search('alpha')).toEqual([]);
+    expect(index.search('gamma').map(match => match.id)).toEqual(['a']);
+
+    index.remove('b');
+    expect(index.size).toBe(1);
+    expect(index.search('beta')).toEqual([]);
+  });
+
+  it('only scores accepted documents before applying the limit', () => {
+    const index = new Bm25Index();
+    index.add('public', 'produkt');
+    for (let i = 0; i < 5; i++) index.add(`private${i}`, 'produkt produkt');
+
+    expect(index.search('produkt', 1).map(match => match.id)).toEqual(['private0']);
+    expect(index.search('produkt', 1, id => id === 'public').map(match => match.id)).toEqual(['public']);
+  });
+
+  it('limits the number of matches and returns nothing for an empty index', () => {
+    const index = new Bm25Index();
+    expect(index.search('anything')).toEqual([]);
+
+    for (let i = 0; i < 5; i++) index.add(`doc${i}`, `produkt ${i}`);
+    expect(index.search('produkt', 3)).toHaveLength(3);
+
+    index.clear();
+    expect(index.size).toBe(0);
+    expect(index.search('produkt')).toEqual([]);
+  });
+});
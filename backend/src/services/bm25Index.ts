@@ -0,0 +1,168 @@
+// backend/src/services/bm25Index.ts
+
+export interface LexicalMatch {
+  id: string;
+  score: number;
+}
+
+// Gewicht für Teilwort-Treffer (z.B. "vertrag" in "mietvertrag")
+const PARTIAL_MATCH_WEIGHT = 0.5;
+const MIN_PARTIAL_TERM_LENGTH = 4;
+const MAX_PARTIAL_EXPANSIONS = 20;
+
+const EMAIL_PATTERN = /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)+/gu;
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:[-_./][\p{L}\p{N}]+)*/gu;
+
+// Umlaute/ß vereinheitlichen, damit "Größe" und "groesse" denselben Term ergeben
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/ä/g, 'ae')
+    .replace(/ö/g, 'oe')
+    .replace(/ü/g, 'ue')
+    .replace(/ß/g, 'ss');
+}
+
+/**
+ * Zerlegt Text in Terme. E-Mail-Adressen und zusammengesetzte Codes
+ * (z.B. "XJ-42", "v2.1") bleiben als Ganzes erhalten, ihre Bestandteile
+ * werden zusätzlich indexiert.
+ */
+export function tokenize(text: string): string[] {
+  const normalized = normalize(text);
+  const tokens: string[] = [];
+
+  for (const email of normalized.match(EMAIL_PATTERN) || []) {
+    tokens.push(email);
+  }
+
+  for (const token of normalized.replace(EMAIL_PATTERN, ' ').match(TOKEN_PATTERN) || []) {
+    tokens.push(token);
+
+    const parts = token.split(/[-_./]/);
+    if (parts.length > 1) {
+      tokens.push(...parts.filter(part => part.length > 0));
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Invertierter Index mit BM25-Scoring über Chunk-Texte.
+ * Wird inkrementell gepflegt (add/remove), damit kein Neuaufbau pro Anfrage nötig ist.
+ */
+export class Bm25Index {
+  // term -> (docId -> Termfrequenz)
+  private postings: Map<string, Map<string, number>> = new Map();
+  private docTerms: Map<string, Map<string, number>> = new Map();
+  private docLengths: Map<string, number> = new Map();
+  private totalLength = 0;
+
+  constructor(private k1: number = 1.2, private b: number = 0.75) {}
+
+  get size(): number {
+    return this.docLengths.size;
+  }
+
+  add(id: string, text: string): void {
+    if (this.docLengths.has(id)) {
+      this.remove(id);
+    }
+
+    const tokens = tokenize(text);
+    const frequencies: Map<string, number> = new Map();
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) || 0) + 1);
+    }
+
+    frequencies.forEach((tf, term) => {
+      if (!this.postings.has(term)) {
+        this.postings.set(term, new Map());
+      }
+      this.postings.get(term)!.set(id, tf);
+    });
+
+    this.docTerms.set(id, frequencies);
+    this.docLengths.set(id, tokens.length);
+    this.totalLength += tokens.length;
+  }
+
+  remove(id: string): void {
+    const frequencies = this.docTerms.get(id);
+    if (!frequencies) return;
+
+    frequencies.forEach((_, term) => {
+      const posting = this.postings.get(term);
+      if (!posting) return;
+      posting.delete(id);
+      if (posting.size === 0) {
+        this.postings.delete(term);
+      }
+    });
+
+    this.totalLength -= this.docLengths.get(id) || 0;
+    this.docTerms.delete(id);
+    this.docLengths.delete(id);
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.docTerms.clear();
+    this.docLengths.clear();
+    this.totalLength = 0;
+  }
+
+  // accept schränkt die Treffer ein (z.B. Sichtbarkeit), bevor auf limit gekürzt wird
+  search(query: string, limit?: number, accept?: (id: string) => boolean): LexicalMatch[] {
+    const docCount = this.docLengths.size;
+    if (docCount === 0) return [];
+
+    const avgLength = this.totalLength / docCount || 1;
+    const scores: Map<string, number> = new Map();
+
+    for (const [term, weight] of this.expandQuery(query)) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      const df = posting.size;
+      const idf = Math.log(1 + (docCount - df + 0.5) / (df + 0.5));
+
+      posting.forEach((tf, id) => {
+        if (accept && !accept(id)) return;
+        const length = this.docLengths.get(id) || 0;
+        const termScore = idf * (tf * (this.k1 + 1)) /
+          (tf + this.k1 * (1 - this.b + this.b * length / avgLength));
+        scores.set(id, (scores.get(id) || 0) + weight * termScore);
+      });
+    }
+
+    const matches = Array.from(scores.entries())
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score);
+
+    return limit !== undefined ? matches.slice(0, limit) : matches;
+  }
+
+  // Query-Terme plus Index-Terme, die den Query-Term enthalten (Komposita)
+  private expandQuery(query: string): Map<string, number> {
+    const terms: Map<string, number> = new Map();
+
+    for (const token of new Set(tokenize(query))) {
+      terms.set(token, 1);
+
+      if (token.length < MIN_PARTIAL_TERM_LENGTH) continue;
+
+      let expansions = 0;
+      for (const term of this.postings.keys()) {
+        if (expansions >= MAX_PARTIAL_EXPANSIONS) break;
+        if (term !== token && term.includes(token) && !terms.has(term)) {
+          terms.set(term, PARTIAL_MATCH_WEIGHT);
+          expansions++;
+        }
+      }
+    }
+
+    return terms;
+  }
+}
@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ChatService, isFollowUpQuestion } from './chatService';
+
+describe('isFollowUpQuestion', () => {
+  it('detects pronouns, references and elliptic questions', () => {
+    expect(isFollowUpQuestion('Und was kostet das?')).toBe(true);
+    expect(isFollowUpQuestion('Gibt es davon eine größere Variante?')).toBe(true);
+    expect(isFollowUpQuestion('Wie lange dauert es?')).toBe(true);
+    expect(isFollowUpQuestion('How much is it?')).toBe(true);
+    expect(isFollowUpQuestion('und für Firmenkunden?')).toBe(true);
+    expect(isFollowUpQuestion('What about returns')).toBe(true);
+    expect(isFollowUpQuestion('…auch in Blau')).toBe(true);
+  });
+
+  it('keeps short standalone questions and long messages', () => {
+    expect(isFollowUpQuestion('Öffnungszeiten Hamburg')).toBe(false);
+    expect(isFollowUpQuestion('Was kostet das Widget Pro?')).toBe(false);
+    expect(isFollowUpQuestion('Haben Sie größere Modelle?')).toBe(false);
+    expect(isFollowUpQuestion('Gibt es Rabatte für Schulen?')).toBe(false);
+    expect(isFollowUpQuestion('Können Sie mir bitte sagen, wie lange die Lieferung nach Österreich dauert und was das kostet?')).toBe(false);
+  });
+});
+
+describe('ChatService.condenseQuery without LLM', () => {
+  let chatService: ChatService;
+
+  beforeEach(async () => {
+    vi.stubEnv('MISTRAL_API_KEY', '');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    chatService = new ChatService();
+    // Ohne API-Key landet die Frage im Verlauf, die Antwort kommt aus dem Fallback
+    await chatService.chat('Was kostet der Versand nach Österreich?', { context: '', citations: [] }, 'model', 'user');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('adds the previous question to follow-ups', async () => {
+    expect(await chatService.condenseQuery('Und in die Schweiz?', 'user'))
+      .toBe('Was kostet der Versand nach Österreich? Und in die Schweiz?');
+  });
+
+  it('leaves new short questions and other sessions unchanged', async () => {
+    expect(await chatService.condenseQuery('Öffnungszeiten Hamburg', 'user')).toBe('Öffnungszeiten Hamburg');
+    expect(await chatService.condenseQuery('Und in die Schweiz?', 'other')).toBe('Und in die Schweiz?');
+  });
+});
@@ -1,4 +1,6 @@
 // backend/src/services/chatService.ts
+import { Citation, SearchResult } from './vectorStore';
+import { SiteContent, SiteContentIndexer } from './siteContentIndexer';
 
 interface Message {
   role: 'system' | 'user' | 'assistant';
@@ -21,21 +23,97 @@ interface MistralResponse {
   };
 }
 
+// Umschreiben von Folgefragen: so viele letzte Nachrichten gehen ein, Antworten gekürzt
+const REWRITE_HISTORY_MESSAGES = 6;
+const REWRITE_MESSAGE_LENGTH = 500;
+// Ohne LLM werden nur kurze Nachrichten mit Bezug auf den Verlauf als Folgefrage behandelt
+const FOLLOW_UP_MAX_WORDS = 8;
+// Pronomen und Verweise; Artikel (der, die, das vor einem Nomen), "gibt es" und das höfliche "Sie" zählen nicht.
+// Wortgrenzen über Unicode-Buchstaben, \b würde z.B. in "größer" ein "er" finden
+const FOLLOW_UP_REFERENCE = /(?<!\p{L})(dies|diese[mnrs]?|davon|dazu|dafür|damit|darüber|daran|dort|dorthin|ihm|ihn|ihnen|er|it|its|this|that|these|those|they|them|their|there|he|him|his|she|her)(?!\p{L})|(?<!\p{L})(das|es)\s*[?!.]*$/iu;
+// Unvollständige Nachrichten: beginnen mit einer Konjunktion ("und für Firmen?") oder mit bzw. enden auf Auslassungspunkte
+const FOLLOW_UP_ELLIPSIS = /^(\.{3}|…|(und|oder|aber|auch|and|or|but|also|what about|how about)\b)|(\.{3}|…)$/i;
+
+interface CompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+}
+
 interface ChatResponse {
   response: string;
   sources?: string[];
+  // Fundstellen (Dokument, Seite, Abschnitt, Auszug) zum Nachprüfen der Antwort
+  citations?: Citation[];
 }
 
 export class ChatService {
   private conversationHistory: Map<string, Message[]> = new Map();
   private mistralApiKey: string;
+  private rewriteModel: string;
 
-  constructor() {
+  // Website-Inhalte werden unabhängig von der Knowledge Base immer durchsucht
+  constructor(private siteContent?: SiteContentIndexer) {
     this.mistralApiKey = process.env.MISTRAL_API_KEY || '';
+    this.rewriteModel = process.env.QUERY_REWRITE_MODEL || 'mistral-small';
   }
 
-  async chat(message: string, context: string, model: string, userId?: string): Promise<ChatResponse> {
+  // Folgefragen ("und was kostet das?") anhand des Verlaufs in eine eigenständige Suchanfrage umschreiben.
+  // Muss vor chat() aufgerufen werden, solange die Nachricht noch nicht im Verlauf steht.
+  async condenseQuery(message: string, userId?: string): Promise<string> {
+    const history = this.conversationHistory.get(userId || 'default') || [];
+    const recent = history.slice(-REWRITE_HISTORY_MESSAGES);
+    if (recent.length === 0) {
+      return message;
+    }
+
+    if (this.mistralApiKey) {
+      const transcript = recent
+        .map(entry => `${entry.role === 'user' ? 'User' : 'Assistant'}: ${entry.content.slice(0, REWRITE_MESSAGE_LENGTH)}`)
+        .join('\n');
+
+      try {
+        const rewritten = await this.callMistralAPI([
+          {
+            role: 'system',
+            content: 'Rewrite the follow-up message into a standalone search query for a knowledge base. ' +
+              'Resolve pronouns and references (e.g. "it", "that product") using the conversation. ' +
+              'Keep the language of the follow-up. If it is already standalone, return it unchanged. ' +
+              'Reply with the query only, without quotes or explanation.'
+          },
+          { role: 'user', content: `Conversation:\n${transcript}\n\nFollow-up: ${message}` }
+        ], this.rewriteModel, { temperature: 0, maxTokens: 100 });
+
+        const query = rewritten.trim().replace(/^["']+|["']+$/g, '').trim();
+        return query || message;
+      } catch (error) {
+        console.warn('Query rewriting failed, using the original message:', error);
+        return message;
+      }
+    }
+
+    // Ohne LLM: erkennbare Folgefragen um die letzte Frage ergänzen, damit deren Begriffe mitgesucht werden;
+    // andere Nachrichten bleiben unverändert, auch wenn sie kurz sind
+    const previousQuestion = [...recent].reverse().find(entry => entry.role === 'user');
+    return previousQuestion && isFollowUpQuestion(message)
+      ? `${previousQuestion.content} ${message}`
+      : message;
+  }
+
+  // searchQuery: umgeschriebene Anfrage für die Suche in den Website-Inhalten (Standard: die Nachricht)
+  async chat(
+    message: string,
+    knowledge: SearchResult,
+    model: string,
+    userId?: string,
+    searchQuery: string = message
+  ): Promise<ChatResponse> {
+    let site: SearchResult = { context: '', citations: [] };
+
     try {
+      if (this.siteContent) {
+        site = await this.siteContent.search(searchQuery);
+      }
+      
       // Get or create conversation history for user
       const sessionId = userId || 'default';
       if (!this.conversationHistory.has(sessionId)) {
@@ -45,7 +123,7 @@ export class ChatService {
       const history = this.conversationHistory.get(sessionId)!;
       
       // Build system message with context
-      const systemMessage = this.buildSystemMessage(context);
+      const systemMessage = this.buildSystemMessage(knowledge.context, site.context);
       
       // Add user message to history
       history.push({ role: 'user', content: message });
@@ -67,24 +145,28 @@ export class ChatService {
         history.splice(0, history.length - 20);
       }
       
-      // Extract sources from context
-      const sources = this.extractSources(context);
+      // Dokumente zuerst, danach Website-Seiten (mit Route für die Navigation)
+      const citations = [...knowledge.citations, ...site.citations];
+      // Dateinamen der Fundstellen (ohne Duplikate)
+      const sources = Array.from(new Set(citations.map(citation => citation.source)));
       
       return {
         response: assistantMessage,
-        sources: sources.length > 0 ? sources : undefined
+        sources: sources.length > 0 ? sources : undefined,
+        citations: citations.length > 0 ? citations : undefined
       };
     } catch (error) {
       console.error('Chat error:', error);
       // Fallback response
       return {
-        response: this.getFallbackResponse(message),
-        sources: undefined
+        response: this.getFallbackResponse(message, site),
+        sources: undefined,
+        citations: site.citations.length > 0 ? site.citations : undefined
       };
     }
   }
 
-  private async callMistralAPI(messages: Message[], model: string): Promise<string> {
+  private async callMistralAPI(messages: Message[], model: string, options: CompletionOptions = {}): Promise<string> {
     if (!this.mistralApiKey) {
       throw new Error('Mistral API key not configured');
     }
@@ -99,8 +181,8 @@ export class ChatService {
         body: JSON.stringify({
           model: model,
           messages: messages,
-          temperature: 0.3,  // Niedrigere Temperatur für präzisere Antworten
-          max_tokens: 200,   // Begrenzte Tokens für kürzere Antworten
+          temperature: options.temperature ?? 0.3,  // Niedrigere Temperatur für präzisere Antworten
+          max_tokens: options.maxTokens ?? 200,     // Begrenzte Tokens für kürzere Antworten
         })
       });
 
@@ -122,7 +204,7 @@ export class ChatService {
     }
   }
 
-  private buildSystemMessage(context: string): string {
+  private buildSystemMessage(context: string, siteContext: string): string {
     let systemMessage = `You are a helpful assistant for a website. 
 
 CRITICAL INSTRUCTIONS:
@@ -130,23 +212,16 @@ CRITICAL INSTRUCTIONS:
 2. Give direct, precise answers without unnecessary elaboration
 3. When citing contact information (emails, phone numbers, URLs), always provide them COMPLETELY and EXACTLY as shown
 4. NEVER truncate or shorten email addresses - always include the full domain (.com, .de, etc.)
-5. Do not add pleasantries or filler text
+5. Do not add pleasantries or filler text`;
 
-Website Information:
-- Company: MyApp
-- Services: Web Development, Mobile Apps, Consulting
-- Products: Product A (Enterprise), Product B (SMB)
-- Location: Berlin, Germany
-- Contact: info@myapp.com, +49 123 456 789
+    const site = this.siteContent?.getContent();
+    if (site) {
+      systemMessage += `\n\n${this.describeSite(site)}`;
+    }
 
-Available Pages:
-- Home: Overview of services
-- About: Company information
-- Services: Web Development, Mobile Apps, Consulting
-- Products: Enterprise and SMB solutions
-- Blog: Latest articles and updates
-- Contact: Contact form and information
-- FAQ: Frequently asked questions`;
+    if (siteContext) {
+      systemMessage += `\n\nRELEVANT WEBSITE CONTENT:\n${siteContext}`;
+    }
 
     if (context) {
       systemMessage += `\n\nRELEVANT KNOWLEDGE BASE INFORMATION:\n${context}\n\nIMPORTANT: Use the knowledge base information above to answer. If contact details appear in the knowledge base, use those EXACTLY as written, including complete email addresses with full domains.`;
@@ -157,25 +232,20 @@ Available Pages:
     return systemMessage;
   }
 
-  private extractSources(context: string): string[] {
-    const sources: string[] = [];
-    if (!context) return sources;
-    
-    // Extract source names from context format: [Source: filename]
-    const sourcePattern = /\[Source: ([^\]]+)\]/g;
-    let match;
-    
-    while ((match = sourcePattern.exec(context)) !== null) {
-      const source = match[1];
-      if (!sources.includes(source)) {
-        sources.push(source);
-      }
-    }
-    
-    return sources;
+  // Firmenangaben und Seitenliste aus den Website-Inhalten statt fest im Prompt
+  private describeSite(site: SiteContent): string {
+    const { company, pages } = site;
+
+    return `Website Information:
+- Company: ${company.name} (${company.tagline})
+- Location: ${company.location}
+- Contact: ${company.email}, ${company.phone}
+
+Available Pages:
+${pages.map(page => `- ${page.name} (${page.route}): ${page.description}`).join('\n')}`;
   }
 
-  private getFallbackResponse(message: string): string {
+  private getFallbackResponse(message: string, site: SearchResult): string {
     const messageLower = message.toLowerCase();
     
     // Kurze, präzise Fallback-Antworten
@@ -183,23 +253,27 @@ Available Pages:
       return 'Hello! How can I help you?';
     }
     
-    if (messageLower.includes('services')) {
-      return 'We offer Web Development, Mobile Apps, and Consulting services.';
-    }
-    
-    if (messageLower.includes('contact')) {
-      return 'Contact us at info@myapp.com or +49 123 456 789.';
-    }
-    
-    if (messageLower.includes('product')) {
-      return 'We offer Product A for enterprises and Product B for SMBs.';
+    // Passende Website-Seite zitieren
+    const [bestMatch] = site.citations;
+    if (bestMatch) {
+      return `${bestMatch.excerpt} (${bestMatch.source} page)`;
     }
     
-    return 'I cannot access the AI service right now. Please contact info@myapp.com for assistance.';
+    const email = this.siteContent?.getContent()?.company.email;
+    return email
+      ? `I cannot access the AI service right now. Please contact ${email} for assistance.`
+      : 'I cannot access the AI service right now. Please try again later.';
   }
 
   clearHistory(userId?: string): void {
     const sessionId = userId || 'default';
     this.conversationHistory.delete(sessionId);
   }
-}
\ No newline at end of file
+}
+
+// Kurze Nachricht mit Pronomen bzw. Verweis oder als Auslassung formuliert, z.B. "und was kostet das?"
+export function isFollowUpQuestion(message: string): boolean {
+  const text = message.trim();
+  if (text.split(/\s+/).length > FOLLOW_UP_MAX_WORDS) return false;
+  return FOLLOW_UP_REFERENCE.test(text) || FOLLOW_UP_ELLIPSIS.test(text);
+}
@@ -0,0 +1,164 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  ResolvedChunkingOptions,
+  chunkText,
+  countTokens,
+  resolveChunkingOptions,
+  sameChunkingOptions,
+  splitSentences
+} from './chunking';
+
+function options(overrides: Partial<ResolvedChunkingOptions> = {}): ResolvedChunkingOptions {
+  return { strategy: 'sentence', chunkSize: 32, chunkOverlap: 0, ...overrides };
+}
+
+function words(count: number, prefix = 'wort'): string {
+  return Array.from({ length: count }, (_, i) => `${prefix}${i}`).join(' ');
+}
+
+describe('resolveChunkingOptions', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('chooses the strategy by file type and fills in the defaults', () => {
+    expect(resolveChunkingOptions('notes.md')).toEqual({ strategy: 'markdown', chunkSize: 256, chunkOverlap: 32 });
+    expect(resolveChunkingOptions('report.pdf').strategy).toBe('sentence');
+    expect(resolveChunkingOptions('report.pdf', { strategy: 'token' }).strategy).toBe('token');
+  });
+
+  it('uses CHUNK_SIZE and CHUNK_OVERLAP and ignores values that are not numbers', () => {
+    vi.stubEnv('CHUNK_SIZE', '400');
+    vi.stubEnv('CHUNK_OVERLAP', '0');
+    expect(resolveChunkingOptions('a.txt')).toMatchObject({ chunkSize: 400, chunkOverlap: 0 });
+
+    vi.stubEnv('CHUNK_SIZE', 'large');
+    vi.stubEnv('CHUNK_OVERLAP', 'abc');
+    expect(resolveChunkingOptions('a.txt')).toMatchObject({ chunkSize: 256, chunkOverlap: 32 });
+  });
+
+  it('prefers CHUNK_STRATEGY over the file type', () => {
+    vi.stubEnv('CHUNK_STRATEGY', 'recursive');
+
+    expect(resolveChunkingOptions('notes.md').strategy).toBe('recursive');
+  });
+
+  it('limits the default overlap to a quarter of a smaller chunk size', () => {
+    expect(resolveChunkingOptions('a.txt', { chunkSize: 64 }).chunkOverlap).toBe(16);
+  });
+
+  it('rejects unknown strategies, sizes out of range and overlaps of half the size or more', () => {
+    expect(() => resolveChunkingOptions('a.txt', { strategy: 'page' as never }))
+      .toThrow('strategy must be one of sentence, markdown, recursive, token');
+    expect(() => resolveChunkingOptions('a.txt', { chunkSize: 16 })).toThrow('chunkSize must be an integer between 32 and 2048');
+    expect(() => resolveChunkingOptions('a.txt', { chunkSize: 100.5 })).toThrow('chunkSize must be an integer');
+    expect(() => resolveChunkingOptions('a.txt', { chunkSize: 64, chunkOverlap: 32 })).toThrow('chunkOverlap must be an integer');
+    expect(() => resolveChunkingOptions('a.txt', { chunkOverlap: -1 })).toThrow('chunkOverlap must be an integer');
+  });
+});
+
+describe('sameChunkingOptions', () => {
+  it('compares all options and treats missing options as different', () => {
+    expect(sameChunkingOptions(options(), options())).toBe(true);
+    expect(sameChunkingOptions(options({ chunkOverlap: 8 }), options())).toBe(false);
+    expect(sameChunkingOptions(undefined, options())).toBe(false);
+  });
+});
+
+describe('countTokens', () => {
+  it('counts punctuation as one token and long words as several', () => {
+    expect(countTokens('Hallo, Welt!')).toBe(5);
+    expect(countTokens('Donaudampfschifffahrt')).toBe(6);
+    expect(countTokens('   ')).toBe(0);
+  });
+});
+
+describe('splitSentences', () => {
+  it('does not end sentences after abbreviations, initials, ordinals or numbers', () => {
+    expect(splitSentences('Das gilt z.B. für Dr. Müller. Am 3. Mai kommt J. Meier! Preis: 3.5 Euro?  Ende'))
+      .toEqual(['Das gilt z.B. für Dr. Müller.', 'Am 3. Mai kommt J. Meier!', 'Preis: 3.5 Euro?', 'Ende']);
+  });
+
+  it('keeps e-mail addresses whole and continues lowercase text', () => {
+    expect(splitSentences('Schreiben Sie an info@example.com. danach warten. Fertig.'))
+      .toEqual(['Schreiben Sie an info@example.com. danach warten.', 'Fertig.']);
+  });
+});
+
+describe('chunkText', () => {
+  it('packs whole sentences up to the chunk size and repeats the last sentences as overlap', () => {
+    const sentences = Array.from({ length: 6 }, (_, i) => `Satz ${i} hat genau acht kurze Wörter hier.`);
+
+    const chunks = chunkText(sentences.join(' '), options({ chunkSize: 40, chunkOverlap: 12 }));
+
+    expect(chunks.every(chunk => countTokens(chunk) <= 40)).toBe(true);
+    expect(chunks.every(chunk => chunk.endsWith('.'))).toBe(true);
+    for (let i = 1; i < chunks.length; i++) {
+      const lastSentence = splitSentences(chunks[i - 1]).pop()!;
+      expect(chunks[i].startsWith(lastSentence)).toBe(true);
+    }
+  });
+
+  it('splits sentences longer than the chunk size by tokens', () => {
+    const chunks = chunkText(`${words(100)}.`, options());
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => countTokens(chunk) <= 32)).toBe(true);
+  });
+
+  it('moves a fixed token window by chunk size minus overlap at word boundaries', () => {
+    const text = words(100, 'w');
+
+    const chunks = chunkText(text, options({ strategy: 'token', chunkSize: 40, chunkOverlap: 10 }));
+
+    expect(chunks[0].split(' ')).toHaveLength(40);
+    expect(chunks[1].split(' ')[0]).toBe('w30');
+    expect(chunks[chunks.length - 1].endsWith('w99')).toBe(true);
+  });
+
+  it('splits recursively by paragraphs before lines and words', () => {
+    const paragraphs = [words(20, 'a'), words(20, 'b'), words(20, 'c')];
+
+    const chunks = chunkText(paragraphs.join('\n\n'), options({ strategy: 'recursive', chunkSize: 48 }));
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0]).toBe(`${paragraphs[0]}\n\n${paragraphs[1]}`);
+    expect(chunks[1]).toBe(paragraphs[2]);
+  });
+
+  it('starts a new chunk at each markdown heading and keeps code blocks and tables together', () => {
+    const markdown = [
+      '# Einleitung',
+      '## Überblick',
+      'Kurzer Text.',
+      '# Installation',
+      '```bash',
+      'npm install',
+      '',
+      'npm start',
+      '```',
+      '| Spalte | Wert |',
+      '| --- | --- |',
+      '| a | 1 |'
+    ].join('\n');
+
+    const chunks = chunkText(markdown, options({ strategy: 'markdown', chunkSize: 256 }));
+
+    expect(chunks).toEqual([
+      '# Einleitung\n\n## Überblick\n\nKurzer Text.',
+      '# Installation\n\n```bash\nnpm install\n\nnpm start\n```\n\n| Spalte | Wert |\n| --- | --- |\n| a | 1 |'
+    ]);
+  });
+
+  it('keeps list items with their indented continuation lines', () => {
+    const markdown = '- erster Punkt\n  mit Fortsetzung\n- zweiter Punkt\n\nAbsatz danach.';
+
+    expect(chunkText(markdown, options({ strategy: 'markdown' }))).toEqual([
+      '- erster Punkt\n  mit Fortsetzung\n- zweiter Punkt\n\nAbsatz danach.'
+    ]);
+  });
+
+  it('returns no chunks for empty text', () => {
+    expect(chunkText('  \n\n ', options())).toEqual([]);
+  });
+});
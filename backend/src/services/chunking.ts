@@ -0,0 +1,344 @@
+// backend/src/services/chunking.ts
+// Chunker-Strategien; Größe und Overlap werden in (geschätzten) Tokens gemessen
+import path from 'path';
+
+// sentence: Fließtext satzweise, markdown: Überschriften/Code/Tabellen/Listen als Blöcke,
+// recursive: Absätze > Zeilen > Sätze > Wörter, token: festes Token-Fenster
+export type ChunkingStrategy = 'sentence' | 'markdown' | 'recursive' | 'token';
+
+export const CHUNKING_STRATEGIES: ChunkingStrategy[] = ['sentence', 'markdown', 'recursive', 'token'];
+
+export interface ChunkingOptions {
+  strategy?: ChunkingStrategy;
+  chunkSize?: number;
+  chunkOverlap?: number;
+}
+
+export type ResolvedChunkingOptions = Required<ChunkingOptions>;
+
+export const MIN_CHUNK_SIZE = 32;
+export const MAX_CHUNK_SIZE = 2048;
+
+const DEFAULT_CHUNK_SIZE = 256;
+const DEFAULT_CHUNK_OVERLAP = 32;
+
+// Wörter, Zahlen und einzelne Satzzeichen; Wörter zählen als ceil(Länge / 4) Tokens
+// (Näherung an BPE-Tokenizer wie den von Mistral, ohne zusätzliche Abhängigkeit)
+const TOKEN_PATTERN = /[\p{L}\p{M}\p{N}]+|[^\s\p{L}\p{M}\p{N}]/gu;
+const CHARS_PER_TOKEN = 4;
+
+// Abkürzungen (kleingeschrieben, ohne abschließenden Punkt), nach denen kein Satz endet
+const ABBREVIATIONS = new Set([
+  'z.b', 'd.h', 'u.a', 'o.ä', 'u.ä', 's.o', 's.u', 'i.d.r', 'z.t', 'u.u', 'usw', 'bzw', 'ca', 'dr', 'prof',
+  'nr', 'str', 'vgl', 'ggf', 'inkl', 'exkl', 'evtl', 'bspw', 'sog', 'abs', 'tel', 'hr', 'fr', 'dipl', 'ing',
+  'mio', 'mrd', 'zzgl', 'max', 'min', 'etc', 'e.g', 'i.e', 'mr', 'mrs', 'ms', 'vs', 'no', 'fig', 'approx',
+  'inc', 'ltd', 'jr', 'sr', 'st'
+]);
+
+// Trennstufen der rekursiven Strategie und die Zeichen, mit denen Teile wieder verbunden werden
+const RECURSIVE_SEPARATORS: Array<{ pattern: RegExp, joiner: string }> = [
+  { pattern: /\n\s*\n/, joiner: '\n\n' },
+  { pattern: /\n/, joiner: '\n' },
+  { pattern: /(?<=[.!?])\s+/, joiner: ' ' },
+  { pattern: /\s+/, joiner: ' ' }
+];
+
+interface TokenSpan {
+  start: number;
+  end: number;
+  tokens: number;
+}
+
+interface MarkdownBlock {
+  text: string;
+  heading: boolean;
+}
+
+// Upload-Parameter mit Defaults (Umgebung bzw. Dateityp) ergänzen und prüfen
+export function resolveChunkingOptions(originalName: string, options: ChunkingOptions = {}): ResolvedChunkingOptions {
+  const defaultStrategy = (process.env.CHUNK_STRATEGY as ChunkingStrategy | undefined)
+    || (path.extname(originalName).toLowerCase() === '.md' ? 'markdown' : 'sentence');
+
+  const chunkSize = options.chunkSize ?? readNumber(process.env.CHUNK_SIZE, DEFAULT_CHUNK_SIZE);
+  const resolved: ResolvedChunkingOptions = {
+    strategy: options.strategy ?? defaultStrategy,
+    chunkSize,
+    chunkOverlap: options.chunkOverlap ?? Math.min(readNumber(process.env.CHUNK_OVERLAP, DEFAULT_CHUNK_OVERLAP), Math.floor(chunkSize / 4))
+  };
+
+  if (!CHUNKING_STRATEGIES.includes(resolved.strategy)) {
+    throw new Error(`Invalid chunking options: strategy must be one of ${CHUNKING_STRATEGIES.join(', ')}`);
+  }
+  if (!Number.isInteger(resolved.chunkSize) || resolved.chunkSize < MIN_CHUNK_SIZE || resolved.chunkSize > MAX_CHUNK_SIZE) {
+    throw new Error(`Invalid chunking options: chunkSize must be an integer between ${MIN_CHUNK_SIZE} and ${MAX_CHUNK_SIZE}`);
+  }
+  if (!Number.isInteger(resolved.chunkOverlap) || resolved.chunkOverlap < 0 || resolved.chunkOverlap >= resolved.chunkSize / 2) {
+    throw new Error('Invalid chunking options: chunkOverlap must be an integer between 0 and half the chunkSize');
+  }
+
+  return resolved;
+}
+
+// CHUNK_SIZE bzw. CHUNK_OVERLAP; ohne Angabe oder keine Zahl => Standardwert, statt jeden Upload scheitern zu lassen
+function readNumber(value: string | undefined, fallback: number): number {
+  const parsed = parseFloat(value ?? '');
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+export function sameChunkingOptions(a: ResolvedChunkingOptions | undefined, b: ResolvedChunkingOptions): boolean {
+  return !!a && a.strategy === b.strategy && a.chunkSize === b.chunkSize && a.chunkOverlap === b.chunkOverlap;
+}
+
+export function countTokens(text: string): number {
+  let tokens = 0;
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    tokens += Math.ceil(match[0].length / CHARS_PER_TOKEN);
+  }
+  return tokens;
+}
+
+export function chunkText(text: string, options: ResolvedChunkingOptions): string[] {
+  let chunks: string[];
+
+  switch (options.strategy) {
+    case 'markdown':
+      chunks = chunkMarkdown(text, options);
+      break;
+    case 'recursive':
+      chunks = splitRecursive(text, options, RECURSIVE_SEPARATORS);
+      break;
+    case 'token':
+      chunks = splitByTokens(text, options);
+      break;
+    default:
+      chunks = chunkSentences(text, options);
+  }
+
+  return chunks.map(chunk => chunk.trim()).filter(chunk => chunk.length > 0);
+}
+
+// Satzgrenzen: Satzzeichen vor Leerraum, außer nach Abkürzungen, Initialen und Ordinalzahlen
+// oder wenn kleingeschrieben weitergeht. "info@example.com" und "3.5" bleiben dadurch ganz.
+export function splitSentences(text: string): string[] {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  const boundary = /[.!?]+["'”»)]*(?=\s|$)/g;
+  const sentences: string[] = [];
+  let start = 0;
+  let match;
+
+  while ((match = boundary.exec(normalized)) !== null) {
+    const end = match.index + match[0].length;
+
+    if (match[0].startsWith('.') && !/[!?]/.test(match[0]) &&
+        isAbbreviation(normalized.slice(start, match.index), normalized.slice(end))) {
+      continue;
+    }
+
+    sentences.push(normalized.slice(start, end).trim());
+    start = end;
+  }
+
+  if (start < normalized.length) {
+    sentences.push(normalized.slice(start).trim());
+  }
+
+  return sentences.filter(sentence => sentence.length > 0);
+}
+
+function isAbbreviation(before: string, after: string): boolean {
+  const word = (before.match(/(\S+)$/)?.[1] || '').replace(/^[("'„“»]+/, '').toLowerCase();
+
+  return ABBREVIATIONS.has(word)
+    || /^\p{L}$/u.test(word)
+    || /^\d{1,2}$/.test(word)
+    || /^\s*\p{Ll}/u.test(after);
+}
+
+function chunkSentences(text: string, options: ResolvedChunkingOptions): string[] {
+  const sentences = splitSentences(text).flatMap(sentence =>
+    countTokens(sentence) > options.chunkSize ? splitByTokens(sentence, options) : [sentence]
+  );
+  return packUnits(sentences, options, ' ');
+}
+
+// Einheiten (Sätze, Blöcke, ...) zu Chunks bis chunkSize zusammenfassen; jeder neue Chunk
+// beginnt mit den letzten Einheiten des vorherigen, soweit sie in chunkOverlap passen
+function packUnits(units: string[], options: ResolvedChunkingOptions, joiner: string): string[] {
+  const chunks: string[] = [];
+  let current: Array<{ text: string, tokens: number }> = [];
+  let currentTokens = 0;
+  let carried = 0;
+
+  for (const text of units) {
+    const tokens = countTokens(text);
+
+    if (currentTokens + tokens > options.chunkSize && current.length > 0) {
+      // Chunk nur aus übernommenem Overlap wäre ein reines Duplikat
+      if (current.length > carried) {
+        chunks.push(current.map(unit => unit.text).join(joiner));
+      }
+
+      const overlap: typeof current = [];
+      let overlapTokens = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        if (overlapTokens + current[i].tokens > options.chunkOverlap) break;
+        overlap.unshift(current[i]);
+        overlapTokens += current[i].tokens;
+      }
+      while (overlap.length > 0 && overlapTokens + tokens > options.chunkSize) {
+        overlapTokens -= overlap.shift()!.tokens;
+      }
+
+      current = overlap;
+      currentTokens = overlapTokens;
+      carried = overlap.length;
+    }
+
+    current.push({ text, tokens });
+    currentTokens += tokens;
+  }
+
+  if (current.length > carried) {
+    chunks.push(current.map(unit => unit.text).join(joiner));
+  }
+
+  return chunks;
+}
+
+// Zu große Teile mit der nächst feineren Trennstufe weiter aufteilen, passende Teile zusammenfassen
+function splitRecursive(
+  text: string,
+  options: ResolvedChunkingOptions,
+  separators: typeof RECURSIVE_SEPARATORS
+): string[] {
+  if (countTokens(text) <= options.chunkSize) return [text];
+
+  const [separator, ...finer] = separators;
+  if (!separator) return splitByTokens(text, options);
+
+  const chunks: string[] = [];
+  let pending: string[] = [];
+
+  for (const part of text.split(separator.pattern)) {
+    if (part.trim().length === 0) continue;
+
+    if (countTokens(part) <= options.chunkSize) {
+      pending.push(part);
+      continue;
+    }
+
+    chunks.push(...packUnits(pending, options, separator.joiner));
+    pending = [];
+    chunks.push(...splitRecursive(part, options, finer));
+  }
+
+  chunks.push(...packUnits(pending, options, separator.joiner));
+  return chunks;
+}
+
+// Festes Fenster aus chunkSize Tokens, um chunkSize - chunkOverlap verschoben; Schnitte an Wortgrenzen
+function splitByTokens(text: string, options: ResolvedChunkingOptions): string[] {
+  const spans: TokenSpan[] = Array.from(text.matchAll(TOKEN_PATTERN), match => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+    tokens: Math.ceil(match[0].length / CHARS_PER_TOKEN)
+  }));
+
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < spans.length) {
+    let end = start;
+    let tokens = 0;
+    while (end < spans.length && (end === start || tokens + spans[end].tokens <= options.chunkSize)) {
+      tokens += spans[end].tokens;
+      end++;
+    }
+
+    chunks.push(text.slice(spans[start].start, spans[end - 1].end));
+    if (end >= spans.length) break;
+
+    let next = end;
+    let overlap = 0;
+    while (next - 1 > start && overlap + spans[next - 1].tokens <= options.chunkOverlap) {
+      overlap += spans[next - 1].tokens;
+      next--;
+    }
+    start = next;
+  }
+
+  return chunks;
+}
+
+// Überschriften beginnen einen neuen Chunk; Codeblöcke, Tabellen und Listen bleiben möglichst zusammen
+function chunkMarkdown(text: string, options: ResolvedChunkingOptions): string[] {
+  const sections: MarkdownBlock[][] = [];
+  let section: MarkdownBlock[] = [];
+
+  for (const block of parseMarkdownBlocks(text)) {
+    // Abschnitte ohne eigenen Inhalt (nur Überschriften) gehören zum folgenden Abschnitt
+    if (block.heading && section.some(b => !b.heading)) {
+      sections.push(section);
+      section = [];
+    }
+    section.push(block);
+  }
+  sections.push(section);
+
+  return sections.flatMap(blocks => {
+    const units = blocks.flatMap(block =>
+      countTokens(block.text) > options.chunkSize
+        ? splitRecursive(block.text, options, RECURSIVE_SEPARATORS)
+        : [block.text]
+    );
+    return packUnits(units, options, '\n\n');
+  });
+}
+
+function parseMarkdownBlocks(text: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = text.split(/\r?\n/);
+  let i = 0;
+
+  const isListItem = (line: string) => /^\s*([-*+]|\d+[.)])\s+/.test(line);
+  const isTableRow = (line: string) => line.trim().startsWith('|');
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.trim().length === 0) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(/^\s*(```|~~~)/);
+    if (fence) {
+      const start = i++;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) i++;
+      i = Math.min(i + 1, lines.length);
+      blocks.push({ text: lines.slice(start, i).join('\n'), heading: false });
+      continue;
+    }
+
+    if (/^#{1,6}\s+/.test(line)) {
+      blocks.push({ text: line.trim(), heading: true });
+      i++;
+      continue;
+    }
+
+    const start = i;
+    if (isTableRow(line)) {
+      while (i < lines.length && isTableRow(lines[i])) i++;
+    } else if (isListItem(line)) {
+      // Eingerückte Folgezeilen gehören zum Listeneintrag
+      while (i < lines.length && lines[i].trim().length > 0 && (isListItem(lines[i]) || /^\s+/.test(lines[i]))) i++;
+    } else {
+      while (i < lines.length && lines[i].trim().length > 0 && !/^(#{1,6}\s|\s*(```|~~~))/.test(lines[i]) &&
+             !isTableRow(lines[i]) && !isListItem(lines[i])) i++;
+    }
+
+    blocks.push({ text: lines.slice(start, i).join('\n'), heading: false });
+  }
+
+  return blocks;
+}
@@ -0,0 +1,81 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DocumentChunk } from '../types/knowledgeBase';
+import { ScoredChunk } from './documentProcessing';
+import { getDefaultMmrLambda, mergeAdjacentChunks, selectByMmr } from './diversification';
+
+function scored(id: string, score: number, chunk: Partial<DocumentChunk> = {}): ScoredChunk {
+  return {
+    chunk: { id, documentId: id.split('#')[0], version: 1, text: id, source: 'doc.txt', uploadDate: '2024-01-01', ...chunk },
+    score
+  };
+}
+
+const ids = (items: ScoredChunk[]) => items.map(item => item.chunk.id);
+
+describe('getDefaultMmrLambda', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('disables MMR unless MMR_LAMBDA is set', () => {
+    vi.stubEnv('MMR_LAMBDA', '');
+    expect(getDefaultMmrLambda()).toBe(1);
+
+    vi.stubEnv('MMR_LAMBDA', '0.7');
+    expect(getDefaultMmrLambda()).toBe(0.7);
+
+    vi.stubEnv('MMR_LAMBDA', '3');
+    expect(getDefaultMmrLambda()).toBe(1);
+  });
+});
+
+describe('selectByMmr', () => {
+  const candidates = [scored('a#0', 1), scored('a#1', 0.95), scored('b#0', 0.8)];
+  // a#1 ist fast eine Kopie von a#0 (Overlap), b#0 behandelt etwas anderes
+  const vectors = new Map([['a#0', [1, 0]], ['a#1', [0.99, 0.1]], ['b#0', [0, 1]]]);
+
+  it('keeps the relevance order with lambda 1', () => {
+    expect(ids(selectByMmr(candidates, vectors, 2, 1))).toEqual(['a#0', 'a#1']);
+  });
+
+  it('prefers a less similar candidate over a near duplicate', () => {
+    expect(ids(selectByMmr(candidates, vectors, 2, 0.7))).toEqual(['a#0', 'b#0']);
+  });
+
+  it('treats candidates without a vector as dissimilar', () => {
+    const withoutVector = new Map([['a#0', [1, 0]], ['a#1', [0.99, 0.1]]]);
+
+    expect(ids(selectByMmr(candidates, withoutVector, 3, 0.5))).toEqual(['a#0', 'b#0', 'a#1']);
+  });
+});
+
+describe('mergeAdjacentChunks', () => {
+  it('joins consecutive chunks without repeating the overlap and keeps the position of the best hit', () => {
+    const results = [
+      scored('other#4', 0.9),
+      scored('doc#3', 0.8, { text: 'Der Versand dauert drei Werktage.' }),
+      scored('doc#2', 0.7, { text: 'Bestellungen gehen sofort raus. Der Versand dauert' }),
+      scored('doc#7', 0.6)
+    ];
+
+    const merged = mergeAdjacentChunks(results);
+
+    expect(ids(merged)).toEqual(['other#4', 'doc#2', 'doc#7']);
+    expect(merged[1]).toMatchObject({
+      score: 0.8,
+      chunk: { text: 'Bestellungen gehen sofort raus. Der Versand dauert drei Werktage.' },
+      mergedChunkIds: ['doc#3']
+    });
+  });
+
+  it('leaves table rows, other versions and non-adjacent chunks separate', () => {
+    const results = [
+      scored('doc#1', 0.9, { fields: { Name: 'Widget' } }),
+      scored('doc#2', 0.8, { fields: { Name: 'Gadget' } }),
+      scored('doc#3', 0.7, { version: 2 }),
+      scored('doc#5', 0.6)
+    ];
+
+    expect(mergeAdjacentChunks(results)).toBe(results);
+  });
+});
@@ -0,0 +1,148 @@
+// backend/src/services/diversification.ts
+// Weniger Redundanz im Kontext: Durch den Overlap beim Chunking sind benachbarte Chunks
+// einander oft so ähnlich, dass die besten Treffer fast denselben Text wiederholen
+import { DocumentChunk } from '../types/knowledgeBase';
+import { ScoredChunk, chunkPosition } from './documentProcessing';
+import { dotProduct, normalizeVector } from './vectorIndex';
+
+// Kürzester Überlapp, der beim Zusammenführen als solcher erkannt wird (kürzere Übereinstimmungen sind Zufall);
+// zusätzlich muss er im Folge-Chunk an einer Wortgrenze enden
+const MIN_OVERLAP_LENGTH = 8;
+const MAX_OVERLAP_LENGTH = 2000;
+
+// Für MMR wird aus so vielen Kandidaten je Ergebnisplatz ausgewählt
+export const MMR_POOL_FACTOR = 4;
+
+// Gewichtung der Relevanz bei MMR ohne Angabe in der Anfrage (MMR_LAMBDA, z.B. 0.7);
+// ohne Konfiguration 1, d.h. MMR ist aus und die Relevanzreihenfolge bleibt unverändert
+export function getDefaultMmrLambda(): number {
+  const lambda = parseFloat(process.env.MMR_LAMBDA || '');
+  return isNaN(lambda) ? 1 : Math.min(1, Math.max(0, lambda));
+}
+
+// Benachbarte Treffer ohne Angabe in der Anfrage nur mit MERGE_ADJACENT_CHUNKS=true zusammenführen
+export function isMergeAdjacentDefault(): boolean {
+  return process.env.MERGE_ADJACENT_CHUNKS === 'true';
+}
+
+/**
+ * Maximal Marginal Relevance: wählt schrittweise den Kandidaten mit dem besten
+ * Kompromiss aus Relevanz und Unähnlichkeit zu den bereits gewählten.
+ *
+ * lambda = 1 entspricht der reinen Relevanzreihenfolge, kleinere Werte bevorzugen Vielfalt.
+ * Relevanz ist der Score relativ zum besten Kandidaten (Skalen von RRF, Kosinus und Reranker
+ * sind verschieden), Ähnlichkeit die Kosinusähnlichkeit der Embeddings; Kandidaten ohne
+ * Vektor gelten als unähnlich.
+ */
+export function selectByMmr(
+  candidates: ScoredChunk[],
+  vectors: Map<string, ArrayLike<number>>,
+  k: number,
+  lambda: number
+): ScoredChunk[] {
+  if (lambda >= 1 || candidates.length <= 1) return candidates.slice(0, k);
+
+  const maxScore = Math.max(...candidates.map(item => item.score)) || 1;
+  const normalized = new Map<string, Float32Array>();
+  for (const item of candidates) {
+    const vector = vectors.get(item.chunk.id);
+    if (vector) normalized.set(item.chunk.id, normalizeVector(vector));
+  }
+
+  const similarity = (a: ScoredChunk, b: ScoredChunk): number => {
+    const va = normalized.get(a.chunk.id);
+    const vb = normalized.get(b.chunk.id);
+    return va && vb && va.length === vb.length ? dotProduct(va, vb) : 0;
+  };
+
+  const remaining = [...candidates];
+  const selected: ScoredChunk[] = [];
+  while (selected.length < k && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestValue = -Infinity;
+
+    remaining.forEach((item, i) => {
+      const redundancy = selected.length > 0 ? Math.max(...selected.map(chosen => similarity(item, chosen))) : 0;
+      const value = lambda * (item.score / maxScore) - (1 - lambda) * redundancy;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = i;
+      }
+    });
+
+    selected.push(remaining.splice(bestIndex, 1)[0]);
+  }
+
+  return selected;
+}
+
+/**
+ * Führt Treffer, die im Dokument direkt aufeinander folgen, zu einem zusammenhängenden
+ * Abschnitt zusammen (ohne den doppelten Overlap-Text).
+ *
+ * Der Abschnitt steht an der Stelle seines besten Treffers und trägt dessen Score;
+ * Tabellenzeilen und Datensätze bleiben einzeln.
+ */
+export function mergeAdjacentChunks(results: ScoredChunk[]): ScoredChunk[] {
+  const groupOf = new Map<string, ScoredChunk[]>();
+  const groups: ScoredChunk[][] = [];
+
+  // Nach Position sortiert prüfen, ob der Vorgänger im Dokument ebenfalls ein Treffer ist
+  const byPosition = [...results].sort((a, b) =>
+    a.chunk.documentId.localeCompare(b.chunk.documentId) ||
+    a.chunk.version - b.chunk.version ||
+    chunkPosition(a.chunk) - chunkPosition(b.chunk)
+  );
+  byPosition.forEach((item, i) => {
+    const previous = byPosition[i - 1];
+    const group = previous && isAdjacent(previous.chunk, item.chunk) ? groupOf.get(previous.chunk.id)! : [];
+    if (group.length === 0) groups.push(group);
+    group.push(item);
+    groupOf.set(item.chunk.id, group);
+  });
+
+  if (groups.length === results.length) return results;
+
+  // Reihenfolge der Ergebnisse beibehalten: jede Gruppe beim ersten (besten) Mitglied
+  const emitted = new Set<ScoredChunk[]>();
+  const merged: ScoredChunk[] = [];
+  for (const item of results) {
+    const group = groupOf.get(item.chunk.id)!;
+    if (emitted.has(group)) continue;
+    emitted.add(group);
+    merged.push(group.length === 1 ? group[0] : mergeGroup(group, item));
+  }
+
+  return merged;
+}
+
+function isAdjacent(previous: DocumentChunk, next: DocumentChunk): boolean {
+  return previous.documentId === next.documentId &&
+    previous.version === next.version &&
+    !previous.fields && !next.fields &&
+    chunkPosition(next) === chunkPosition(previous) + 1;
+}
+
+function mergeGroup(group: ScoredChunk[], best: ScoredChunk): ScoredChunk {
+  const [first, ...rest] = group;
+  const text = rest.reduce((merged, item) => joinOverlapping(merged, item.chunk.text), first.chunk.text);
+
+  return {
+    ...best,
+    chunk: { ...first.chunk, text },
+    pinned: group.some(item => item.pinned) || undefined,
+    mergedChunkIds: rest.map(item => item.chunk.id)
+  };
+}
+
+// Der Folge-Chunk beginnt mit dem Ende des vorherigen (Overlap); diesen Teil nur einmal übernehmen
+function joinOverlapping(text: string, next: string): string {
+  const maxLength = Math.min(text.length, next.length, MAX_OVERLAP_LENGTH);
+  for (let length = maxLength; length >= MIN_OVERLAP_LENGTH; length--) {
+    const atBoundary = length === next.length || /\s/.test(next[length]);
+    if (atBoundary && text.endsWith(next.slice(0, length))) {
+      return text + next.slice(length);
+    }
+  }
+  return `${text} ${next}`;
+}
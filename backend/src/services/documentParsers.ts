@@ -0,0 +1,268 @@
+// backend/src/services/documentParsers.ts
+// Formatspezifische Extraktion mit Herkunft: Seiten (PDF) bzw. Überschriftenpfade (Markdown, DOCX, HTML)
+import * as cheerio from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+import { FieldValue } from '../types/knowledgeBase';
+
+// Zusammenhängender Textabschnitt einer Seite bzw. eines Abschnitts
+export interface TextSegment {
+  text: string;
+  page?: number;
+  // Überschriftenpfad, z.B. "Handbuch > Installation"
+  section?: string;
+  // Verlinkte Ziele (HTML), absolute URLs mit Linktext
+  links?: SegmentLink[];
+  // Spaltenwerte einer Tabellenzeile (CSV, XLSX) bzw. eines JSON-Datensatzes; solche Segmente bleiben ein Chunk
+  fields?: Record<string, FieldValue>;
+}
+
+export interface SegmentLink {
+  url: string;
+  text: string;
+}
+
+export interface ExtractedDocument {
+  // Gesamter Text (für Content-Hash und Plausibilitätsprüfungen)
+  text: string;
+  segments: TextSegment[];
+}
+
+export const SECTION_SEPARATOR = ' > ';
+
+export function plainDocument(text: string): ExtractedDocument {
+  return { text, segments: [{ text }] };
+}
+
+export function fromSegments(segments: TextSegment[]): ExtractedDocument {
+  const nonEmpty = segments.filter(segment => segment.text.trim().length > 0);
+  return {
+    text: nonEmpty.map(segment => segment.text).join('\n\n'),
+    segments: nonEmpty
+  };
+}
+
+// Von pdf-parse an pagerender übergebene Seite (pdf.js), nur die genutzten Felder
+interface PdfPage {
+  pageIndex: number;
+  getTextContent(options: { normalizeWhitespace: boolean; disableCombineTextItems: boolean }): Promise<{
+    items: Array<{ str: string; transform: number[] }>;
+  }>;
+}
+
+// PDF seitenweise extrahieren (Textzusammenbau wie im Standard-Renderer von pdf-parse)
+export async function parsePdf(buffer: Buffer): Promise<ExtractedDocument> {
+  const pdfParse = require('pdf-parse');
+  const pages: TextSegment[] = [];
+
+  await pdfParse(buffer, {
+    pagerender: async (pageData: PdfPage) => {
+      const content = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+      let lastY: number | undefined;
+      let text = '';
+
+      for (const item of content.items) {
+        text += lastY === undefined || lastY === item.transform[5] ? item.str : '\n' + item.str;
+        lastY = item.transform[5];
+      }
+
+      pages.push({ text, page: pageData.pageIndex + 1 });
+      return text;
+    }
+  });
+
+  return fromSegments(pages);
+}
+
+// Markdown an ATX-Überschriften (#, ##, ...) aufteilen; Codeblöcke werden nicht als Überschriften gewertet
+export function parseMarkdown(markdown: string): ExtractedDocument {
+  const segments: TextSegment[] = [];
+  const headings: string[] = [];
+  let lines: string[] = [];
+  let inCodeBlock = false;
+
+  const flush = () => {
+    segments.push({ text: lines.join('\n').trim(), section: sectionPath(headings) });
+    lines = [];
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCodeBlock = !inCodeBlock;
+    }
+
+    const heading = !inCodeBlock && line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (heading) {
+      flush();
+      headings.length = heading[1].length - 1;
+      headings[heading[1].length - 1] = heading[2];
+    }
+
+    lines.push(line);
+  }
+
+  flush();
+  return fromSegments(segments);
+}
+
+// DOCX über das HTML von mammoth lesen, damit Überschriften (h1-h6) erhalten bleiben
+export async function parseDocx(buffer: Buffer): Promise<ExtractedDocument> {
+  const mammoth = require('mammoth');
+  const result = await mammoth.convertToHtml({ buffer });
+
+  const segments: TextSegment[] = [];
+  const headings: string[] = [];
+  let blocks: string[] = [];
+
+  const flush = () => {
+    segments.push({ text: blocks.join('\n'), section: sectionPath(headings) });
+    blocks = [];
+  };
+
+  const blockPattern = /<(h[1-6]|p|li|th|td)\b[^>]*>([\s\S]*?)<\/\1>/g;
+  let match;
+
+  while ((match = blockPattern.exec(result.value)) !== null) {
+    const text = decodeEntities(match[2].replace(/<[^>]+>/g, '')).trim();
+    if (!text) continue;
+
+    if (match[1].startsWith('h')) {
+      const level = Number(match[1][1]);
+      flush();
+      headings.length = level - 1;
+      headings[level - 1] = text;
+    }
+
+    blocks.push(text);
+  }
+
+  flush();
+  return fromSegments(segments);
+}
+
+// Navigation, Kopf-/Fußzeilen, Cookie-Banner etc. tragen nichts zum Inhalt bei
+const HTML_BOILERPLATE = [
+  'script', 'style', 'noscript', 'template', 'svg', 'iframe', 'form', 'button', 'nav', 'aside',
+  '[role=navigation]', '[role=banner]', '[role=contentinfo]', '[role=complementary]', '[aria-hidden=true]'
+].join(',');
+const HTML_BOILERPLATE_NAMES = /(^|[\s_-])(nav|navbar|navigation|menu|breadcrumbs?|sidebar|footer|cookies?|consent|banner|social|share|skip-link)([\s_-]|$)/i;
+
+const HTML_BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'main', 'li', 'ul', 'ol', 'dl', 'dt', 'dd', 'pre', 'blockquote',
+  'table', 'tr', 'figure', 'figcaption', 'address', 'hr', 'br'
+]);
+
+// HTML ohne Boilerplate in Abschnitte je Überschrift (h1-h6) aufteilen; Links bleiben je Abschnitt erhalten
+export function parseHtml(html: string | Buffer, baseUrl?: string): ExtractedDocument {
+  const $ = typeof html === 'string' ? cheerio.load(html) : cheerio.loadBuffer(html);
+
+  $(HTML_BOILERPLATE).remove();
+  // Kopf-/Fußzeilen der Seite entfernen, die eines Artikels (Titel, Autor) behalten
+  $('header, footer').filter((_, el) => $(el).parents('article, main').length === 0).remove();
+  $('[class], [id]').each((_, el) => {
+    const names = `${$(el).attr('class') || ''} ${$(el).attr('id') || ''}`;
+    if (HTML_BOILERPLATE_NAMES.test(names)) $(el).remove();
+  });
+
+  const root = $('main, [role=main], article').first();
+  const content = root.length > 0 ? root : $('body');
+
+  const segments: TextSegment[] = [];
+  const headings: string[] = [];
+  let lines: string[] = [];
+  let line = '';
+  let links: SegmentLink[] = [];
+
+  const breakLine = () => {
+    const text = line.replace(/\s+/g, ' ').trim();
+    if (text) lines.push(text);
+    line = '';
+  };
+
+  const flush = () => {
+    breakLine();
+    segments.push({ text: lines.join('\n'), section: sectionPath(headings), links });
+    lines = [];
+    links = [];
+  };
+
+  const walk = (node: AnyNode) => {
+    if (node.type === 'text') {
+      line += node.data;
+      return;
+    }
+    if (node.type !== 'tag') return;
+
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+    const heading = tag.match(/^h([1-6])$/);
+
+    if (heading) {
+      const level = Number(heading[1]);
+      const text = $(element).text().replace(/\s+/g, ' ').trim();
+      if (!text) return;
+
+      flush();
+      headings.length = level - 1;
+      headings[level - 1] = text;
+      lines.push(text);
+      return;
+    }
+
+    if (tag === 'pre') {
+      breakLine();
+      lines.push($(element).text().replace(/\s+$/, ''));
+      return;
+    }
+
+    const block = HTML_BLOCK_TAGS.has(tag);
+    if (block) breakLine();
+    if (tag === 'li') line += '- ';
+
+    element.children.forEach(walk);
+
+    if (tag === 'a') {
+      const url = resolveUrl($(element).attr('href'), baseUrl);
+      const text = $(element).text().replace(/\s+/g, ' ').trim();
+      if (url && text && !links.some(link => link.url === url)) {
+        links.push({ url, text });
+      }
+    } else if (tag === 'td' || tag === 'th') {
+      line += ' | ';
+    }
+
+    if (block) breakLine();
+  };
+
+  content.contents().each((_, node) => walk(node));
+  flush();
+
+  return fromSegments(segments);
+}
+
+// Nur http(s)-Links; relative Links werden gegen die Seiten-URL aufgelöst
+function resolveUrl(href: string | undefined, baseUrl?: string): string | undefined {
+  if (!href || href.startsWith('#')) return undefined;
+
+  try {
+    const url = new URL(href, baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Übersprungene Ebenen (z.B. # gefolgt von ###) auslassen
+function sectionPath(headings: string[]): string | undefined {
+  const path = headings.filter(Boolean);
+  return path.length > 0 ? path.join(SECTION_SEPARATOR) : undefined;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,435 @@
+// backend/src/services/documentProcessing.ts
+// Gemeinsame Verarbeitungsschritte aller Vector-Store-Backends:
+// Text extrahieren, in Chunks aufteilen, Treffer filtern und als Kontext formatieren
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { DocumentChunk, FieldValue } from '../types/knowledgeBase';
+import { EmbeddingService } from './embeddingService';
+import { AddDocumentOptions, Citation, DocumentAccess, FieldFilter, SearchOptions } from './vectorStore';
+import { ResolvedChunkingOptions, chunkText, countTokens } from './chunking';
+import {
+  ExtractedDocument,
+  SegmentLink,
+  TextSegment,
+  parseDocx,
+  parseHtml,
+  parseMarkdown,
+  parsePdf,
+  plainDocument
+} from './documentParsers';
+import { parseCsv, parseJson, parseXlsx } from './tabularParsers';
+
+// Kürzere Chunks werden verworfen, kürzere Abschnitte mit dem folgenden zusammengelegt
+const MIN_CHUNK_LENGTH = 50;
+// Länge der Textauszüge in Zitaten
+const EXCERPT_LENGTH = 200;
+
+// Sammlung für Dokumente ohne Angabe (auch für Dokumente von vor der Einführung der Sammlungen)
+export const DEFAULT_COLLECTION = 'general';
+const MAX_LABEL_LENGTH = 64;
+const MAX_TAGS = 20;
+
+// Dateitypen, die parseBuffer gezielt verarbeitet
+export const SUPPORTED_EXTENSIONS = ['.txt', '.md', '.html', '.htm', '.csv', '.xlsx', '.json', '.pdf', '.docx'];
+
+// Zuordnung neuer Chunks zu Dokument und Version
+export interface ChunkOrigin {
+  documentId: string;
+  version: number;
+  source: string;
+  route?: string;
+}
+
+export interface ScoredChunk {
+  chunk: DocumentChunk;
+  score: number;
+  // Einzelscores bei hybrider Suche
+  vectorScore?: number;
+  lexicalScore?: number;
+  // Nach dem Reranking: Score der ersten Stufe und des Rerankers (dann auch score)
+  retrievalScore?: number;
+  rerankScore?: number;
+  pinned?: boolean;
+  // Mit dem Chunk zu einem Abschnitt zusammengeführte Folge-Chunks
+  mergedChunkIds?: string[];
+}
+
+export interface ExtractOptions {
+  // Dateiendung, falls der Name keine passende hat (z.B. URL mit Content-Type text/html => '.html')
+  format?: string;
+  // Basis für relative Links in HTML
+  baseUrl?: string;
+}
+
+// Text aus Buffer (Vercel) oder Dateipfad (lokal) extrahieren.
+// Temporäre Upload-Dateien werden danach (auch im Fehlerfall) gelöscht.
+export async function extractText(
+  input: string | Buffer,
+  originalName: string,
+  options: ExtractOptions = {}
+): Promise<ExtractedDocument> {
+  if (Buffer.isBuffer(input)) {
+    console.log(`Processing buffer for: ${originalName}`);
+    return parseBuffer(input, originalName, options);
+  }
+
+  console.log(`Processing file: ${originalName}`);
+  try {
+    const fileBuffer = await fs.readFile(input);
+    return await parseBuffer(fileBuffer, originalName, options);
+  } finally {
+    try {
+      await fs.unlink(input);
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+  }
+}
+
+export async function parseBuffer(
+  buffer: Buffer,
+  originalName: string,
+  options: ExtractOptions = {}
+): Promise<ExtractedDocument> {
+  const ext = options.format || path.extname(originalName).toLowerCase();
+
+  switch (ext) {
+    case '.txt':
+      return plainDocument(buffer.toString('utf-8'));
+
+    case '.md':
+      return parseMarkdown(buffer.toString('utf-8'));
+
+    case '.html':
+    case '.htm':
+      return parseHtml(buffer, options.baseUrl);
+
+    case '.csv':
+      return parseCsv(buffer.toString('utf-8'));
+
+    case '.xlsx':
+      try {
+        return await parseXlsx(buffer);
+      } catch (error) {
+        console.error('XLSX parsing error:', error);
+        throw new Error('Failed to parse XLSX file. Make sure it is a valid Excel workbook.');
+      }
+
+    case '.json':
+      try {
+        return parseJson(buffer.toString('utf-8'));
+      } catch (error) {
+        throw new Error(`Failed to parse JSON file: ${(error as Error).message}`);
+      }
+
+    case '.pdf':
+      try {
+        return await parsePdf(buffer);
+      } catch (error) {
+        console.error('PDF parsing error:', error);
+        throw new Error('Failed to parse PDF file. Make sure pdf-parse is installed.');
+      }
+
+    case '.docx':
+      try {
+        return await parseDocx(buffer);
+      } catch (error) {
+        console.log('DOCX parsing not available, treating as text');
+        return plainDocument(buffer.toString('utf-8'));
+      }
+
+    default:
+      return plainDocument(buffer.toString('utf-8'));
+  }
+}
+
+// Abschnitte unter MIN_CHUNK_LENGTH (z.B. reine Überschriften) mit dem folgenden Abschnitt zusammenlegen
+function mergeShortSegments(segments: TextSegment[]): TextSegment[] {
+  const merged: TextSegment[] = [];
+  let pending: TextSegment | null = null;
+
+  for (const segment of segments) {
+    const combined: TextSegment = pending ? joinSegments(pending, segment) : segment;
+
+    if (combined.text.trim().length < MIN_CHUNK_LENGTH) {
+      pending = combined;
+      continue;
+    }
+
+    merged.push(combined);
+    pending = null;
+  }
+
+  // Kurzer Rest am Ende gehört zum vorherigen Abschnitt
+  if (pending) {
+    const last = merged.pop();
+    merged.push(last ? { ...joinSegments(last, pending), page: last.page, section: last.section } : pending);
+  }
+
+  return merged;
+}
+
+// Text verbinden; Seite und Abschnitt kommen vom zweiten Segment
+function joinSegments(first: TextSegment, second: TextSegment): TextSegment {
+  const links = [...(first.links || []), ...(second.links || [])];
+  return {
+    ...second,
+    text: `${first.text}\n\n${second.text}`,
+    ...(links.length > 0 && { links })
+  };
+}
+
+// Links des Abschnitts, deren Linktext im Chunk vorkommt
+function linksInChunk(text: string, links: SegmentLink[] = []): string[] {
+  const normalized = text.replace(/\s+/g, ' ');
+  return links.filter(link => normalized.includes(link.text)).map(link => link.url);
+}
+
+// Text abschnittsweise in Chunks aufteilen und mit Embeddings versehen;
+// jeder Chunk behält Seite und Überschriftenpfad seines Abschnitts
+export async function createChunks(
+  document: ExtractedDocument,
+  origin: ChunkOrigin,
+  embeddingService: EmbeddingService,
+  chunking: ResolvedChunkingOptions,
+  { signal, onProgress }: Pick<AddDocumentOptions, 'signal' | 'onProgress'> = {}
+): Promise<DocumentChunk[]> {
+  if (!document.text || document.text.trim().length === 0) {
+    throw new Error('No text content extracted from file');
+  }
+
+  console.log(`Extracted ${document.text.length} characters from ${origin.source}`);
+
+  // Text in Chunks aufteilen mit Overlap für besseren Kontext;
+  // Tabellenzeilen und Datensätze bleiben (bis zur Chunk-Größe) ein eigener Chunk
+  const textSegments = document.segments.filter(segment => !segment.fields);
+  const records = document.segments.filter(segment => segment.fields);
+  const textChunks = [...mergeShortSegments(textSegments), ...records].flatMap(segment =>
+    (segment.fields && countTokens(segment.text) <= chunking.chunkSize ? [segment.text] : chunkText(segment.text, chunking))
+      .map(text => ({
+        text,
+        page: segment.page,
+        section: segment.section,
+        links: linksInChunk(text, segment.links),
+        fields: segment.fields
+      }))
+  );
+  const uploadDate = new Date().toISOString();
+
+  console.log(`Split into ${textChunks.length} chunks (${chunking.strategy}, ${chunking.chunkSize} tokens, overlap ${chunking.chunkOverlap})`);
+
+  // Skip sehr kurze Chunks (Tabellenzeilen sind oft kurz, aber vollständig)
+  const candidates = textChunks
+    .map((textChunk, index) => ({ ...textChunk, index }))
+    .filter(candidate => candidate.fields || candidate.text.length >= MIN_CHUNK_LENGTH);
+
+  // Alle Chunks gebündelt einbetten statt einzeln nacheinander
+  const embeddingModel = embeddingService.model;
+  onProgress?.({ phase: 'embedding', processedChunks: 0, totalChunks: candidates.length });
+  const embeddings = await embeddingService.getEmbeddings(candidates.map(c => c.text), {
+    signal,
+    onProgress: (embedded, total) => onProgress?.({ phase: 'embedding', processedChunks: embedded, totalChunks: total })
+  });
+
+  const chunks: DocumentChunk[] = candidates.map((candidate, i) => ({
+    id: `${origin.documentId}#v${origin.version}#${candidate.index}`,
+    documentId: origin.documentId,
+    version: origin.version,
+    text: candidate.text,
+    source: origin.source,
+    ...(candidate.page !== undefined && { page: candidate.page }),
+    ...(candidate.section !== undefined && { section: candidate.section }),
+    ...(candidate.links.length > 0 && { links: candidate.links }),
+    ...(origin.route && { route: origin.route }),
+    ...(candidate.fields && { fields: candidate.fields }),
+    uploadDate: uploadDate,
+    embedding: embeddings[i],
+    embeddingModel
+  }));
+
+  return chunks;
+}
+
+// Dynamischer Threshold basierend auf den Scores (erwartet absteigend sortierte Treffer)
+export function selectRelevantChunks(topChunks: ScoredChunk[], minScore: number): ScoredChunk[] {
+  const maxScore = topChunks[0]?.score || 0;
+  const threshold = Math.max(minScore, maxScore * 0.5); // Mindestens 50% des besten Scores
+
+  return topChunks.filter(item => item.score > threshold);
+}
+
+// Treffer mehrerer Anfragen zusammenführen: je Chunk der beste Score, damit die Skala
+// (und damit die Thresholds) der einzelnen Suchen erhalten bleibt
+export function mergeRankings<T extends { score: number }>(rankings: T[][], keyOf: (item: T) => string, limit: number): T[] {
+  if (rankings.length === 1) return rankings[0].slice(0, limit);
+
+  const best = new Map<string, T>();
+  for (const ranking of rankings) {
+    for (const item of ranking) {
+      const existing = best.get(keyOf(item));
+      if (!existing || item.score > existing.score) {
+        best.set(keyOf(item), item);
+      }
+    }
+  }
+
+  return Array.from(best.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+// Seite und Abschnitt für Kontext und Zitate, z.B. "page 3, section: Handbuch > Installation"
+export function describeLocation(chunk: DocumentChunk): string {
+  const parts: string[] = [];
+  if (chunk.page !== undefined) parts.push(`page ${chunk.page}`);
+  if (chunk.section) parts.push(`section: ${chunk.section}`);
+  return parts.join(', ');
+}
+
+// Formatiere Kontext mit besserer Struktur
+export function formatContext(chunks: ScoredChunk[]): string {
+  return chunks
+    .map(item => {
+      const location = describeLocation(item.chunk);
+      const source = location ? `${item.chunk.source}, ${location}` : item.chunk.source;
+      const text = item.chunk.text;
+      return `[Source: ${source}]\n${text}`;
+    })
+    .join('\n\n---\n\n');
+}
+
+// Strukturierte Zitate zu den Treffern, damit Antworten im Original nachgeprüft werden können
+export function toCitations(chunks: ScoredChunk[]): Citation[] {
+  return chunks.map(item => ({
+    documentId: item.chunk.documentId,
+    chunkId: item.chunk.id,
+    source: item.chunk.source,
+    ...(item.chunk.page !== undefined && { page: item.chunk.page }),
+    ...(item.chunk.section && { section: item.chunk.section }),
+    ...(item.chunk.route && { route: item.chunk.route }),
+    ...(item.chunk.fields && { fields: item.chunk.fields }),
+    ...(item.pinned && { pinned: true }),
+    ...(item.mergedChunkIds && { mergedChunkIds: item.mergedChunkIds }),
+    excerpt: createExcerpt(item.chunk.text),
+    score: item.score
+  }));
+}
+
+// Pin greift, wenn die Anfrage einen der Begriffe enthält (ohne Groß-/Kleinschreibung und Mehrfach-Leerzeichen)
+export function matchesPinnedQuery(chunk: DocumentChunk, query: string): boolean {
+  const normalizedQuery = normalizePinnedQuery(query);
+  return (chunk.pinnedQueries || []).some(pinned => normalizedQuery.includes(normalizePinnedQuery(pinned)));
+}
+
+// Gepinnte Treffer vorne einreihen (mit dem besten Score), ohne Doppelte
+export function withPinnedChunks(relevant: ScoredChunk[], pinned: DocumentChunk[]): ScoredChunk[] {
+  if (pinned.length === 0) return relevant;
+
+  const pinnedIds = new Set(pinned.map(chunk => chunk.id));
+  const topScore = relevant[0]?.score ?? 1;
+  return [
+    ...pinned.map(chunk => ({ chunk, score: topScore, pinned: true })),
+    ...relevant.filter(item => !pinnedIds.has(item.chunk.id))
+  ];
+}
+
+// Reihenfolge im Dokument aus der Chunk-ID `<docId>#v<version>#<n>`
+export function chunkPosition(chunk: Pick<DocumentChunk, 'id'>): number {
+  return Number(chunk.id.slice(chunk.id.lastIndexOf('#') + 1)) || 0;
+}
+
+// Pins ohne Leer- und Doppeleinträge speichern (erste Schreibweise gewinnt)
+export function normalizePinnedQueries(queries: string[]): string[] {
+  const unique = new Map<string, string>();
+  for (const query of queries) {
+    const trimmed = query.trim().replace(/\s+/g, ' ');
+    if (trimmed && !unique.has(normalizePinnedQuery(trimmed))) {
+      unique.set(normalizePinnedQuery(trimmed), trimmed);
+    }
+  }
+  return Array.from(unique.values());
+}
+
+function normalizePinnedQuery(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+// Spaltennamen und Textwerte ohne Groß-/Kleinschreibung und umgebende Leerzeichen vergleichen
+export function normalizeFieldKey(key: string): string {
+  return key.trim().toLowerCase();
+}
+
+export function normalizeFieldValue(value: FieldValue): FieldValue {
+  return typeof value === 'string' ? value.trim().toLowerCase() : value;
+}
+
+// Alle Bedingungen des Filters müssen erfüllt sein; Chunks ohne Spaltenwerte passen nie
+export function matchesFilter(fields: Record<string, FieldValue> | undefined, filter: FieldFilter): boolean {
+  if (!fields) return false;
+
+  const normalized = new Map(Object.entries(fields).map(([key, value]) => [normalizeFieldKey(key), normalizeFieldValue(value)]));
+  return Object.entries(filter).every(([key, value]) => normalized.get(normalizeFieldKey(key)) === normalizeFieldValue(value));
+}
+
+// Sammlungen und Tags ohne Groß-/Kleinschreibung und Mehrfach-Leerzeichen vergleichen
+export function normalizeLabel(value: string): string {
+  return value.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+export function normalizeCollection(value: string): string {
+  const collection = normalizeLabel(value);
+  if (!collection || collection.length > MAX_LABEL_LENGTH) {
+    throw new Error(`Invalid collection: must be 1 to ${MAX_LABEL_LENGTH} characters`);
+  }
+  return collection;
+}
+
+// Leere und doppelte Tags verwerfen
+export function normalizeTags(values: string[]): string[] {
+  const tags = Array.from(new Set(values.map(normalizeLabel).filter(Boolean)));
+  if (tags.length > MAX_TAGS || tags.some(tag => tag.length > MAX_LABEL_LENGTH)) {
+    throw new Error(`Invalid tags: at most ${MAX_TAGS} tags of up to ${MAX_LABEL_LENGTH} characters`);
+  }
+  return tags;
+}
+
+// Leere Listen schränken nicht ein; innerhalb einer Liste genügt ein Treffer
+export function matchesScope(
+  document: { collection: string; tags: string[] },
+  scope: Pick<SearchOptions, 'collections' | 'tags'>
+): boolean {
+  const collections = (scope.collections || []).map(normalizeLabel);
+  const tags = (scope.tags || []).map(normalizeLabel);
+
+  return (collections.length === 0 || collections.includes(document.collection)) &&
+    (tags.length === 0 || tags.some(tag => document.tags.includes(tag)));
+}
+
+// Gemeinsame Dokumente sieht jeder, private nur ihr Besitzer
+export function isVisibleTo(document: { owner?: string }, access: DocumentAccess): boolean {
+  return !document.owner || access.allUsers === true || document.owner === access.userId;
+}
+
+export function hasScope(scope: Pick<SearchOptions, 'collections' | 'tags'>): boolean {
+  return Boolean(scope.collections?.length || scope.tags?.length);
+}
+
+// Auszug an einer Wortgrenze kürzen
+export function createExcerpt(text: string): string {
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  if (normalized.length <= EXCERPT_LENGTH) return normalized;
+
+  const cut = normalized.slice(0, EXCERPT_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > EXCERPT_LENGTH / 2 ? cut.slice(0, lastSpace) : cut}…`;
+}
+
+// Hash über den extrahierten Text: gleicher Inhalt wird unabhängig vom Dateiformat erkannt
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content.replace(/\s+/g, ' ').trim()).digest('hex');
+}
+
+export function generateDocId(filename: string): string {
+  return `${Date.now()}_${filename.replace(/[^a-zA-Z0-9]/g, '_')}`;
+}
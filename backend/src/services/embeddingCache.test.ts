@@ -0,0 +1,109 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EmbeddingCache, normalizeEmbeddingText } from './embeddingCache';
+
+describe('EmbeddingCache', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'embedding-cache-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const cachePath = () => path.join(directory, 'embedding-cache.bin');
+
+  it('returns cached embeddings per model and counts hits and misses', async () => {
+    const cache = new EmbeddingCache(10);
+    await cache.setMany('model-a', [{ text: 'Hallo  Welt', embedding: [0.5, -1] }]);
+
+    expect(await cache.getMany('model-a', ['Hallo Welt', 'Andere Frage'])).toEqual([[0.5, -1], undefined]);
+    expect(await cache.getMany('model-b', ['Hallo Welt'])).toEqual([undefined]);
+    expect(cache.getStats()).toEqual({
+      entries: 1, maxEntries: 10, hits: 1, misses: 2, hitRate: 1 / 3, evictions: 0, persistent: false
+    });
+  });
+
+  it('evicts the least recently used entry', async () => {
+    const cache = new EmbeddingCache(2);
+    await cache.setMany('m', [{ text: 'a', embedding: [1] }, { text: 'b', embedding: [2] }]);
+    await cache.getMany('m', ['a']);
+    await cache.setMany('m', [{ text: 'c', embedding: [3] }]);
+
+    expect(await cache.getMany('m', ['a', 'b', 'c'])).toEqual([[1], undefined, [3]]);
+    expect(cache.getStats().evictions).toBe(1);
+  });
+
+  it('stores nothing when disabled', async () => {
+    const cache = new EmbeddingCache(0, directory);
+    await cache.setMany('m', [{ text: 'a', embedding: [1] }]);
+
+    expect(cache.enabled).toBe(false);
+    expect(await cache.getMany('m', ['a'])).toEqual([undefined]);
+    await expect(fs.access(cachePath())).rejects.toThrow();
+  });
+
+  it('persists entries and loads the latest value per text', async () => {
+    const cache = new EmbeddingCache(10, directory);
+    await cache.setMany('m', [{ text: 'a', embedding: [1, 2] }]);
+    await cache.setMany('m', [{ text: 'a', embedding: [3, 4] }, { text: 'b', embedding: [5, 6] }]);
+
+    const reloaded = new EmbeddingCache(10, directory);
+
+    expect(await reloaded.getMany('m', ['a', 'b'])).toEqual([[3, 4], [5, 6]]);
+    expect(reloaded.getStats()).toMatchObject({ entries: 2, persistent: true });
+  });
+
+  it('drops a truncated last record and rewrites the file', async () => {
+    const cache = new EmbeddingCache(10, directory);
+    await cache.setMany('m', [{ text: 'a', embedding: [1] }, { text: 'b', embedding: [2] }]);
+    const { size } = await fs.stat(cachePath());
+    await fs.truncate(cachePath(), size - 2);
+
+    const reloaded = new EmbeddingCache(10, directory);
+
+    expect(await reloaded.getMany('m', ['a', 'b'])).toEqual([[1], undefined]);
+    expect((await fs.stat(cachePath())).size).toBeLessThan(size - 2);
+  });
+
+  it('compacts the file once it holds more than twice the maximum entries', async () => {
+    const cache = new EmbeddingCache(2, directory);
+    for (let i = 0; i < 5; i++) {
+      await cache.setMany('m', [{ text: `text ${i}`, embedding: [i] }]);
+    }
+
+    const reloaded = new EmbeddingCache(2, directory);
+
+    expect(await reloaded.getMany('m', ['text 0', 'text 3', 'text 4'])).toEqual([undefined, [3], [4]]);
+    expect(reloaded.getStats().evictions).toBe(0);
+  });
+
+  it('starts empty when the file cannot be read', async () => {
+    await fs.mkdir(cachePath());
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const cache = new EmbeddingCache(10, directory);
+
+    expect(await cache.getMany('m', ['a'])).toEqual([undefined]);
+    expect(error).toHaveBeenCalledWith('Failed to load embedding cache, starting empty:', expect.objectContaining({ code: 'EISDIR' }));
+  });
+
+  it('starts empty without a warning when there is no file yet', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await new EmbeddingCache(10, directory).getMany('m', ['a'])).toEqual([undefined]);
+    expect(error).not.toHaveBeenCalled();
+  });
+});
+
+describe('normalizeEmbeddingText', () => {
+  it('collapses whitespace', () => {
+    expect(normalizeEmbeddingText('  Hallo\n\tWelt  ')).toBe('Hallo Welt');
+  });
+});
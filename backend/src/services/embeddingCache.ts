@@ -0,0 +1,231 @@
+// backend/src/services/embeddingCache.ts
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { getKnowledgeBaseDir } from './knowledgeBaseStorage';
+
+const CACHE_FILE = 'embedding-cache.bin';
+
+export interface EmbeddingCacheStats {
+  entries: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  // Anteil der Treffer an allen Abfragen seit dem Start (0, solange nichts abgefragt wurde)
+  hitRate: number;
+  evictions: number;
+  persistent: boolean;
+}
+
+/**
+ * LRU-Cache für Embeddings, Schlüssel: Modell + SHA-256 des normalisierten Texts.
+ *
+ * Mit Verzeichnis werden neue Einträge binär an eine Datei angehängt
+ * (Schlüssellänge, Schlüssel, Dimension, Float32-Werte). Beim Laden gewinnt
+ * der jeweils letzte Eintrag; ist die Datei deutlich größer als der Cache,
+ * wird sie mit den aktuellen Einträgen neu geschrieben.
+ */
+export class EmbeddingCache {
+  private entries: Map<string, Float32Array> = new Map();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  // Datensätze in der Datei (inkl. verdrängter und überschriebener)
+  private storedRecords = 0;
+  private loaded: Promise<void> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private maxEntries: number, private directory: string | null = null) {}
+
+  get enabled(): boolean {
+    return this.maxEntries > 0;
+  }
+
+  // Fehlende Texte als undefined, in Reihenfolge der Eingabe
+  async getMany(model: string, texts: string[]): Promise<Array<number[] | undefined>> {
+    await this.load();
+
+    return texts.map(text => {
+      const key = cacheKey(model, text);
+      const vector = this.entries.get(key);
+
+      if (!vector) {
+        this.misses++;
+        return undefined;
+      }
+
+      // Zuletzt verwendet ans Ende
+      this.entries.delete(key);
+      this.entries.set(key, vector);
+      this.hits++;
+      return Array.from(vector);
+    });
+  }
+
+  async setMany(model: string, items: Array<{ text: string; embedding: number[] }>): Promise<void> {
+    if (!this.enabled || items.length === 0) return;
+    await this.load();
+
+    const records: Array<{ key: string; vector: Float32Array }> = [];
+    for (const { text, embedding } of items) {
+      const key = cacheKey(model, text);
+      const vector = Float32Array.from(embedding);
+
+      this.entries.delete(key);
+      this.entries.set(key, vector);
+      records.push({ key, vector });
+    }
+    this.evict();
+
+    if (this.directory) {
+      await this.enqueue(() => this.append(records));
+    }
+  }
+
+  getStats(): EmbeddingCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      entries: this.entries.size,
+      maxEntries: this.maxEntries,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      evictions: this.evictions,
+      persistent: this.directory !== null
+    };
+  }
+
+  // Einmalig beim ersten Zugriff; ein defekter Cache darf das Einbetten nicht verhindern
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.enqueue(async () => {
+        if (!this.directory || !this.enabled) return;
+
+        try {
+          const { records, truncated } = decodeRecords(await fs.readFile(this.filePath()));
+          for (const { key, vector } of records) {
+            this.entries.delete(key);
+            this.entries.set(key, vector);
+          }
+          this.storedRecords = records.length;
+          this.evict();
+
+          if (truncated || this.storedRecords > this.maxEntries * 2) {
+            await this.rewrite();
+          }
+          console.log(`Embedding cache loaded: ${this.entries.size} entries`);
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            console.error('Failed to load embedding cache, starting empty:', error);
+          }
+        }
+      });
+    }
+    return this.loaded;
+  }
+
+  private evict(): void {
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  private async append(records: Array<{ key: string; vector: Float32Array }>): Promise<void> {
+    try {
+      await fs.mkdir(this.directory!, { recursive: true });
+      await fs.appendFile(this.filePath(), encodeRecords(records));
+      this.storedRecords += records.length;
+
+      // Verdrängte Einträge nicht unbegrenzt in der Datei mitschleppen
+      if (this.storedRecords > this.maxEntries * 2) {
+        await this.rewrite();
+      }
+    } catch (error) {
+      console.error('Failed to persist embedding cache:', error);
+    }
+  }
+
+  // Datei atomar durch die aktuellen Einträge ersetzen (älteste zuerst, damit die LRU-Reihenfolge erhalten bleibt)
+  private async rewrite(): Promise<void> {
+    const records = Array.from(this.entries, ([key, vector]) => ({ key, vector }));
+    const tmpPath = `${this.filePath()}.${process.pid}.tmp`;
+
+    await fs.writeFile(tmpPath, encodeRecords(records));
+    await fs.rename(tmpPath, this.filePath());
+    this.storedRecords = records.length;
+  }
+
+  private filePath(): string {
+    return path.join(this.directory!, CACHE_FILE);
+  }
+
+  // Dateizugriffe nacheinander ausführen
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task, task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+let sharedCache: EmbeddingCache | null = null;
+
+// Gemeinsamer Cache aller EmbeddingService-Instanzen; im Modus VECTOR_STORE=memory nur im Speicher
+export function getEmbeddingCache(): EmbeddingCache {
+  if (!sharedCache) {
+    const maxEntries = Number(process.env.EMBEDDING_CACHE_MAX_ENTRIES ?? 10000);
+    const persistent = (process.env.VECTOR_STORE || 'local').toLowerCase() !== 'memory';
+    const directory = process.env.EMBEDDING_CACHE_DIR || (persistent ? getKnowledgeBaseDir() : null);
+
+    sharedCache = new EmbeddingCache(Number.isFinite(maxEntries) ? Math.max(0, maxEntries) : 10000, directory);
+  }
+  return sharedCache;
+}
+
+// Whitespace normalisieren wie beim Content-Hash: gleicher Text in anderer Formatierung trifft denselben Eintrag
+export function normalizeEmbeddingText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function cacheKey(model: string, text: string): string {
+  const hash = crypto.createHash('sha256').update(normalizeEmbeddingText(text)).digest('hex');
+  return `${model}:${hash}`;
+}
+
+function encodeRecords(records: Array<{ key: string; vector: Float32Array }>): Buffer {
+  const parts: Buffer[] = [];
+
+  for (const { key, vector } of records) {
+    const keyBytes = Buffer.from(key, 'utf-8');
+    const header = Buffer.alloc(6);
+    header.writeUInt16LE(keyBytes.length, 0);
+    header.writeUInt32LE(vector.length, 2);
+    parts.push(header, keyBytes, Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength));
+  }
+
+  return Buffer.concat(parts);
+}
+
+// Unvollständiger letzter Datensatz (Absturz beim Schreiben) wird verworfen
+function decodeRecords(buffer: Buffer): { records: Array<{ key: string; vector: Float32Array }>; truncated: boolean } {
+  const records: Array<{ key: string; vector: Float32Array }> = [];
+  let offset = 0;
+
+  while (offset + 6 <= buffer.length) {
+    const keyLength = buffer.readUInt16LE(offset);
+    const dimension = buffer.readUInt32LE(offset + 2);
+    const end = offset + 6 + keyLength + dimension * 4;
+    if (end > buffer.length) break;
+
+    const key = buffer.toString('utf-8', offset + 6, offset + 6 + keyLength);
+    // Kopie, damit die Vektoren nicht am gesamten Datei-Buffer hängen
+    const vector = new Float32Array(dimension);
+    Buffer.from(vector.buffer).set(buffer.subarray(offset + 6 + keyLength, end));
+
+    records.push({ key, vector });
+    offset = end;
+  }
+
+  return { records, truncated: offset !== buffer.length };
+}
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { EmbeddingCache } from './embeddingCache';
+import { EmbeddingService } from './embeddingService';
+
+describe('EmbeddingService retries', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.stubEnv('EMBEDDING_PROVIDER', 'mistral');
+    vi.stubEnv('MISTRAL_API_KEY', 'test-key');
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    fetchMock.mockReset();
+    fetchMock.mockResolvedValue(new Response('busy', { status: 503, statusText: 'Service Unavailable' }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('does not retry when EMBEDDING_MAX_RETRIES is 0', async () => {
+    vi.stubEnv('EMBEDDING_MAX_RETRIES', '0');
+    const service = new EmbeddingService(new EmbeddingCache(0));
+
+    await expect(service.getEmbeddings(['Hallo'])).rejects.toThrow('Mistral API error: 503');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries without waiting when EMBEDDING_RETRY_DELAY_MS is 0', async () => {
+    vi.stubEnv('EMBEDDING_MAX_RETRIES', '2');
+    vi.stubEnv('EMBEDDING_RETRY_DELAY_MS', '0');
+    fetchMock
+      .mockResolvedValueOnce(new Response('busy', { status: 503 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ data: [{ embedding: [0.1, 0.2], index: 0 }] })));
+    const service = new EmbeddingService(new EmbeddingCache(0));
+
+    expect(await service.getEmbeddings(['Hallo'])).toEqual([[0.1, 0.2]]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(console.warn).toHaveBeenCalledWith('Embedding request failed (attempt 1), retrying in 0ms');
+  });
+
+  it('falls back to the defaults for invalid values', async () => {
+    vi.stubEnv('EMBEDDING_MAX_RETRIES', 'many');
+    vi.stubEnv('EMBEDDING_RETRY_DELAY_MS', '-1');
+    vi.useFakeTimers();
+    const service = new EmbeddingService(new EmbeddingCache(0));
+
+    const result = service.getEmbeddings(['Hallo']).catch(error => error);
+    await vi.runAllTimersAsync();
+    vi.useRealTimers();
+
+    expect(await result).toBeInstanceOf(Error);
+    expect(fetchMock).toHaveBeenCalledTimes(6);
+  });
+});
@@ -0,0 +1,251 @@
+// backend/src/services/embeddingService.ts
+import { EmbeddingCache, getEmbeddingCache, normalizeEmbeddingText } from './embeddingCache';
+import { LOCAL_EMBEDDING_MODEL, localEmbedding } from './localEmbedding';
+
+// Typ für die Mistral Embedding Response
+interface MistralEmbeddingResponse {
+  data: {
+    embedding: number[];
+    index?: number;
+  }[];
+}
+
+export const EMBEDDING_DIMENSION = 1024;
+export const EMBEDDING_MODEL = 'mistral-embed';
+// Kennung der früheren Wort-Hash-Vektoren ohne API-Key (nur noch zum Erkennen alter Chunks)
+export const SIMPLE_EMBEDDING_MODEL = 'simple-hash';
+
+export type EmbeddingProvider = 'mistral' | 'local';
+
+// Mindest-Kosinusähnlichkeit relevanter Treffer; Hashing-Vektoren liegen deutlich niedriger als mistral-embed
+const MIN_RELEVANCE: Record<EmbeddingProvider, number> = {
+  mistral: 0.3,
+  local: 0.1
+};
+
+// Wird geworfen, wenn ein Embedding-Provider konfiguriert ist, aber nicht liefert.
+// Kein stiller Fallback auf das lokale Embedding, sonst landen Vektoren eines anderen Modells im Index.
+export class EmbeddingError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'EmbeddingError';
+  }
+}
+
+export interface EmbeddingRequestOptions {
+  // Abbruch laufender Batches (z.B. bei abgebrochenem Ingestion-Job)
+  signal?: AbortSignal;
+  // Anzahl bereits eingebetteter Texte nach jedem Batch
+  onProgress?: (embedded: number, total: number) => void;
+}
+
+export class EmbeddingService {
+  private mistralApiKey: string;
+  private provider: EmbeddingProvider;
+  private batchSize: number;
+  private concurrency: number;
+  private maxRetries: number;
+  private retryBaseDelayMs: number;
+
+  constructor(private cache: EmbeddingCache = getEmbeddingCache()) {
+    this.mistralApiKey = process.env.MISTRAL_API_KEY || '';
+    this.provider = resolveProvider(process.env.EMBEDDING_PROVIDER, this.mistralApiKey);
+    this.batchSize = Number(process.env.EMBEDDING_BATCH_SIZE) || 32;
+    this.concurrency = Number(process.env.EMBEDDING_CONCURRENCY) || 3;
+    // 0 schaltet Wiederholungen bzw. die Wartezeit ab
+    this.maxRetries = Math.floor(readNonNegative(process.env.EMBEDDING_MAX_RETRIES, 5));
+    this.retryBaseDelayMs = readNonNegative(process.env.EMBEDDING_RETRY_DELAY_MS, 500);
+  }
+
+  // Modell, mit dem getEmbeddings aktuell einbettet (wird an jedem Chunk gespeichert)
+  get model(): string {
+    return this.provider === 'mistral' ? EMBEDDING_MODEL : LOCAL_EMBEDDING_MODEL;
+  }
+
+  get minRelevance(): number {
+    return MIN_RELEVANCE[this.provider];
+  }
+
+  async getEmbedding(text: string): Promise<number[]> {
+    const [embedding] = await this.getEmbeddings([text]);
+    return embedding;
+  }
+
+  // Mehrere Texte in Batches einbetten, mit begrenzter Parallelität.
+  // Reihenfolge des Ergebnisses entspricht der Reihenfolge der Eingabe.
+  async getEmbeddings(texts: string[], options: EmbeddingRequestOptions = {}): Promise<number[][]> {
+    const { signal, onProgress } = options;
+    signal?.throwIfAborted();
+
+    // Lokal berechnet ist schneller als jeder Cache-Zugriff
+    if (this.provider === 'local') {
+      const embeddings = texts.map(text => localEmbedding(text, EMBEDDING_DIMENSION));
+      onProgress?.(texts.length, texts.length);
+      return embeddings;
+    }
+
+    // Nur Texte ohne Cache-Eintrag an den Provider schicken, gleiche Texte nur einmal
+    const cached = this.cache.enabled
+      ? await this.cache.getMany(EMBEDDING_MODEL, texts)
+      : new Array<number[] | undefined>(texts.length).fill(undefined);
+    const normalized = texts.map(normalizeEmbeddingText);
+    const pending = new Map<string, string>();
+    texts.forEach((text, i) => {
+      if (!cached[i] && !pending.has(normalized[i])) pending.set(normalized[i], text);
+    });
+    const missing = Array.from(pending.values());
+
+    const batches: string[][] = [];
+    for (let i = 0; i < missing.length; i += this.batchSize) {
+      batches.push(missing.slice(i, i + this.batchSize));
+    }
+
+    // Treffer aus dem Cache zählen als bereits eingebettet; Duplikate zählen mit ihrem ersten Vorkommen
+    const occurrences = new Map<string, number>();
+    normalized.forEach((key, i) => {
+      if (!cached[i]) occurrences.set(key, (occurrences.get(key) || 0) + 1);
+    });
+    let embedded = cached.filter(Boolean).length;
+    if (embedded > 0) onProgress?.(embedded, texts.length);
+
+    const fetched = new Map<string, number[]>();
+    await mapWithConcurrency(batches, this.concurrency, async batch => {
+      const result = await this.embedBatchWithRetry(batch, signal);
+      batch.forEach((text, i) => {
+        const key = normalizeEmbeddingText(text);
+        fetched.set(key, result[i]);
+        embedded += occurrences.get(key) || 0;
+      });
+      await this.cache.setMany(EMBEDDING_MODEL, batch.map((text, i) => ({ text, embedding: result[i] })));
+      onProgress?.(embedded, texts.length);
+    });
+
+    return texts.map((_, i) => cached[i] || fetched.get(normalized[i])!);
+  }
+
+  private async embedBatchWithRetry(batch: string[], signal?: AbortSignal): Promise<number[][]> {
+    for (let attempt = 0; ; attempt++) {
+      signal?.throwIfAborted();
+
+      try {
+        return await this.embedBatch(batch, signal);
+      } catch (error) {
+        // Abbruch ist kein Fehler des Providers: nicht wiederholen, nicht als EmbeddingError melden
+        if (signal?.aborted) {
+          throw signal.reason;
+        }
+
+        const retryable = !(error instanceof EmbeddingError) ||
+          error.status === 429 ||
+          (error.status !== undefined && error.status >= 500);
+
+        if (!retryable || attempt >= this.maxRetries) {
+          console.error('Error generating embeddings:', error);
+          throw error instanceof EmbeddingError
+            ? error
+            : new EmbeddingError(`Embedding provider unavailable: ${(error as Error).message}`);
+        }
+
+        // Exponentielles Backoff mit Jitter
+        const delay = this.retryBaseDelayMs * 2 ** attempt + Math.random() * this.retryBaseDelayMs;
+        console.warn(`Embedding request failed (attempt ${attempt + 1}), retrying in ${Math.round(delay)}ms`);
+        await abortableDelay(delay, signal);
+      }
+    }
+  }
+
+  // Mistral API direkt aufrufen für Embeddings (input akzeptiert ein Array)
+  private async embedBatch(batch: string[], signal?: AbortSignal): Promise<number[][]> {
+    const response = await fetch('https://api.mistral.ai/v1/embeddings', {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.mistralApiKey}`
+      },
+      body: JSON.stringify({
+        model: EMBEDDING_MODEL,
+        input: batch
+      })
+    });
+
+    if (!response.ok) {
+      throw new EmbeddingError(`Mistral API error: ${response.status} ${response.statusText}`, response.status);
+    }
+
+    // Zuerst das rohe JSON lesen (unknown), dann casten und validieren
+    const raw = await response.json();
+    const data = raw as MistralEmbeddingResponse;
+
+    // Sicherheitschecks: existierende Felder & Typen prüfen
+    if (
+      !data ||
+      !Array.isArray(data.data) ||
+      data.data.length !== batch.length ||
+      data.data.some(item => !Array.isArray(item.embedding))
+    ) {
+      console.error('Unexpected embedding response from Mistral API:', raw);
+      throw new EmbeddingError('Unexpected embedding response from Mistral API');
+    }
+
+    return [...data.data]
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map(item => item.embedding);
+  }
+}
+
+// Fehlende bzw. ungültige Werte => Standard; 0 bleibt erhalten
+function readNonNegative(value: string | undefined, fallback: number): number {
+  const parsed = parseFloat(value ?? '');
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+// EMBEDDING_PROVIDER wählt mistral oder local; ohne Angabe mistral, sofern ein API-Key gesetzt ist
+function resolveProvider(configured: string | undefined, apiKey: string): EmbeddingProvider {
+  switch ((configured || '').toLowerCase()) {
+    case '':
+      return apiKey ? 'mistral' : 'local';
+
+    case 'mistral':
+      if (!apiKey) {
+        throw new Error('Embedding provider mistral requires MISTRAL_API_KEY');
+      }
+      return 'mistral';
+
+    case 'local':
+      return 'local';
+
+    default:
+      throw new Error(`Unknown embedding provider: ${configured}. Use mistral or local.`);
+  }
+}
+
+function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Führt worker für alle Elemente aus, höchstens `limit` gleichzeitig
+async function mapWithConcurrency<T, R>(items: T[], limit: number, worker: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+  return results;
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { HnswIndex } from './hnswIndex';
+import { ExactVectorIndex } from './vectorIndex';
+
+// Deterministische Testdaten (LCG), geclustert wie echte Embeddings
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296 - 0.5;
+  };
+}
+
+function clusteredVectors(count: number, dim: number, seed = 1): Float32Array[] {
+  const random = createRandom(seed);
+  const centers = Array.from({ length: 8 }, () => Float32Array.from({ length: dim }, random));
+  return Array.from({ length: count }, (_, i) =>
+    Float32Array.from(centers[i % centers.length], value => value + random() * 0.8));
+}
+
+describe('HnswIndex', () => {
+  it('finds nearly the same neighbours as the exact search', () => {
+    const vectors = clusteredVectors(600, 32);
+    const hnsw = new HnswIndex();
+    const exact = new ExactVectorIndex();
+    vectors.forEach((vector, i) => {
+      hnsw.add(`v${i}`, vector);
+      exact.add(`v${i}`, vector);
+    });
+
+    const queries = clusteredVectors(20, 32, 7);
+    let found = 0;
+    for (const query of queries) {
+      const expected = new Set(exact.search(query, 10).map(match => match.id));
+      found += hnsw.search(query, 10).filter(match => expected.has(match.id)).length;
+    }
+
+    expect(found / (queries.length * 10)).toBeGreaterThan(0.9);
+  });
+
+  it('returns cosine similarities in descending order', () => {
+    const hnsw = new HnswIndex();
+    hnsw.add('same', [1, 0]);
+    hnsw.add('diagonal', [1, 1]);
+    hnsw.add('opposite', [-1, 0]);
+
+    const matches = hnsw.search([2, 0], 3);
+
+    expect(matches.map(match => match.id)).toEqual(['same', 'diagonal', 'opposite']);
+    expect(matches[0].score).toBeCloseTo(1);
+    expect(matches[1].score).toBeCloseTo(Math.SQRT1_2);
+    expect(matches[2].score).toBeCloseTo(-1);
+  });
+
+  it('hides removed vectors and tracks the share of tombstoned nodes', () => {
+    const hnsw = new HnswIndex();
+    clusteredVectors(40, 8).forEach((vector, i) => hnsw.add(`v${i}`, vector));
+
+    for (let i = 0; i < 20; i++) hnsw.remove(`v${i}`);
+
+    expect(hnsw.size).toBe(20);
+    expect(hnsw.has('v0')).toBe(false);
+    expect(hnsw.deletedRatio).toBeCloseTo(0.5);
+    const ids = hnsw.search(clusteredVectors(1, 8, 3)[0], 40).map(match => match.id);
+    expect(ids.every(id => Number(id.slice(1)) >= 20)).toBe(true);
+  });
+
+  it('returns k accepted neighbours even when most nodes are filtered out', () => {
+    const vectors = clusteredVectors(400, 16);
+    const hnsw = new HnswIndex();
+    const exact = new ExactVectorIndex();
+    vectors.forEach((vector, i) => {
+      hnsw.add(`v${i}`, vector);
+      exact.add(`v${i}`, vector);
+    });
+    // Nur jeder zehnte Knoten ist sichtbar, z.B. Chunks eines Nutzers
+    const accept = (id: string) => Number(id.slice(1)) % 10 === 0;
+    const query = clusteredVectors(1, 16, 5)[0];
+
+    const matches = hnsw.search(query, 10, accept);
+    const expected = new Set(exact.search(query, 10, accept).map(match => match.id));
+
+    expect(matches).toHaveLength(10);
+    expect(matches.every(match => accept(match.id))).toBe(true);
+    expect(matches.filter(match => expected.has(match.id)).length).toBeGreaterThanOrEqual(8);
+  });
+
+  it('replaces the vector when an id is added again', () => {
+    const hnsw = new HnswIndex();
+    hnsw.add('a', [1, 0]);
+    hnsw.add('b', [0, 1]);
+    hnsw.add('a', [0, -1]);
+
+    expect(hnsw.size).toBe(2);
+    expect(Array.from(hnsw.getVector('a')!)).toEqual([0, -1]);
+    expect(hnsw.search([0, -1], 1)[0].id).toBe('a');
+  });
+
+  it('rejects vectors of another dimension and ignores mismatching queries', () => {
+    const hnsw = new HnswIndex();
+    expect(hnsw.search([1, 0], 5)).toEqual([]);
+
+    hnsw.add('a', [1, 0]);
+
+    expect(() => hnsw.add('b', [1, 0, 0])).toThrow('Vector dimension 3 does not match index dimension 2');
+    expect(hnsw.search([1, 0, 0], 5)).toEqual([]);
+  });
+
+  it('starts over when the last vector is removed', () => {
+    const hnsw = new HnswIndex();
+    hnsw.add('a', [1, 0]);
+    hnsw.remove('a');
+    hnsw.add('b', [1, 0, 0]);
+
+    expect(hnsw.search([1, 0, 0], 1)).toEqual([{ id: 'b', score: expect.closeTo(1) }]);
+  });
+});
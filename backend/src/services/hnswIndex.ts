@@ -0,0 +1,339 @@
+// backend/src/services/hnswIndex.ts
+import { VectorIndex, VectorMatch, dotProduct, normalizeVector } from './vectorIndex';
+
+export interface HnswOptions {
+  // Maximale Nachbarn pro Knoten und Ebene (Ebene 0: 2 * m)
+  m?: number;
+  // Kandidatenliste beim Einfügen
+  efConstruction?: number;
+  // Kandidatenliste bei der Suche (höher = besserer Recall, langsamer)
+  efSearch?: number;
+}
+
+interface HnswNode {
+  id: string;
+  vector: Float32Array;
+  level: number;
+  neighbors: number[][];
+  deleted: boolean;
+}
+
+interface Candidate {
+  node: number;
+  distance: number;
+}
+
+/**
+ * Hierarchical Navigable Small World Graph (Malkov & Yashunin) für
+ * approximative Nächste-Nachbarn-Suche über Kosinusähnlichkeit.
+ *
+ * Vektoren werden normalisiert als Float32Array gespeichert. Einfügen ist
+ * inkrementell; Löschen markiert Knoten nur (sie bleiben für die Navigation
+ * erhalten). Den Neuaufbau bei vielen gelöschten Knoten übernimmt der Besitzer
+ * (AdaptiveVectorIndex) im Hintergrund, nie ein einzelnes remove().
+ */
+export class HnswIndex implements VectorIndex {
+  private nodes: HnswNode[] = [];
+  private nodeById: Map<string, number> = new Map();
+  private entryPoint = -1;
+  private maxLevel = -1;
+  private deletedCount = 0;
+  private dimension = 0;
+
+  private m: number;
+  private maxM0: number;
+  private efConstruction: number;
+  private efSearch: number;
+  private levelMultiplier: number;
+
+  constructor(options: HnswOptions = {}) {
+    this.m = options.m ?? 16;
+    this.maxM0 = this.m * 2;
+    this.efConstruction = options.efConstruction ?? 200;
+    this.efSearch = options.efSearch ?? 64;
+    this.levelMultiplier = 1 / Math.log(this.m);
+  }
+
+  get size(): number {
+    return this.nodeById.size;
+  }
+
+  // Anteil gelöschter, nur noch für die Navigation gehaltener Knoten
+  get deletedRatio(): number {
+    return this.nodes.length > 0 ? this.deletedCount / this.nodes.length : 0;
+  }
+
+  add(id: string, vector: ArrayLike<number>): void {
+    this.addNormalized(id, normalizeVector(vector));
+  }
+
+  // Bereits normalisierten Vektor übernehmen, ohne ihn zu kopieren
+  addNormalized(id: string, vector: Float32Array): void {
+    if (this.nodeById.has(id)) {
+      this.remove(id);
+    }
+
+    if (this.dimension === 0) {
+      this.dimension = vector.length;
+    } else if (vector.length !== this.dimension) {
+      throw new Error(`Vector dimension ${vector.length} does not match index dimension ${this.dimension}`);
+    }
+
+    this.insert(id, vector);
+  }
+
+  remove(id: string): void {
+    const index = this.nodeById.get(id);
+    if (index === undefined) return;
+
+    this.nodes[index].deleted = true;
+    this.nodeById.delete(id);
+    this.deletedCount++;
+
+    if (this.nodeById.size === 0) {
+      this.clear();
+    }
+  }
+
+  has(id: string): boolean {
+    return this.nodeById.has(id);
+  }
+
+  getVector(id: string): Float32Array | undefined {
+    const index = this.nodeById.get(id);
+    return index === undefined ? undefined : this.nodes[index].vector;
+  }
+
+  search(query: ArrayLike<number>, k: number, accept?: (id: string) => boolean): VectorMatch[] {
+    if (this.entryPoint === -1 || query.length !== this.dimension) return [];
+
+    const normalized = normalizeVector(query);
+    let entry = this.entryPoint;
+
+    for (let level = this.maxLevel; level > 0; level--) {
+      entry = this.greedyClosest(normalized, entry, level);
+    }
+
+    // Gelöschte und nicht akzeptierte Knoten werden traversiert, aber nicht zurückgegeben
+    const included = (node: number) => !this.nodes[node].deleted && (!accept || accept(this.nodes[node].id));
+    return this.searchLayer(normalized, [entry], Math.max(this.efSearch, k), 0, included)
+      .slice(0, k)
+      .map(candidate => ({
+        id: this.nodes[candidate.node].id,
+        score: 1 - candidate.distance
+      }));
+  }
+
+  clear(): void {
+    this.nodes = [];
+    this.nodeById.clear();
+    this.entryPoint = -1;
+    this.maxLevel = -1;
+    this.deletedCount = 0;
+    this.dimension = 0;
+  }
+
+  private insert(id: string, vector: Float32Array): void {
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMultiplier);
+    const index = this.nodes.length;
+
+    this.nodes.push({
+      id,
+      vector,
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      deleted: false
+    });
+    this.nodeById.set(id, index);
+
+    if (this.entryPoint === -1) {
+      this.entryPoint = index;
+      this.maxLevel = level;
+      return;
+    }
+
+    let entry = this.entryPoint;
+    for (let l = this.maxLevel; l > level; l--) {
+      entry = this.greedyClosest(vector, entry, l);
+    }
+
+    let entryPoints = [entry];
+    for (let l = Math.min(level, this.maxLevel); l >= 0; l--) {
+      const candidates = this.searchLayer(vector, entryPoints, this.efConstruction, l);
+      const maxNeighbors = l === 0 ? this.maxM0 : this.m;
+      const neighbors = this.selectNeighbors(candidates, this.m);
+
+      this.nodes[index].neighbors[l] = neighbors.map(c => c.node);
+
+      // Rückverbindungen setzen, bei Überlauf die Nachbarliste neu auswählen
+      for (const neighbor of neighbors) {
+        const links = this.nodes[neighbor.node].neighbors[l];
+        links.push(index);
+
+        if (links.length > maxNeighbors) {
+          const base = this.nodes[neighbor.node].vector;
+          const scored = links
+            .map(node => ({ node, distance: this.distance(base, this.nodes[node].vector) }))
+            .sort((a, b) => a.distance - b.distance);
+          this.nodes[neighbor.node].neighbors[l] = this.selectNeighbors(scored, maxNeighbors).map(c => c.node);
+        }
+      }
+
+      entryPoints = candidates.map(c => c.node);
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = index;
+      this.maxLevel = level;
+    }
+  }
+
+  private greedyClosest(query: Float32Array, entry: number, level: number): number {
+    let current = entry;
+    let currentDistance = this.distance(query, this.nodes[current].vector);
+    let improved = true;
+
+    while (improved) {
+      improved = false;
+      for (const neighbor of this.nodes[current].neighbors[level] || []) {
+        const distance = this.distance(query, this.nodes[neighbor].vector);
+        if (distance < currentDistance) {
+          current = neighbor;
+          currentDistance = distance;
+          improved = true;
+        }
+      }
+    }
+
+    return current;
+  }
+
+  // Beam Search auf einer Ebene; Ergebnis aufsteigend nach Distanz sortiert. Mit included kommen nur
+  // diese Knoten ins Ergebnis, die Suche läuft weiter, bis ef davon gefunden sind (wie der Filter in hnswlib)
+  private searchLayer(
+    query: Float32Array,
+    entryPoints: number[],
+    ef: number,
+    level: number,
+    included?: (node: number) => boolean
+  ): Candidate[] {
+    const visited = new Set<number>(entryPoints);
+    const candidates = new BinaryHeap<Candidate>((a, b) => a.distance - b.distance);
+    const results = new BinaryHeap<Candidate>((a, b) => b.distance - a.distance);
+
+    for (const node of entryPoints) {
+      const candidate = { node, distance: this.distance(query, this.nodes[node].vector) };
+      candidates.push(candidate);
+      if (!included || included(node)) results.push(candidate);
+    }
+
+    while (candidates.size > 0) {
+      const closest = candidates.pop()!;
+      if (results.size >= ef && closest.distance > results.peek()!.distance) break;
+
+      for (const neighbor of this.nodes[closest.node].neighbors[level] || []) {
+        if (visited.has(neighbor)) continue;
+        visited.add(neighbor);
+
+        const distance = this.distance(query, this.nodes[neighbor].vector);
+        if (results.size < ef || distance < results.peek()!.distance) {
+          const candidate = { node: neighbor, distance };
+          candidates.push(candidate);
+          if (!included || included(neighbor)) {
+            results.push(candidate);
+            if (results.size > ef) results.pop();
+          }
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => a.distance - b.distance);
+  }
+
+  // Heuristik aus dem HNSW-Paper: bevorzugt Nachbarn in unterschiedlichen Richtungen,
+  // füllt danach mit den nächsten verworfenen Kandidaten auf
+  private selectNeighbors(sortedCandidates: Candidate[], max: number): Candidate[] {
+    const selected: Candidate[] = [];
+    const pruned: Candidate[] = [];
+
+    for (const candidate of sortedCandidates) {
+      if (selected.length >= max) break;
+
+      const vector = this.nodes[candidate.node].vector;
+      const diverse = selected.every(s => this.distance(vector, this.nodes[s.node].vector) > candidate.distance);
+
+      if (diverse) {
+        selected.push(candidate);
+      } else {
+        pruned.push(candidate);
+      }
+    }
+
+    for (const candidate of pruned) {
+      if (selected.length >= max) break;
+      selected.push(candidate);
+    }
+
+    return selected;
+  }
+
+  private distance(a: Float32Array, b: Float32Array): number {
+    return 1 - dotProduct(a, b);
+  }
+}
+
+// Minimaler Binary Heap; compare < 0 bedeutet: a liegt oben
+class BinaryHeap<T> {
+  private items: T[] = [];
+
+  constructor(private compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    this.items.push(item);
+    let i = this.items.length - 1;
+
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(this.items[i], this.items[parent]) >= 0) break;
+      [this.items[i], this.items[parent]] = [this.items[parent], this.items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const top = this.items[0];
+    const last = this.items.pop();
+
+    if (this.items.length > 0 && last !== undefined) {
+      this.items[0] = last;
+      let i = 0;
+
+      while (true) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+
+        if (left < this.items.length && this.compare(this.items[left], this.items[smallest]) < 0) smallest = left;
+        if (right < this.items.length && this.compare(this.items[right], this.items[smallest]) < 0) smallest = right;
+        if (smallest === i) break;
+
+        [this.items[i], this.items[smallest]] = [this.items[smallest], this.items[i]];
+        i = smallest;
+      }
+    }
+
+    return top;
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+}
@@ -0,0 +1,208 @@
+// backend/src/services/ingestionJobs.ts
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { AddDocumentResult, IngestionProgress } from './vectorStore';
+
+export type IngestionJobState = 'queued' | 'parsing' | 'embedding' | 'done' | 'failed' | 'cancelled';
+
+export interface IngestionJob {
+  id: string;
+  filename: string;
+  // Gemeinsame ID aller Jobs eines Sammel-Uploads
+  batchId?: string;
+  state: IngestionJobState;
+  // Fortschritt der Embedding-Phase (0 von 0, solange die Chunks noch nicht feststehen)
+  processedChunks: number;
+  totalChunks: number;
+  result?: AddDocumentResult;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IngestionTaskContext {
+  signal: AbortSignal;
+  onProgress: (progress: IngestionProgress) => void;
+}
+
+export type IngestionTask = (context: IngestionTaskContext) => Promise<AddDocumentResult>;
+
+export interface EnqueueOptions {
+  batchId?: string;
+  // Aufräumen (z.B. temporäre Upload-Datei), wenn der Job vor dem Start abgebrochen wird
+  discard?: () => void;
+}
+
+interface QueueEntry {
+  job: IngestionJob;
+  // Fehlt bei abgelehnten Dateien, die nie in die Warteschlange kommen
+  task?: IngestionTask;
+  controller: AbortController;
+  // Aufräumen (z.B. temporäre Upload-Datei), wenn der Job vor dem Start abgebrochen wird
+  discard?: () => void;
+}
+
+const TERMINAL_STATES: IngestionJobState[] = ['done', 'failed', 'cancelled'];
+
+// Abgeschlossene Jobs so lange abrufbar halten
+const JOB_RETENTION_MS = 60 * 60 * 1000;
+const MAX_FINISHED_JOBS = 100;
+
+export function isTerminalState(state: IngestionJobState): boolean {
+  return TERMINAL_STATES.includes(state);
+}
+
+/**
+ * In-Memory Warteschlange für das Einlesen von Dokumenten.
+ *
+ * Uploads werden sofort mit einer Job-ID beantwortet und im Hintergrund
+ * verarbeitet (höchstens `concurrency` gleichzeitig). Zustandsänderungen
+ * werden pro Job als Event veröffentlicht, z.B. für einen SSE-Stream.
+ */
+export class IngestionJobQueue {
+  private entries: Map<string, QueueEntry> = new Map();
+  private pending: QueueEntry[] = [];
+  private running = 0;
+  private events = new EventEmitter();
+
+  constructor(private concurrency: number = Number(process.env.INGESTION_CONCURRENCY) || 1) {
+    // Beliebig viele SSE-Verbindungen pro Job zulassen
+    this.events.setMaxListeners(0);
+  }
+
+  enqueue(filename: string, task: IngestionTask, { batchId, discard }: EnqueueOptions = {}): IngestionJob {
+    const entry: QueueEntry = { job: this.createJob(filename, batchId), task, controller: new AbortController(), discard };
+    this.entries.set(entry.job.id, entry);
+    this.pending.push(entry);
+    this.runNext();
+
+    return { ...entry.job };
+  }
+
+  // Datei, die vor der Verarbeitung abgelehnt wurde (z.B. im Archiv übersprungen), als fehlgeschlagenen Job erfassen
+  reject(filename: string, error: string, { batchId }: Pick<EnqueueOptions, 'batchId'> = {}): IngestionJob {
+    const job: IngestionJob = { ...this.createJob(filename, batchId), state: 'failed', error };
+    this.entries.set(job.id, { job, controller: new AbortController() });
+
+    return { ...job };
+  }
+
+  get(id: string): IngestionJob | undefined {
+    const entry = this.entries.get(id);
+    return entry ? { ...entry.job } : undefined;
+  }
+
+  list(batchId?: string): IngestionJob[] {
+    return Array.from(this.entries.values())
+      .filter(entry => !batchId || entry.job.batchId === batchId)
+      .map(entry => ({ ...entry.job }))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  // Wartende Jobs werden sofort beendet, laufende beim nächsten Abbruchpunkt
+  cancel(id: string): IngestionJob {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      throw new Error('Job not found');
+    }
+    if (isTerminalState(entry.job.state)) {
+      throw new Error(`Job is already ${entry.job.state}`);
+    }
+
+    if (entry.job.state === 'queued') {
+      this.pending = this.pending.filter(pending => pending !== entry);
+      entry.discard?.();
+      this.update(entry, { state: 'cancelled' });
+    } else {
+      entry.controller.abort(new Error('Ingestion job cancelled'));
+    }
+
+    return { ...entry.job };
+  }
+
+  // Listener erhält jede Zustandsänderung; Rückgabe meldet ihn wieder ab
+  subscribe(id: string, listener: (job: IngestionJob) => void): () => void {
+    this.events.on(id, listener);
+    return () => {
+      this.events.off(id, listener);
+    };
+  }
+
+  private createJob(filename: string, batchId?: string): IngestionJob {
+    this.prune();
+
+    const now = new Date();
+    return {
+      id: crypto.randomUUID(),
+      filename,
+      ...(batchId && { batchId }),
+      state: 'queued',
+      processedChunks: 0,
+      totalChunks: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  private runNext(): void {
+    while (this.running < this.concurrency && this.pending.length > 0) {
+      const entry = this.pending.shift()!;
+      this.running++;
+
+      this.run(entry).finally(() => {
+        this.running--;
+        this.runNext();
+      });
+    }
+  }
+
+  private async run(entry: QueueEntry): Promise<void> {
+    const { job, task, controller } = entry;
+    this.update(entry, { state: 'parsing' });
+
+    try {
+      const result = await task!({
+        signal: controller.signal,
+        onProgress: progress => {
+          if (controller.signal.aborted) return;
+          this.update(entry, {
+            state: progress.phase,
+            processedChunks: progress.processedChunks,
+            totalChunks: progress.totalChunks
+          });
+        }
+      });
+
+      // Bereits übernommene Dokumente gelten auch nach einem späten Abbruch als fertig
+      this.update(entry, { state: 'done', result, processedChunks: job.totalChunks });
+      console.log(`Ingestion job ${job.id} (${job.filename}) finished: ${result.status}`);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        this.update(entry, { state: 'cancelled' });
+        console.log(`Ingestion job ${job.id} (${job.filename}) cancelled`);
+      } else {
+        this.update(entry, { state: 'failed', error: (error as Error).message });
+        console.error(`Ingestion job ${job.id} (${job.filename}) failed:`, error);
+      }
+    }
+  }
+
+  private update(entry: QueueEntry, changes: Partial<IngestionJob>): void {
+    Object.assign(entry.job, changes, { updatedAt: new Date() });
+    this.events.emit(entry.job.id, { ...entry.job });
+  }
+
+  // Abgelaufene und überzählige abgeschlossene Jobs entfernen
+  private prune(): void {
+    const finished = Array.from(this.entries.values())
+      .filter(entry => isTerminalState(entry.job.state))
+      .sort((a, b) => b.job.updatedAt.getTime() - a.job.updatedAt.getTime());
+
+    const cutoff = Date.now() - JOB_RETENTION_MS;
+    finished.forEach((entry, index) => {
+      if (index >= MAX_FINISHED_JOBS || entry.job.updatedAt.getTime() < cutoff) {
+        this.entries.delete(entry.job.id);
+      }
+    });
+  }
+}
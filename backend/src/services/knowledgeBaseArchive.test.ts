@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { DocumentChunk, StoredDocument } from '../types/knowledgeBase';
+import { createArchiveFooter, createArchiveHeader, parseArchive, serializeDocument } from './knowledgeBaseArchive';
+import { ExportedDocument } from './vectorStore';
+
+const document: StoredDocument = {
+  id: 'doc',
+  name: 'preise.csv',
+  collection: 'sales',
+  tags: ['2024'],
+  uploadDate: '2024-01-01T00:00:00.000Z',
+  contentHash: 'hash',
+  version: 2,
+  versions: [{ version: 2, contentHash: 'hash', uploadDate: '2024-01-01T00:00:00.000Z', chunks: 2 }]
+};
+
+const chunks: DocumentChunk[] = [
+  {
+    id: 'doc#v2#0', documentId: 'doc', version: 2, text: 'Name: Widget', source: 'preise.csv', uploadDate: document.uploadDate,
+    section: 'Row 2', fields: { Name: 'Widget', Price: 9.5 }, embedding: [0.1, 0.2], embeddingModel: 'm', pinnedQueries: ['widget']
+  },
+  { id: 'doc#v2#1', documentId: 'doc', version: 2, text: 'Name: Gadget', source: 'preise.csv', uploadDate: document.uploadDate }
+];
+
+function archive(documents: ExportedDocument[], footer = documents.length): string {
+  return [createArchiveHeader('m'), ...documents.map(serializeDocument), createArchiveFooter(footer)].join('\n');
+}
+
+// Archiv mit einem veränderten Chunk als eigene Zeile
+function withChunk(changes: Record<string, unknown>): string {
+  const lines = archive([{ document, chunks }]).split('\n');
+  lines[2] = JSON.stringify({ type: 'chunk', chunk: { ...chunks[0], ...changes } });
+  return lines.join('\n');
+}
+
+describe('parseArchive', () => {
+  it('reads back exported documents and chunks', () => {
+    const parsed = parseArchive(archive([{ document, chunks }]));
+
+    expect(parsed.header).toMatchObject({ format: 'knowledge-base-archive', version: 1, embeddingModel: 'm' });
+    expect(parsed.documents).toEqual([{ document, chunks }]);
+  });
+
+  it('drops unknown fields from documents and chunks', () => {
+    const lines = withChunk({ extra: 'x' }).split('\n');
+    lines[1] = JSON.stringify({ type: 'document', document: { ...document, extra: true } });
+
+    const [parsed] = parseArchive(lines.join('\n')).documents;
+
+    expect(parsed.document).toEqual(document);
+    expect(parsed.chunks[0]).toEqual(chunks[0]);
+  });
+
+  it('rejects fields with the wrong type and names the line', () => {
+    expect(() => parseArchive(withChunk({ embedding: ['0.1'] }))).toThrow('(line 3): chunk doc#v2#0 has an invalid embedding');
+    expect(() => parseArchive(withChunk({ fields: { Name: { nested: true } } }))).toThrow('chunk doc#v2#0 has an invalid fields');
+    expect(() => parseArchive(withChunk({ page: '1' }))).toThrow('chunk doc#v2#0 has an invalid page');
+    expect(() => parseArchive(withChunk({ id: 'other#v2#0' }))).toThrow('does not belong to the active version of document doc');
+
+    const lines = archive([{ document, chunks }]).split('\n');
+    lines[1] = JSON.stringify({ type: 'document', document: { ...document, tags: [1] } });
+    expect(() => parseArchive(lines.join('\n'))).toThrow('(line 2): document doc has invalid tags');
+    lines[1] = JSON.stringify({ type: 'document', document: { ...document, versions: [{ version: 2 }] } });
+    expect(() => parseArchive(lines.join('\n'))).toThrow('document doc must list its active version');
+  });
+
+  it('rejects broken, foreign and incomplete archives', () => {
+    expect(() => parseArchive('')).toThrow('the archive is empty');
+    expect(() => parseArchive('[]')).toThrow('(line 1): expected a JSON object');
+    expect(() => parseArchive('{"type":"header","format":"other"}')).toThrow('expected a knowledge-base-archive header');
+    expect(() => parseArchive(archive([]).replace('"version":1', '"version":2'))).toThrow('unsupported archive version 2');
+    expect(() => parseArchive(archive([{ document, chunks: chunks.slice(0, 1) }]))).toThrow('document doc declares 2 chunks, found 1');
+    expect(() => parseArchive(archive([{ document, chunks }], 2))).toThrow('archive announces 2 documents, found 1');
+    expect(() => parseArchive(archive([{ document, chunks }]).split('\n').slice(0, -1).join('\n'))).toThrow('end line missing');
+  });
+
+  it('requires one embedding dimension per model', () => {
+    const second = { ...document, id: 'doc2', versions: [{ ...document.versions[0], chunks: 1 }] };
+    const content = archive([
+      { document, chunks: chunks.slice(0, 1).concat({ ...chunks[1] }) },
+      { document: second, chunks: [{ ...chunks[0], id: 'doc2#v2#0', documentId: 'doc2', embedding: [1, 2, 3] }] }
+    ]);
+
+    expect(() => parseArchive(content)).toThrow('embedding dimension 3 differs from 2 for model m');
+  });
+});
@@ -0,0 +1,291 @@
+// backend/src/services/knowledgeBaseArchive.ts
+// Portables Archiv der Knowledge Base (Sicherung, Umzug zwischen Umgebungen) als JSONL:
+// eine Kopfzeile, danach je Dokument eine Zeile, gefolgt von den Zeilen seiner Chunks,
+// und eine Schlusszeile mit der Anzahl der Dokumente (erkennt abgeschnittene Archive)
+import { DocumentChunk, DocumentVersion, FieldValue, StoredDocument } from '../types/knowledgeBase';
+import { CHUNKING_STRATEGIES, ResolvedChunkingOptions } from './chunking';
+import { ExportedDocument } from './vectorStore';
+
+export const ARCHIVE_FORMAT = 'knowledge-base-archive';
+// Bei inkompatiblen Änderungen erhöhen; ältere Versionen müssen importierbar bleiben
+export const ARCHIVE_VERSION = 1;
+
+export interface ArchiveHeader {
+  type: 'header';
+  format: string;
+  version: number;
+  exportedAt: string;
+  // Modell des exportierenden Stores; jeder Chunk trägt zusätzlich sein eigenes
+  embeddingModel: string;
+}
+
+interface ArchiveFooter {
+  type: 'end';
+  documents: number;
+}
+
+export interface ParsedArchive {
+  header: ArchiveHeader;
+  documents: ExportedDocument[];
+}
+
+type ArchiveLine =
+  | ArchiveHeader
+  | ArchiveFooter
+  | { type: 'document'; document: StoredDocument }
+  | { type: 'chunk'; chunk: DocumentChunk };
+
+export function createArchiveHeader(embeddingModel: string): string {
+  const header: ArchiveHeader = {
+    type: 'header',
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    embeddingModel
+  };
+  return JSON.stringify(header);
+}
+
+export function createArchiveFooter(documents: number): string {
+  const footer: ArchiveLine = { type: 'end', documents };
+  return JSON.stringify(footer);
+}
+
+// Zeilen eines Dokuments, ohne abschließenden Zeilenumbruch
+export function serializeDocument(exported: ExportedDocument): string {
+  const lines: ArchiveLine[] = [
+    { type: 'document', document: exported.document },
+    ...exported.chunks.map(chunk => ({ type: 'chunk' as const, chunk }))
+  ];
+  return lines.map(line => JSON.stringify(line)).join('\n');
+}
+
+/**
+ * Liest und prüft ein komplettes Archiv, bevor irgendetwas importiert wird.
+ *
+ * Geprüft werden Format und Version, Pflichtfelder, die Zuordnung der Chunks zur
+ * aktiven Version ihres Dokuments, Embeddings (Zahlen, einheitliche Dimension je
+ * Modell) und die Vollständigkeit (Schlusszeile, Anzahl Chunks je Dokument).
+ * Fehler nennen die Zeilennummer.
+ */
+export function parseArchive(content: string): ParsedArchive {
+  let header: ArchiveHeader | null = null;
+  let footer: ArchiveFooter | null = null;
+  const documents: ExportedDocument[] = [];
+  const documentIds = new Set<string>();
+  const dimensions = new Map<string, number>();
+
+  const lines = content.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    const lineNumber = i + 1;
+    const fail = (message: string): never => {
+      throw new Error(`Invalid knowledge base archive (line ${lineNumber}): ${message}`);
+    };
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(lines[i]);
+    } catch {
+      fail('not valid JSON');
+    }
+    const line = isRecord(parsed) ? parsed : fail('expected a JSON object');
+
+    if (!header) {
+      header = validateHeader(line, fail);
+      continue;
+    }
+    if (footer) {
+      fail('content after the end of the archive');
+    }
+
+    switch (line.type) {
+      case 'document': {
+        const document = validateDocument(line.document, fail);
+        if (documentIds.has(document.id)) {
+          fail(`duplicate document id ${document.id}`);
+        }
+        checkChunkCount(documents[documents.length - 1], fail);
+        documentIds.add(document.id);
+        documents.push({ document, chunks: [] });
+        break;
+      }
+
+      case 'chunk': {
+        const current = documents[documents.length - 1];
+        if (!current) {
+          fail('chunk before the first document');
+        }
+        const chunk = validateChunk(line.chunk, current.document, fail);
+        if (chunk.embedding) {
+          const dimension = dimensions.get(chunk.embeddingModel!) ?? chunk.embedding.length;
+          if (chunk.embedding.length !== dimension) {
+            fail(`embedding dimension ${chunk.embedding.length} differs from ${dimension} for model ${chunk.embeddingModel}`);
+          }
+          dimensions.set(chunk.embeddingModel!, dimension);
+        }
+        current.chunks.push(chunk);
+        break;
+      }
+
+      case 'end': {
+        checkChunkCount(documents[documents.length - 1], fail);
+        if (line.documents !== documents.length) {
+          fail(`archive announces ${line.documents} documents, found ${documents.length}`);
+        }
+        footer = { type: 'end', documents: documents.length };
+        break;
+      }
+
+      default:
+        fail(`unknown line type ${JSON.stringify(line.type)}`);
+    }
+  }
+
+  if (!header) {
+    throw new Error('Invalid knowledge base archive: the archive is empty');
+  }
+  if (!footer) {
+    throw new Error('Invalid knowledge base archive: the archive is incomplete (end line missing)');
+  }
+
+  return { header, documents };
+}
+
+function validateHeader(line: Record<string, unknown>, fail: (message: string) => never): ArchiveHeader {
+  if (line.type !== 'header' || line.format !== ARCHIVE_FORMAT) {
+    fail(`expected a ${ARCHIVE_FORMAT} header`);
+  }
+  const { version, exportedAt, embeddingModel } = line;
+  if (!isInteger(version) || version < 1 || version > ARCHIVE_VERSION) {
+    fail(`unsupported archive version ${JSON.stringify(version)}`);
+  }
+  if (typeof exportedAt !== 'string' || typeof embeddingModel !== 'string') {
+    fail('header needs exportedAt and embeddingModel');
+  }
+
+  return { type: 'header', format: ARCHIVE_FORMAT, version, exportedAt, embeddingModel };
+}
+
+function validateDocument(value: unknown, fail: (message: string) => never): StoredDocument {
+  if (!isRecord(value)) fail('document entry is missing');
+  const { id, name, version, uploadDate, contentHash, versions, collection, tags, owner } = value;
+
+  if (typeof id !== 'string' || !id || id.includes('#')) fail('document id must be a non-empty string without "#"');
+  if (typeof name !== 'string' || !name) fail(`document ${id} needs a name`);
+  if (!isInteger(version) || version < 1) fail(`document ${id} needs a positive version`);
+  if (typeof uploadDate !== 'string' || typeof contentHash !== 'string') {
+    fail(`document ${id} needs uploadDate and contentHash`);
+  }
+  if (!Array.isArray(versions) || !versions.every(isDocumentVersion) || !versions.some(v => v.version === version)) {
+    fail(`document ${id} must list its active version`);
+  }
+  if (collection !== undefined && typeof collection !== 'string') fail(`document ${id} has an invalid collection`);
+  if (tags !== undefined && !isStringArray(tags)) fail(`document ${id} has invalid tags`);
+  if (owner !== undefined && typeof owner !== 'string') fail(`document ${id} has an invalid owner`);
+
+  return {
+    id, name, version, uploadDate, contentHash, versions,
+    ...(collection !== undefined && { collection }),
+    ...(tags !== undefined && { tags }),
+    ...(owner !== undefined && { owner })
+  };
+}
+
+function validateChunk(value: unknown, document: StoredDocument, fail: (message: string) => never): DocumentChunk {
+  if (!isRecord(value)) fail('chunk entry is missing');
+  const { id, documentId, version, text, source, uploadDate, embedding, embeddingModel } = value;
+
+  if (documentId !== document.id || version !== document.version ||
+      typeof id !== 'string' || !id.startsWith(`${document.id}#v${document.version}#`)) {
+    fail(`chunk ${String(id)} does not belong to the active version of document ${document.id}`);
+  }
+  if (typeof text !== 'string' || typeof source !== 'string' || typeof uploadDate !== 'string') {
+    fail(`chunk ${id} needs text, source and uploadDate`);
+  }
+  if (embedding !== undefined) {
+    if (!Array.isArray(embedding) || embedding.length === 0 ||
+        !embedding.every((x): x is number => typeof x === 'number' && Number.isFinite(x))) {
+      fail(`chunk ${id} has an invalid embedding`);
+    }
+    if (typeof embeddingModel !== 'string' || !embeddingModel) {
+      fail(`chunk ${id} has an embedding but no embeddingModel`);
+    }
+  } else if (embeddingModel !== undefined && typeof embeddingModel !== 'string') {
+    fail(`chunk ${id} has an invalid embeddingModel`);
+  }
+
+  const chunk: DocumentChunk = { id, documentId: document.id, version: document.version, text, source, uploadDate };
+  if (embedding !== undefined) chunk.embedding = embedding;
+  if (embeddingModel !== undefined) chunk.embeddingModel = embeddingModel;
+
+  // Optionale Felder nur mit dem erwarteten Typ übernehmen, unbekannte Felder fallen weg
+  const copy = <K extends keyof DocumentChunk>(key: K, check: (field: unknown) => field is DocumentChunk[K]) => {
+    const field = value[key];
+    if (field === undefined) return;
+    if (!check(field)) fail(`chunk ${id} has an invalid ${key}`);
+    chunk[key] = field;
+  };
+  copy('page', isInteger);
+  copy('section', isString);
+  copy('links', isStringArray);
+  copy('route', isString);
+  copy('fields', isFieldRecord);
+  copy('disabled', isBoolean);
+  copy('pinnedQueries', isStringArray);
+  copy('editedAt', isString);
+
+  return chunk;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function isBoolean(value: unknown): value is boolean {
+  return typeof value === 'boolean';
+}
+
+function isInteger(value: unknown): value is number {
+  return Number.isInteger(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(isString);
+}
+
+function isFieldRecord(value: unknown): value is Record<string, FieldValue> {
+  return isRecord(value) && Object.values(value).every(field =>
+    typeof field === 'string' || typeof field === 'boolean' || (typeof field === 'number' && Number.isFinite(field)));
+}
+
+function isDocumentVersion(value: unknown): value is DocumentVersion {
+  return isRecord(value) &&
+    isInteger(value.version) &&
+    isInteger(value.chunks) && value.chunks >= 0 &&
+    typeof value.contentHash === 'string' &&
+    typeof value.uploadDate === 'string' &&
+    (value.chunking === undefined || isChunkingOptions(value.chunking));
+}
+
+function isChunkingOptions(value: unknown): value is ResolvedChunkingOptions {
+  return isRecord(value) &&
+    CHUNKING_STRATEGIES.some(strategy => strategy === value.strategy) &&
+    isInteger(value.chunkSize) &&
+    isInteger(value.chunkOverlap);
+}
+
+// Abgeschnittene Archive erkennen: Anzahl Chunks laut aktiver Version
+function checkChunkCount(exported: ExportedDocument | undefined, fail: (message: string) => never): void {
+  if (!exported) return;
+
+  const { document, chunks } = exported;
+  const expected = document.versions.find(v => v.version === document.version)!.chunks;
+  if (chunks.length !== expected) {
+    fail(`document ${document.id} declares ${expected} chunks, found ${chunks.length}`);
+  }
+}
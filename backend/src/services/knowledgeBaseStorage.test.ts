@@ -0,0 +1,178 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FileKnowledgeBaseStorage, getKnowledgeBaseDir } from './knowledgeBaseStorage';
+import { DocumentChunk, StoredDocument } from '../types/knowledgeBase';
+
+function makeDocument(id: string, versions: number[] = [1]): StoredDocument {
+  const active = versions[versions.length - 1];
+  return {
+    id,
+    name: `${id}.txt`,
+    collection: 'general',
+    tags: [],
+    uploadDate: '2024-01-01T00:00:00.000Z',
+    contentHash: `hash-${active}`,
+    version: active,
+    versions: versions.map(version => ({
+      version,
+      contentHash: `hash-${version}`,
+      uploadDate: '2024-01-01T00:00:00.000Z',
+      chunks: 1
+    }))
+  };
+}
+
+function makeChunk(documentId: string, version = 1, n = 0): DocumentChunk {
+  return {
+    id: `${documentId}#v${version}#${n}`,
+    documentId,
+    version,
+    text: `Text ${documentId} v${version} #${n}`,
+    source: `${documentId}.txt`,
+    uploadDate: '2024-01-01T00:00:00.000Z'
+  };
+}
+
+describe('FileKnowledgeBaseStorage', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'kb-storage-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const journalPath = () => path.join(directory, 'knowledge-base.journal');
+  const snapshotPath = () => path.join(directory, 'knowledge-base.json');
+
+  it('loads an empty knowledge base from a new directory', async () => {
+    const snapshot = await new FileKnowledgeBaseStorage(directory).load();
+
+    expect(snapshot.documents).toEqual([]);
+    expect(snapshot.chunks).toEqual([]);
+  });
+
+  it('replays the journal on load and folds it into the snapshot', async () => {
+    const storage = new FileKnowledgeBaseStorage(directory);
+    await storage.appendDocument(makeDocument('a'), [makeChunk('a')]);
+    await storage.updateDocument('a', 'products', ['pricing']);
+
+    const snapshot = await new FileKnowledgeBaseStorage(directory).load();
+
+    expect(snapshot.documents).toHaveLength(1);
+    expect(snapshot.documents[0]).toMatchObject({ id: 'a', collection: 'products', tags: ['pricing'] });
+    expect(snapshot.chunks.map(chunk => chunk.id)).toEqual(['a#v1#0']);
+    expect(await fs.readFile(journalPath(), 'utf-8')).toBe('');
+
+    const reloaded = await new FileKnowledgeBaseStorage(directory).load();
+    expect(reloaded).toEqual(snapshot);
+  });
+
+  it('drops chunks of versions that are no longer retained', async () => {
+    const storage = new FileKnowledgeBaseStorage(directory);
+    await storage.appendDocument(makeDocument('a', [1]), [makeChunk('a', 1)]);
+    await storage.appendDocument(makeDocument('a', [2]), [makeChunk('a', 2)]);
+
+    const snapshot = await new FileKnowledgeBaseStorage(directory).load();
+
+    expect(snapshot.chunks.map(chunk => chunk.id)).toEqual(['a#v2#0']);
+  });
+
+  it('activates a retained version', async () => {
+    const storage = new FileKnowledgeBaseStorage(directory);
+    await storage.appendDocument(makeDocument('a', [1]), [makeChunk('a', 1)]);
+    await storage.appendDocument(makeDocument('a', [1, 2]), [makeChunk('a', 2)]);
+    await storage.activateVersion('a', 1);
+
+    const snapshot = await new FileKnowledgeBaseStorage(directory).load();
+
+    expect(snapshot.documents[0]).toMatchObject({ version: 1, contentHash: 'hash-1' });
+    expect(snapshot.chunks.map(chunk => chunk.id).sort()).toEqual(['a#v1#0', 'a#v2#0']);
+  });
+
+  it('replaces updated chunks and removes deleted documents with their chunks', async () => {
+    const storage = new FileKnowledgeBaseStorage(directory);
+    await storage.appendDocument(makeDocument('a'), [makeChunk('a')]);
+    await storage.appendDocument(makeDocument('b'), [makeChunk('b')]);
+    await storage.updateChunks([{ ...makeChunk('a'), text: 'Edited', disabled: true }]);
+    await storage.removeDocument('b');
+
+    const snapshot = await new FileKnowledgeBaseStorage(directory).load();
+
+    expect(snapshot.documents.map(doc => doc.id)).toEqual(['a']);
+    expect(snapshot.chunks).toEqual([expect.objectContaining({ id: 'a#v1#0', text: 'Edited', disabled: true })]);
+  });
+
+  it('skips a truncated journal line left by an interrupted write', async () => {
+    const storage = new FileKnowledgeBaseStorage(directory);
+    await storage.appendDocument(makeDocument('a'), [makeChunk('a')]);
+    await fs.appendFile(journalPath(), '{"op":"delete","documentId":"a"', 'utf-8');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const snapshot = await new FileKnowledgeBaseStorage(directory).load();
+
+    expect(snapshot.documents.map(doc => doc.id)).toEqual(['a']);
+    expect(warn).toHaveBeenCalledWith('Skipping corrupt knowledge base journal entry');
+    warn.mockRestore();
+  });
+
+  it('writes a snapshot and empties the journal after 50 entries', async () => {
+    const storage = new FileKnowledgeBaseStorage(directory);
+    for (let i = 0; i < 50; i++) {
+      await storage.appendDocument(makeDocument(`doc${i}`), [makeChunk(`doc${i}`)]);
+    }
+
+    expect(await fs.readFile(journalPath(), 'utf-8')).toBe('');
+    const written = JSON.parse(await fs.readFile(snapshotPath(), 'utf-8'));
+    expect(written.documents).toHaveLength(50);
+    expect(written.chunks).toHaveLength(50);
+  });
+
+  it('migrates version 1 snapshots without versions and document ids', async () => {
+    await fs.writeFile(snapshotPath(), JSON.stringify({
+      version: 1,
+      documents: [{ id: 'a', name: 'a.txt', uploadDate: '2024-01-01T00:00:00.000Z' }],
+      chunks: [{ id: 'legacy-0', text: 'Legacy', source: 'a.txt', uploadDate: '2024-01-01T00:00:00.000Z' }]
+    }), 'utf-8');
+
+    const snapshot = await new FileKnowledgeBaseStorage(directory).load();
+
+    expect(snapshot.documents[0]).toMatchObject({ version: 1, versions: [expect.objectContaining({ version: 1, chunks: 1 })] });
+    expect(snapshot.chunks[0]).toMatchObject({ documentId: 'a', version: 1 });
+  });
+
+  it('rejects snapshots written by a newer version', async () => {
+    await fs.writeFile(snapshotPath(), JSON.stringify({ version: 99, documents: [], chunks: [] }), 'utf-8');
+
+    await expect(new FileKnowledgeBaseStorage(directory).load()).rejects.toThrow('Unsupported knowledge base snapshot version: 99');
+  });
+});
+
+describe('getKnowledgeBaseDir', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('requires KNOWLEDGE_BASE_DIR for the local store in production', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('KNOWLEDGE_BASE_DIR', '');
+    vi.stubEnv('VECTOR_STORE', 'local');
+
+    expect(() => getKnowledgeBaseDir()).toThrow('KNOWLEDGE_BASE_DIR is required for VECTOR_STORE=local in production');
+
+    vi.stubEnv('KNOWLEDGE_BASE_DIR', '/srv/knowledge-base');
+    expect(getKnowledgeBaseDir()).toBe('/srv/knowledge-base');
+  });
+
+  it('keeps the temporary directory for the embedding cache next to Pinecone', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('KNOWLEDGE_BASE_DIR', '');
+    vi.stubEnv('VECTOR_STORE', 'pinecone');
+
+    expect(getKnowledgeBaseDir()).toBe(path.join(os.tmpdir(), 'knowledge-base'));
+  });
+});
@@ -0,0 +1,297 @@
+// backend/src/services/knowledgeBaseStorage.ts
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { DocumentChunk, KnowledgeBaseSnapshot, StoredDocument } from '../types/knowledgeBase';
+
+const SNAPSHOT_VERSION = 2;
+const SNAPSHOT_FILE = 'knowledge-base.json';
+const JOURNAL_FILE = 'knowledge-base.journal';
+
+// Nach so vielen Journal-Einträgen wird ein neuer Snapshot geschrieben
+const COMPACT_AFTER_ENTRIES = 50;
+
+type JournalEntry =
+  | { op: 'add'; document: StoredDocument; chunks: DocumentChunk[] }
+  | { op: 'activate'; documentId: string; version: number }
+  | { op: 'updateChunks'; chunks: DocumentChunk[] }
+  | { op: 'updateDocument'; documentId: string; collection: string; tags: string[] }
+  | { op: 'delete'; documentId: string };
+
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException | undefined)?.code === 'ENOENT';
+}
+
+// Ohne KNOWLEDGE_BASE_DIR: lokal ./data. In Produktion (Vercel) ist nur /tmp beschreibbar und wird
+// regelmäßig geleert – dort nur für den Embedding-Cache neben Pinecone, nie für VECTOR_STORE=local
+export function getKnowledgeBaseDir(): string {
+  if (process.env.KNOWLEDGE_BASE_DIR) {
+    return process.env.KNOWLEDGE_BASE_DIR;
+  }
+
+  if (process.env.NODE_ENV !== 'production') {
+    return path.join(__dirname, '../../data');
+  }
+
+  if ((process.env.VECTOR_STORE || 'local').toLowerCase() === 'local') {
+    throw new Error(
+      'KNOWLEDGE_BASE_DIR is required for VECTOR_STORE=local in production: the temporary directory does not persist. ' +
+      'Point it to a persistent volume or use VECTOR_STORE=pinecone.'
+    );
+  }
+
+  return path.join(os.tmpdir(), 'knowledge-base');
+}
+
+/**
+ * Dateibasierte Persistenz für den Vector Store.
+ *
+ * Der Zustand besteht aus einem Snapshot (knowledge-base.json) und einem
+ * Append-only Journal. Jede Änderung wird als eine JSON-Zeile ins Journal
+ * geschrieben; beim Laden wird das Journal auf den Snapshot angewendet.
+ * Snapshots werden über eine temporäre Datei + rename atomar ersetzt.
+ */
+export class FileKnowledgeBaseStorage {
+  private snapshotPath: string;
+  private journalPath: string;
+  private journalEntries = 0;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private directory: string) {
+    this.snapshotPath = path.join(directory, SNAPSHOT_FILE);
+    this.journalPath = path.join(directory, JOURNAL_FILE);
+  }
+
+  getLocation(): string {
+    return this.directory;
+  }
+
+  async load(): Promise<KnowledgeBaseSnapshot> {
+    return this.enqueue(async () => {
+      await fs.mkdir(this.directory, { recursive: true });
+
+      const { snapshot, migrated } = await this.readState();
+
+      // Journal in den Snapshot übernehmen, damit der nächste Start schneller ist
+      if (this.journalEntries > 0 || migrated) {
+        await this.writeSnapshot(snapshot);
+      }
+
+      return snapshot;
+    });
+  }
+
+  // Neues Dokument oder neue Version; Chunks nicht mehr aufgeführter Versionen werden verworfen
+  async appendDocument(document: StoredDocument, chunks: DocumentChunk[]): Promise<void> {
+    await this.append({ op: 'add', document, chunks });
+  }
+
+  async activateVersion(documentId: string, version: number): Promise<void> {
+    await this.append({ op: 'activate', documentId, version });
+  }
+
+  // Vorhandene Chunks gleicher ID ersetzen (z.B. neu berechnete Embeddings)
+  async updateChunks(chunks: DocumentChunk[]): Promise<void> {
+    await this.append({ op: 'updateChunks', chunks });
+  }
+
+  // Sammlung und Tags eines Dokuments ändern (gelten für alle Versionen)
+  async updateDocument(documentId: string, collection: string, tags: string[]): Promise<void> {
+    await this.append({ op: 'updateDocument', documentId, collection, tags });
+  }
+
+  async removeDocument(documentId: string): Promise<void> {
+    await this.append({ op: 'delete', documentId });
+  }
+
+  private async append(entry: JournalEntry): Promise<void> {
+    await this.enqueue(async () => {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.appendFile(this.journalPath, JSON.stringify(entry) + '\n', 'utf-8');
+      this.journalEntries++;
+
+      if (this.journalEntries >= COMPACT_AFTER_ENTRIES) {
+        const { snapshot } = await this.readState();
+        await this.writeSnapshot(snapshot);
+      }
+    });
+  }
+
+  // Snapshot + Journal zum aktuellen Zustand zusammenführen
+  private async readState(): Promise<{ snapshot: KnowledgeBaseSnapshot, migrated: boolean }> {
+    const snapshot = await this.readSnapshot();
+    for (const entry of await this.readJournal()) {
+      this.applyEntry(snapshot, entry);
+    }
+
+    const migrated = this.migrate(snapshot);
+    return { snapshot, migrated };
+  }
+
+  private async readSnapshot(): Promise<KnowledgeBaseSnapshot> {
+    try {
+      const raw = await fs.readFile(this.snapshotPath, 'utf-8');
+      const data = JSON.parse(raw) as KnowledgeBaseSnapshot;
+
+      if (data.version > SNAPSHOT_VERSION) {
+        throw new Error(`Unsupported knowledge base snapshot version: ${data.version}`);
+      }
+
+      return {
+        version: SNAPSHOT_VERSION,
+        documents: Array.isArray(data.documents) ? data.documents : [],
+        chunks: Array.isArray(data.chunks) ? data.chunks : []
+      };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return { version: SNAPSHOT_VERSION, documents: [], chunks: [] };
+      }
+      throw error;
+    }
+  }
+
+  private async readJournal(): Promise<JournalEntry[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.journalPath, 'utf-8');
+    } catch (error) {
+      if (isNotFound(error)) return [];
+      throw error;
+    }
+
+    const entries: JournalEntry[] = [];
+    const lines = raw.split('\n').filter(line => line.trim().length > 0);
+
+    for (const line of lines) {
+      try {
+        entries.push(JSON.parse(line) as JournalEntry);
+      } catch (error) {
+        // Abgebrochener Schreibvorgang (z.B. Absturz) - unvollständige Zeile überspringen
+        console.warn('Skipping corrupt knowledge base journal entry');
+      }
+    }
+
+    this.journalEntries = entries.length;
+    return entries;
+  }
+
+  private async writeSnapshot(snapshot: KnowledgeBaseSnapshot): Promise<void> {
+    const tmpPath = `${this.snapshotPath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify({ ...snapshot, version: SNAPSHOT_VERSION }), 'utf-8');
+    await fs.rename(tmpPath, this.snapshotPath);
+
+    // Erst nach erfolgreichem rename ist das Journal im Snapshot enthalten
+    await fs.writeFile(this.journalPath, '', 'utf-8');
+    this.journalEntries = 0;
+  }
+
+  private applyEntry(snapshot: KnowledgeBaseSnapshot, entry: JournalEntry): void {
+    switch (entry.op) {
+      case 'add': {
+        const { document } = entry;
+        const retained = new Set((document.versions || []).map(v => v.version));
+
+        snapshot.documents = snapshot.documents.filter(doc => doc.id !== document.id);
+        snapshot.documents.push(document);
+        snapshot.chunks = snapshot.chunks.filter(chunk =>
+          chunk.documentId !== document.id || retained.has(chunk.version)
+        );
+        snapshot.chunks.push(...entry.chunks);
+        break;
+      }
+
+      case 'activate': {
+        const doc = snapshot.documents.find(d => d.id === entry.documentId);
+        const version = doc?.versions?.find(v => v.version === entry.version);
+        if (doc && version) {
+          doc.version = version.version;
+          doc.contentHash = version.contentHash;
+          doc.uploadDate = version.uploadDate;
+        }
+        break;
+      }
+
+      case 'updateChunks': {
+        const updated = new Map(entry.chunks.map(chunk => [chunk.id, chunk]));
+        snapshot.chunks = snapshot.chunks.map(chunk => updated.get(chunk.id) || chunk);
+        break;
+      }
+
+      case 'updateDocument': {
+        const doc = snapshot.documents.find(d => d.id === entry.documentId);
+        if (doc) {
+          doc.collection = entry.collection;
+          doc.tags = entry.tags;
+        }
+        break;
+      }
+
+      case 'delete': {
+        const doc = snapshot.documents.find(d => d.id === entry.documentId);
+        snapshot.documents = snapshot.documents.filter(d => d.id !== entry.documentId);
+        if (doc) {
+          // Chunks aus Version-1-Daten haben noch keine documentId
+          snapshot.chunks = snapshot.chunks.filter(chunk =>
+            chunk.documentId ? chunk.documentId !== doc.id : chunk.source !== doc.name
+          );
+        }
+        break;
+      }
+    }
+  }
+
+  // Daten aus Snapshot-Version 1 (ohne Versionen/documentId) ergänzen
+  private migrate(snapshot: KnowledgeBaseSnapshot): boolean {
+    let migrated = false;
+
+    for (const doc of snapshot.documents) {
+      if (!doc.versions) {
+        doc.version = 1;
+        doc.contentHash = doc.contentHash || '';
+        doc.versions = [];
+        migrated = true;
+      }
+    }
+
+    for (const chunk of snapshot.chunks) {
+      if (chunk.documentId) continue;
+
+      // Chunk dem gleichnamigen Dokument mit dem nächstliegenden Upload-Zeitpunkt zuordnen
+      const chunkTime = new Date(chunk.uploadDate).getTime();
+      const owner = snapshot.documents
+        .filter(doc => doc.name === chunk.source)
+        .sort((a, b) =>
+          Math.abs(new Date(a.uploadDate).getTime() - chunkTime) -
+          Math.abs(new Date(b.uploadDate).getTime() - chunkTime)
+        )[0];
+
+      if (owner) {
+        chunk.documentId = owner.id;
+        chunk.version = 1;
+        migrated = true;
+      }
+    }
+
+    snapshot.chunks = snapshot.chunks.filter(chunk => chunk.documentId);
+
+    for (const doc of snapshot.documents) {
+      if (doc.versions.length === 0) {
+        doc.versions = [{
+          version: 1,
+          contentHash: doc.contentHash,
+          uploadDate: doc.uploadDate,
+          chunks: snapshot.chunks.filter(chunk => chunk.documentId === doc.id).length
+        }];
+      }
+    }
+
+    return migrated;
+  }
+
+  // Alle Dateizugriffe nacheinander ausführen, damit sich Schreibvorgänge nicht überlappen
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task, task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,79 @@
+// backend/src/services/localEmbedding.ts
+// Lokales Embedding ohne Netzwerk (Hashing-Trick), Fallback ohne API-Key und für Tests
+import { tokenize } from './bm25Index';
+
+// Version im Namen: geänderte Merkmale oder Gewichte ergeben ein neues Modell (=> Reindex)
+export const LOCAL_EMBEDDING_MODEL = 'local-hashing-v1';
+
+// Gewichte der Merkmalsarten; Zeichen-N-Gramme fangen Flexion und Komposita ab ("preis" ~ "preise")
+const WORD_WEIGHT = 1;
+const BIGRAM_WEIGHT = 0.5;
+const CHAR_NGRAM_WEIGHT = 0.3;
+const CHAR_NGRAM_SIZES = [3, 4];
+
+// Häufige Wörter (Englisch, Deutsch) tragen keine Bedeutung und würden alle Vektoren ähnlich machen
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'has', 'have', 'how',
+  'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our', 'so', 'that', 'the', 'their',
+  'there', 'this', 'to', 'was', 'we', 'what', 'when', 'which', 'who', 'will', 'with', 'you', 'your',
+  'aber', 'als', 'am', 'auch', 'auf', 'aus', 'bei', 'bin', 'bis', 'das', 'dass', 'dem', 'den', 'der', 'des',
+  'die', 'du', 'ein', 'eine', 'einem', 'einen', 'einer', 'es', 'fuer', 'hat', 'ich', 'ihr', 'im', 'ist',
+  'mit', 'nach', 'nicht', 'noch', 'oder', 'sie', 'sind', 'so', 'und', 'uns', 'von', 'vor', 'war', 'was',
+  'welche', 'wie', 'wir', 'wird', 'zu', 'zum', 'zur'
+]);
+
+/**
+ * Bettet Text per Feature Hashing in einen Vektor fester Dimension ein.
+ *
+ * Merkmale sind Wörter (ohne Stoppwörter), Wortpaare und Zeichen-N-Gramme; die
+ * Termfrequenz geht logarithmisch ein. Das Vorzeichen ist das höchste Bit desselben
+ * FNV-Hashs, der Index kommt aus den übrigen 31 Bits; so sind beide unabhängig und
+ * Kollisionen heben sich im Mittel auf. Bewusst ohne korpusabhängige IDF:
+ * gespeicherte Vektoren bleiben beim Hinzufügen von Dokumenten gültig, und die
+ * Gewichtung seltener Begriffe übernimmt in der hybriden Suche BM25.
+ */
+export function localEmbedding(text: string, dimension: number): number[] {
+  const features = new Map<string, { weight: number; count: number }>();
+  const add = (feature: string, weight: number) => {
+    const existing = features.get(feature);
+    if (existing) {
+      existing.count++;
+    } else {
+      features.set(feature, { weight, count: 1 });
+    }
+  };
+
+  const words = tokenize(text).filter(word => !STOPWORDS.has(word));
+  words.forEach((word, i) => {
+    add(`w:${word}`, WORD_WEIGHT);
+    if (i > 0) add(`b:${words[i - 1]} ${word}`, BIGRAM_WEIGHT);
+
+    const padded = `<${word}>`;
+    for (const size of CHAR_NGRAM_SIZES) {
+      for (let start = 0; start + size <= padded.length; start++) {
+        add(`c:${padded.slice(start, start + size)}`, CHAR_NGRAM_WEIGHT);
+      }
+    }
+  });
+
+  const vector = new Array(dimension).fill(0);
+  features.forEach(({ weight, count }, feature) => {
+    const hash = fnv1a(feature);
+    const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+    vector[(hash & 0x7fffffff) % dimension] += sign * weight * (1 + Math.log(count));
+  });
+
+  // Auf Länge 1 normieren; leere Texte ergeben den Nullvektor
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+// 32-Bit FNV-1a über die UTF-16-Codeeinheiten
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,135 @@
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { startPineconeMockServer } from '../mock/pineconeMockServer';
+import { EMBEDDING_DIMENSION, EmbeddingService } from './embeddingService';
+import { LOCAL_EMBEDDING_MODEL } from './localEmbedding';
+import { PineconeVectorStoreService } from './pineconeVectorStoreService';
+import { ExportedDocument } from './vectorStore';
+
+// Dokument mit `count` Chunks und Embeddings der Länge `dimension`, wie es der Export liefert
+function makeExport(id: string, count: number, dimension: number = EMBEDDING_DIMENSION): ExportedDocument {
+  return {
+    document: {
+      id,
+      name: `${id}.txt`,
+      collection: 'general',
+      tags: [],
+      uploadDate: '2024-01-01T00:00:00.000Z',
+      contentHash: `hash-${id}`,
+      version: 1,
+      versions: [{ version: 1, contentHash: `hash-${id}`, uploadDate: '2024-01-01T00:00:00.000Z', chunks: count }]
+    },
+    chunks: Array.from({ length: count }, (_, n) => {
+      const embedding = new Array(dimension).fill(0);
+      embedding[n % dimension] = 1;
+      return {
+        id: `${id}#v1#${n}`,
+        documentId: id,
+        version: 1,
+        text: `Abschnitt ${n} von ${id}`,
+        source: `${id}.txt`,
+        uploadDate: '2024-01-01T00:00:00.000Z',
+        embedding
+      };
+    })
+  };
+}
+
+describe('PineconeVectorStoreService', () => {
+  let server: Server;
+  let indexHost: string;
+  let namespace = 0;
+  let store: PineconeVectorStoreService;
+
+  beforeAll(async () => {
+    server = await startPineconeMockServer(0);
+    indexHost = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    // Lokale Embeddings und kein Datei-Cache, damit der Test ohne Netz und Dateien läuft
+    vi.stubEnv('EMBEDDING_PROVIDER', 'local');
+    vi.stubEnv('EMBEDDING_CACHE_MAX_ENTRIES', '0');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    // Eigener Namespace pro Test, der Mock-Server läuft für alle Tests
+    store = new PineconeVectorStoreService({ apiKey: 'mock', indexName: 'mock', indexHost, namespace: `test-${++namespace}` });
+    await store.initialize();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('adds, finds and deletes a document', async () => {
+    const { documentId, status, chunks } = await store.addDocument(
+      Buffer.from('Lieferzeiten für alle Kunden: Standardversand dauert drei Werktage, Express einen Werktag.'),
+      'lieferzeiten.txt'
+    );
+    expect(status).toBe('created');
+    expect(chunks).toBe(1);
+
+    const { citations } = await store.searchSimilar('Wie lange dauert der Standardversand?', { topK: 3 });
+    expect(citations.map(citation => citation.documentId)).toContain(documentId);
+    expect(await store.getStats()).toMatchObject({ totalDocuments: 1, totalChunks: 1 });
+
+    await store.deleteDocument(documentId);
+
+    expect(await store.listDocuments()).toEqual([]);
+    expect((await store.searchSimilar('Standardversand', { topK: 3 })).citations).toEqual([]);
+    await expect(store.listChunks(documentId)).rejects.toThrow('Document not found');
+  });
+
+  it('collects chunk ids across several list pages', async () => {
+    // Der Mock liefert höchstens 100 IDs pro Seite
+    await store.importDocument(makeExport('paged', 150));
+
+    const chunks = await store.listChunks('paged');
+    expect(chunks).toHaveLength(150);
+    expect(new Set(chunks.map(chunk => chunk.id)).size).toBe(150);
+
+    const exported = await store.exportDocument('paged');
+    expect(exported.chunks.map(chunk => chunk.id)).toEqual(makeExport('paged', 150).chunks.map(chunk => chunk.id));
+
+    await store.deleteDocument('paged');
+    expect(await store.getStats({ allUsers: true })).toMatchObject({ totalDocuments: 0 });
+  });
+
+  it('rejects imports whose embeddings do not match the index dimension', async () => {
+    await expect(store.importDocument(makeExport('short', 2, 8))).rejects.toThrow(
+      `Invalid import: chunk short#v1#0 needs an embedding of dimension ${EMBEDDING_DIMENSION}`
+    );
+
+    const { embedding, ...withoutEmbedding } = makeExport('missing', 1).chunks[0];
+    await expect(store.validateImport({ ...makeExport('missing', 1), chunks: [withoutEmbedding] })).rejects.toThrow('Invalid import');
+
+    expect(await store.listDocuments({ allUsers: true })).toEqual([]);
+  });
+
+  it('keeps chunk edits made while a reindex is embedding', async () => {
+    const legacy = makeExport('legacy', 3);
+    await store.importDocument({ ...legacy, chunks: legacy.chunks.map(chunk => ({ ...chunk, embeddingModel: 'old-model' })) });
+
+    const getEmbeddings = EmbeddingService.prototype.getEmbeddings;
+    vi.spyOn(EmbeddingService.prototype, 'getEmbeddings').mockImplementationOnce(async function (this: EmbeddingService, texts, options) {
+      // Bearbeitung, während der Reindex einbettet
+      await store.updateChunk('legacy#v1#0', { text: 'Neuer Text zu den Lieferzeiten' });
+      await store.updateChunk('legacy#v1#1', { disabled: true });
+      return getEmbeddings.call(this, texts, options);
+    });
+
+    const result = await store.reindexDocument('legacy');
+    const [edited, disabled, untouched] = await store.listChunks('legacy');
+
+    expect(result.chunks).toBe(2);
+    expect(edited).toMatchObject({ text: 'Neuer Text zu den Lieferzeiten', embeddingModel: LOCAL_EMBEDDING_MODEL });
+    expect(disabled).toMatchObject({ text: 'Abschnitt 1 von legacy', disabled: true, embeddingModel: LOCAL_EMBEDDING_MODEL });
+    expect(untouched).toMatchObject({ text: 'Abschnitt 2 von legacy', embeddingModel: LOCAL_EMBEDDING_MODEL });
+  });
+});
@@ -0,0 +1,790 @@
+// backend/src/services/pineconeVectorStoreService.ts
+import { Index, Pinecone } from '@pinecone-database/pinecone';
+import { EMBEDDING_DIMENSION, EmbeddingService } from './embeddingService';
+import { getReranker, getRerankCandidates, isRerankDefault, selectReranked, tryRerank } from './reranker';
+import { expandQuery, getDefaultRetrievalMode } from './queryExpansion';
+import { StageTimer, buildSearchTrace, getSearchLog } from './searchTrace';
+import { MMR_POOL_FACTOR, getDefaultMmrLambda, isMergeAdjacentDefault, mergeAdjacentChunks, selectByMmr } from './diversification';
+import { ChunkingStrategy, ResolvedChunkingOptions, resolveChunkingOptions, sameChunkingOptions } from './chunking';
+import {
+  AddDocumentOptions,
+  AddDocumentResult,
+  ChunkInfo,
+  ChunkSearchOptions,
+  ChunkUpdate,
+  DocumentAccess,
+  DocumentInfo,
+  DocumentUpdate,
+  DocumentVersionInfo,
+  ExportedDocument,
+  FieldFilter,
+  ReindexOptions,
+  SearchOptions,
+  SearchResult,
+  VectorStore,
+  VectorStoreStats
+} from './vectorStore';
+import {
+  DEFAULT_COLLECTION,
+  ScoredChunk,
+  chunkPosition,
+  createChunks,
+  extractText,
+  formatContext,
+  generateDocId,
+  hashContent,
+  isVisibleTo,
+  matchesPinnedQuery,
+  mergeRankings,
+  normalizeCollection,
+  normalizeFieldKey,
+  normalizeFieldValue,
+  normalizeLabel,
+  normalizePinnedQueries,
+  normalizeTags,
+  selectRelevantChunks,
+  toCitations,
+  withPinnedChunks
+} from './documentProcessing';
+import { DocumentChunk, FieldValue } from '../types/knowledgeBase';
+
+export interface PineconeVectorStoreConfig {
+  apiKey: string;
+  indexName: string;
+  // Data-Plane Host, z.B. https://my-index-xxxx.svc.pinecone.io oder der lokale Mock-Server
+  indexHost?: string;
+  namespace: string;
+}
+
+type ChunkMetadata = {
+  documentId: string;
+  version: number;
+  text: string;
+  source: string;
+  page?: number;
+  section?: string;
+  links?: string[];
+  route?: string;
+  // Spaltenwerte als JSON (Originalschreibweise) und normalisiert als field_<spalte> für Metadaten-Filter
+  fields?: string;
+  uploadDate: string;
+  // Fehlt bei Chunks von vor der Erfassung; solche Chunks findet die Suche erst nach einem Reindex
+  embeddingModel?: string;
+  disabled?: boolean;
+  pinnedQueries?: string[];
+  // Gesetzt, solange pinnedQueries nicht leer ist (Pinecone kann nicht nach Listenlänge filtern)
+  pinned?: boolean;
+  editedAt?: string;
+  // Kopie von Sammlung, Tags und Besitzer des Dokuments, damit die Suche danach filtern kann
+  collection?: string;
+  tags?: string[];
+  owner?: string;
+} & { [field: `field_${string}`]: FieldValue };
+
+type DocumentScope = { collection: string; tags: string[]; owner?: string };
+
+// Pinecone-Metadaten sind flach: Chunking-Parameter als einzelne Felder
+type DocumentMetadata = {
+  name: string;
+  // Fehlen bei Dokumenten von vor der Einführung der Sammlungen
+  collection?: string;
+  tags?: string[];
+  // Nur bei privaten Dokumenten
+  owner?: string;
+  uploadDate: string;
+  contentHash: string;
+  version: number;
+  chunks: number;
+  chunkStrategy?: string;
+  chunkSize?: number;
+  chunkOverlap?: number;
+};
+
+// Pinecone begrenzt die Anzahl Records pro Request
+const UPSERT_BATCH_SIZE = 100;
+const FETCH_BATCH_SIZE = 100;
+const DELETE_BATCH_SIZE = 1000;
+// Obergrenze gepinnter Chunks, die pro Suche auf passende Begriffe geprüft werden
+const PINNED_QUERY_LIMIT = 100;
+
+/**
+ * Vector Store auf Basis eines Pinecone-Index.
+ *
+ * Chunks liegen im konfigurierten Namespace mit der ID `<docId>#v<version>#<n>`, damit sie
+ * per Präfix gelistet und gelöscht werden können (funktioniert auch bei Serverless-Indexen).
+ * Die Dokumentliste wird als eigener Record pro Dokument im Namespace `<namespace>__documents` geführt.
+ * Beim Ersetzen eines Dokuments werden die Chunks der Vorversion gelöscht; eine
+ * Versionshistorie mit Rollback gibt es nur im lokalen Vector Store.
+ * Suchanfragen werden per Metadaten-Filter auf Chunks des aktuellen Embedding-Modells beschränkt;
+ * deaktivierte Chunks werden aus den Treffern entfernt, gepinnte über eine zweite Abfrage ergänzt.
+ * Sammlung und Tags stehen zusätzlich an jedem Chunk; Chunks älterer Dokumente ohne diese
+ * Felder findet eine eingeschränkte Suche erst, nachdem das Dokument per updateDocument zugeordnet wurde.
+ * Chunks privater Dokumente tragen den Besitzer; die Suche schließt fremde per Metadaten-Filter aus.
+ */
+export class PineconeVectorStoreService implements VectorStore {
+  private client: Pinecone;
+  private chunkIndex: Index<ChunkMetadata>;
+  private documentIndex: Index<DocumentMetadata>;
+  private embeddingService = new EmbeddingService();
+  private reranker = getReranker();
+  private dimension = EMBEDDING_DIMENSION;
+
+  constructor(private config: PineconeVectorStoreConfig) {
+    this.client = new Pinecone({ apiKey: config.apiKey });
+    this.chunkIndex = this.client
+      .index<ChunkMetadata>(config.indexName, config.indexHost)
+      .namespace(config.namespace);
+    this.documentIndex = this.client
+      .index<DocumentMetadata>(config.indexName, config.indexHost)
+      .namespace(`${config.namespace}__documents`);
+  }
+
+  async initialize() {
+    const stats = await this.chunkIndex.describeIndexStats();
+    this.dimension = stats.dimension || EMBEDDING_DIMENSION;
+
+    console.log(`Vector store initialized (Pinecone index "${this.config.indexName}", namespace "${this.config.namespace}", dimension ${this.dimension})`);
+  }
+
+  async addDocument(input: string | Buffer, originalName: string, options: AddDocumentOptions = {}): Promise<AddDocumentResult> {
+    try {
+      options.onProgress?.({ phase: 'parsing', processedChunks: 0, totalChunks: 0 });
+      const extracted = await extractText(input, originalName, options.extract);
+      const contentHash = hashContent(extracted.text);
+      const chunking = resolveChunkingOptions(originalName, options.chunking);
+
+      // Gleicher Name bzw. Inhalt zählt nur beim selben Besitzer (gemeinsam bzw. derselbe Benutzer)
+      const documents = (await this.fetchDocumentRecords()).filter(doc => doc.metadata.owner === options.owner);
+      const existing = documents.find(doc => doc.metadata.name === originalName);
+
+      if (existing && existing.metadata.contentHash === contentHash &&
+          (!options.chunking || sameChunkingOptions(this.chunkingOf(existing.metadata), chunking))) {
+        console.log(`Document ${originalName} is unchanged (version ${existing.metadata.version})`);
+
+        // Erneuter Upload mit anderer Sammlung bzw. anderen Tags ändert nur diese
+        if (options.collection !== undefined || options.tags !== undefined) {
+          await this.updateDocument(existing.id, { collection: options.collection, tags: options.tags }, { allUsers: true });
+        }
+        return this.toResult(existing.id, existing.metadata, 'unchanged');
+      }
+
+      if (!existing) {
+        const duplicate = documents.find(doc => doc.metadata.contentHash === contentHash);
+        if (duplicate) {
+          console.log(`Document ${originalName} has the same content as ${duplicate.metadata.name}, skipping`);
+          return this.toResult(duplicate.id, duplicate.metadata, 'duplicate');
+        }
+      }
+
+      const docId = existing ? existing.id : generateDocId(originalName);
+      const version = existing ? existing.metadata.version + 1 : 1;
+      const scope = this.resolveScope(this.scopeOf(existing?.metadata || { owner: options.owner }), options);
+      const chunks = await createChunks(
+        extracted,
+        { documentId: docId, version, source: originalName, route: options.route },
+        this.embeddingService,
+        chunking,
+        options
+      );
+      options.signal?.throwIfAborted();
+
+      const records = chunks.map(chunk => ({
+        id: chunk.id,
+        values: chunk.embedding || [],
+        metadata: this.chunkMetadata(chunk, scope)
+      }));
+
+      for (let i = 0; i < records.length; i += UPSERT_BATCH_SIZE) {
+        await this.chunkIndex.upsert(records.slice(i, i + UPSERT_BATCH_SIZE));
+      }
+
+      // Dokument-Record zuletzt schreiben: erst dann gilt das Dokument (bzw. die Version) als vorhanden
+      const metadata: DocumentMetadata = {
+        name: originalName,
+        ...scope,
+        uploadDate: new Date().toISOString(),
+        contentHash,
+        version,
+        chunks: records.length,
+        chunkStrategy: chunking.strategy,
+        chunkSize: chunking.chunkSize,
+        chunkOverlap: chunking.chunkOverlap
+      };
+      await this.documentIndex.upsert([{
+        id: docId,
+        values: this.placeholderVector(),
+        metadata
+      }]);
+
+      if (existing) {
+        await this.deleteChunks(`${docId}#v${existing.metadata.version}#`);
+      }
+
+      console.log(`Document ${originalName} successfully added to Pinecone as version ${version}: ${records.length} chunks created`);
+
+      return this.toResult(docId, metadata, existing ? 'updated' : 'created');
+    } catch (error) {
+      console.error('Error adding document:', error);
+      throw error;
+    }
+  }
+
+  // Nur Vektorsuche: Pinecone hält keinen lexikalischen Index, lexicalWeight wird ignoriert.
+  // Mit Reranking werden mehr Kandidaten abgefragt und vom Reranker neu bewertet;
+  // bei multi-query bzw. HyDE wird je erweiterter Anfrage abgefragt und zusammengeführt.
+  // Für MMR werden die Vektoren der Kandidaten mit abgefragt.
+  async searchSimilar(query: string, options: SearchOptions = {}): Promise<SearchResult> {
+    const topK = options.topK ?? 5;
+    const reranker = (options.rerank ?? isRerankDefault()) ? this.reranker : null;
+    const mmrLambda = Math.min(1, Math.max(0, options.mmrLambda ?? getDefaultMmrLambda()));
+    const poolSize = mmrLambda < 1 ? topK * MMR_POOL_FACTOR : topK;
+    const candidateCount = Math.max(poolSize, reranker ? getRerankCandidates() : 0);
+    const retrievalMode = options.retrievalMode ?? getDefaultRetrievalMode();
+    const timer = new StageTimer();
+    const log = getSearchLog(options.quiet);
+
+    try {
+      log(`Searching Pinecone for: "${query}"`);
+
+      const expanded = await expandQuery(query, retrievalMode, log);
+      timer.lap('expansion');
+
+      const queryEmbeddings = await this.embeddingService.getEmbeddings(expanded.vectorQueries);
+      const filter = {
+        embeddingModel: { $eq: this.embeddingService.model },
+        ...(options.filter && this.fieldFilter(options.filter)),
+        ...(options.collections?.length && { collection: { $in: options.collections.map(normalizeLabel) } }),
+        ...(options.tags?.length && { tags: { $in: options.tags.map(normalizeLabel) } }),
+        ...this.ownerFilter(options.userId)
+      };
+      // Deaktivierte Chunks erst nach der Abfrage entfernen (nicht jeder Chunk hat das Feld)
+      const [pinnedResult, ...results] = await Promise.all([
+        this.chunkIndex.query({
+          vector: queryEmbeddings[0],
+          topK: PINNED_QUERY_LIMIT,
+          includeMetadata: true,
+          filter: { ...filter, pinned: { $eq: true } }
+        }),
+        ...queryEmbeddings.map(vector =>
+          this.chunkIndex.query({ vector, topK: candidateCount * 2, includeMetadata: true, includeValues: mmrLambda < 1, filter }))
+      ]);
+
+      const vectors = new Map<string, number[]>();
+      results.forEach(result => (result.matches || []).forEach(match => {
+        if (match.values?.length) vectors.set(match.id, match.values);
+      }));
+
+      const candidates = mergeRankings(
+        results.map(result => (result.matches || [])
+          .filter(match => match.metadata && !match.metadata.disabled)
+          .slice(0, candidateCount)
+          .map((match): ScoredChunk => ({ chunk: this.toChunk(match.id, match.metadata!), score: match.score || 0 }))),
+        item => item.chunk.id,
+        candidateCount
+      );
+
+      const pinned = (pinnedResult.matches || [])
+        .filter(match => match.metadata && !match.metadata.disabled)
+        .map(match => this.toChunk(match.id, match.metadata!))
+        .filter(chunk => matchesPinnedQuery(chunk, query))
+        .sort((a, b) => chunkPosition(a) - chunkPosition(b));
+
+      timer.lap('retrieval');
+
+      // Fällt der Reranker aus, gilt die Auswahl der ersten Stufe
+      const reranked = reranker ? await tryRerank(reranker, query, candidates, log) : null;
+      timer.lap('rerank');
+
+      const pool = candidates.slice(0, poolSize);
+      const relevant = reranker && reranked
+        ? selectReranked(reranked, reranker.minScore, poolSize)
+        : selectRelevantChunks(pool, this.embeddingService.minRelevance);
+      const selected = selectByMmr(relevant, vectors, topK, mmrLambda);
+
+      const withPinned = withPinnedChunks(selected, pinned);
+      const relevantChunks = (options.mergeAdjacent ?? isMergeAdjacentDefault()) ? mergeAdjacentChunks(withPinned) : withPinned;
+      timer.lap('selection');
+
+      // Ohne lexikalischen Index entspricht die Suche lexicalWeight 0
+      const trace = options.trace
+        ? buildSearchTrace({
+          query, retrievalMode, expanded, lexicalWeight: 0, reranker, reranked, mmrLambda, topK,
+          candidates, considered: reranked || pool, relevant, results: relevantChunks, timer
+        })
+        : undefined;
+
+      if (relevantChunks.length === 0) {
+        log('No relevant chunks found');
+        return { context: '', citations: [], trace };
+      }
+
+      log(`Found ${relevantChunks.length} relevant chunks with scores:`,
+        relevantChunks.map(c => c.score.toFixed(3)));
+
+      return { context: formatContext(relevantChunks), citations: toCitations(relevantChunks), trace };
+    } catch (error) {
+      console.error('Error searching documents:', error);
+      return { context: '', citations: [] };
+    }
+  }
+
+  async listDocuments(access: DocumentAccess = {}): Promise<DocumentInfo[]> {
+    const documents = await this.fetchDocumentRecords();
+    return documents
+      .filter(({ metadata }) => isVisibleTo(metadata, access))
+      .map(({ id, metadata }) => this.toDocumentInfo(id, metadata));
+  }
+
+  // Pinecone hält nur die aktive Version
+  async listVersions(docId: string, access: DocumentAccess = {}): Promise<DocumentVersionInfo[]> {
+    const doc = await this.fetchDocumentRecord(docId, access);
+
+    return [{
+      version: doc.version,
+      contentHash: doc.contentHash,
+      uploadDate: new Date(doc.uploadDate),
+      chunks: doc.chunks,
+      chunking: this.chunkingOf(doc),
+      active: true
+    }];
+  }
+
+  async rollbackDocument(docId: string, version: number, access: DocumentAccess = {}): Promise<DocumentInfo> {
+    const doc = await this.fetchDocumentRecord(docId, access);
+
+    if (version !== doc.version) {
+      throw new Error('Version rollback is not supported by the Pinecone vector store');
+    }
+
+    return this.toDocumentInfo(docId, doc);
+  }
+
+  // Dokument-Record und alle Chunks der aktiven Version mit neuer Sammlung bzw. neuen Tags überschreiben
+  async updateDocument(docId: string, changes: DocumentUpdate, access: DocumentAccess = {}): Promise<DocumentInfo> {
+    const doc = await this.fetchDocumentRecord(docId, access);
+    const scope = this.resolveScope(this.scopeOf(doc), changes);
+
+    const ids = await this.listIds(this.chunkIndex, `${docId}#v${doc.version}#`);
+    for (let i = 0; i < ids.length; i += FETCH_BATCH_SIZE) {
+      const response = await this.chunkIndex.fetch(ids.slice(i, i + FETCH_BATCH_SIZE));
+      const records = Object.values(response.records || {})
+        .filter(record => record.metadata)
+        .map(record => ({
+          id: record.id,
+          values: record.values,
+          metadata: this.chunkMetadata(this.toChunk(record.id, record.metadata!), scope)
+        }));
+      if (records.length > 0) {
+        await this.chunkIndex.upsert(records);
+      }
+    }
+
+    const metadata: DocumentMetadata = { ...doc, ...scope };
+    await this.documentIndex.upsert([{ id: docId, values: this.placeholderVector(), metadata }]);
+
+    console.log(`Document ${doc.name} moved to collection "${scope.collection}" in Pinecone`);
+
+    return this.toDocumentInfo(docId, metadata);
+  }
+
+  // Chunks der aktiven Version mit abweichendem Modell neu einbetten; Metadaten bleiben erhalten
+  async reindexDocument(docId: string, options: ReindexOptions = {}): Promise<AddDocumentResult> {
+    const doc = await this.fetchDocumentRecord(docId);
+    const model = this.embeddingService.model;
+
+    const ids = await this.listIds(this.chunkIndex, `${docId}#v${doc.version}#`);
+    const stale: Array<{ id: string, metadata: ChunkMetadata }> = [];
+    for (let i = 0; i < ids.length; i += FETCH_BATCH_SIZE) {
+      const response = await this.chunkIndex.fetch(ids.slice(i, i + FETCH_BATCH_SIZE));
+      for (const record of Object.values(response.records || {})) {
+        if (record.metadata && record.metadata.embeddingModel !== model) {
+          stale.push({ id: record.id, metadata: record.metadata });
+        }
+      }
+    }
+
+    options.onProgress?.({ phase: 'embedding', processedChunks: 0, totalChunks: stale.length });
+    const embeddings = await this.embeddingService.getEmbeddings(stale.map(record => record.metadata.text), {
+      signal: options.signal,
+      onProgress: (embedded, total) => options.onProgress?.({ phase: 'embedding', processedChunks: embedded, totalChunks: total })
+    });
+    options.signal?.throwIfAborted();
+
+    // Erneut lesen: inzwischen gelöschte oder per updateChunk bearbeitete Chunks nicht überschreiben,
+    // Metadaten vom aktuellen Stand übernehmen
+    const records: Array<{ id: string, values: number[], metadata: ChunkMetadata }> = [];
+    for (let i = 0; i < stale.length; i += FETCH_BATCH_SIZE) {
+      const batch = stale.slice(i, i + FETCH_BATCH_SIZE);
+      const response = await this.chunkIndex.fetch(batch.map(record => record.id));
+      batch.forEach((record, j) => {
+        const current = response.records?.[record.id]?.metadata;
+        if (current && current.text === record.metadata.text && current.embeddingModel === record.metadata.embeddingModel) {
+          records.push({ id: record.id, values: embeddings[i + j], metadata: { ...current, embeddingModel: model } });
+        }
+      });
+    }
+    for (let i = 0; i < records.length; i += UPSERT_BATCH_SIZE) {
+      await this.chunkIndex.upsert(records.slice(i, i + UPSERT_BATCH_SIZE));
+    }
+
+    console.log(`Document ${doc.name} reindexed in Pinecone with ${model}: ${records.length} chunks re-embedded`);
+
+    return { documentId: docId, name: doc.name, version: doc.version, chunks: records.length, status: 'reindexed' };
+  }
+
+  async listChunks(docId: string, access: DocumentAccess = {}): Promise<ChunkInfo[]> {
+    const doc = await this.fetchDocumentRecord(docId, access);
+    const ids = await this.listIds(this.chunkIndex, `${docId}#v${doc.version}#`);
+
+    const chunks: ChunkInfo[] = [];
+    for (let i = 0; i < ids.length; i += FETCH_BATCH_SIZE) {
+      const response = await this.chunkIndex.fetch(ids.slice(i, i + FETCH_BATCH_SIZE));
+      for (const record of Object.values(response.records || {})) {
+        if (record.metadata) chunks.push(this.toChunk(record.id, record.metadata));
+      }
+    }
+
+    return chunks.sort((a, b) => chunkPosition(a) - chunkPosition(b));
+  }
+
+  // Ohne lexikalischen Index: Vektorsuche ohne Relevanzschwelle
+  async searchChunks(query: string, options: ChunkSearchOptions = {}): Promise<Array<ChunkInfo & { score: number }>> {
+    if (options.documentId) {
+      await this.fetchDocumentRecord(options.documentId, { userId: options.userId });
+    }
+
+    const result = await this.chunkIndex.query({
+      vector: await this.embeddingService.getEmbedding(query),
+      topK: options.limit ?? 20,
+      includeMetadata: true,
+      filter: {
+        embeddingModel: { $eq: this.embeddingService.model },
+        ...(options.documentId && { documentId: { $eq: options.documentId } }),
+        ...this.ownerFilter(options.userId)
+      }
+    });
+
+    return (result.matches || [])
+      .filter(match => match.metadata)
+      .map(match => ({ ...this.toChunk(match.id, match.metadata!), score: match.score || 0 }));
+  }
+
+  async updateChunk(chunkId: string, changes: ChunkUpdate, access: DocumentAccess = {}): Promise<ChunkInfo> {
+    const response = await this.chunkIndex.fetch([chunkId]);
+    const record = response.records?.[chunkId];
+    if (!record?.metadata || !isVisibleTo(record.metadata, access)) {
+      throw new Error('Chunk not found');
+    }
+
+    const chunk: DocumentChunk = { ...this.toChunk(chunkId, record.metadata), embedding: record.values };
+
+    if (changes.text !== undefined && changes.text !== chunk.text) {
+      chunk.text = changes.text;
+      chunk.embedding = await this.embeddingService.getEmbedding(changes.text);
+      chunk.embeddingModel = this.embeddingService.model;
+      chunk.editedAt = new Date().toISOString();
+    }
+
+    if (changes.disabled !== undefined) {
+      chunk.disabled = changes.disabled || undefined;
+    }
+
+    if (changes.pinnedQueries !== undefined) {
+      const pinnedQueries = normalizePinnedQueries(changes.pinnedQueries);
+      chunk.pinnedQueries = pinnedQueries.length > 0 ? pinnedQueries : undefined;
+    }
+
+    // Upsert ersetzt die Metadaten vollständig, entfernte Felder verschwinden damit
+    await this.chunkIndex.upsert([{
+      id: chunkId,
+      values: chunk.embedding || [],
+      metadata: this.chunkMetadata(chunk, this.scopeOf(record.metadata))
+    }]);
+
+    console.log(`Chunk ${chunkId} updated in Pinecone`);
+
+    const { embedding, ...info } = chunk;
+    return info;
+  }
+
+  async deleteDocument(docId: string, access: DocumentAccess = {}): Promise<void> {
+    const doc = await this.fetchDocumentRecord(docId, access);
+
+    await this.deleteChunks(`${docId}#`);
+    await this.documentIndex.deleteOne(docId);
+
+    console.log(`Document ${doc.name} deleted from Pinecone`);
+  }
+
+  async exportDocument(docId: string): Promise<ExportedDocument> {
+    const doc = await this.fetchDocumentRecord(docId);
+    const ids = await this.listIds(this.chunkIndex, `${docId}#v${doc.version}#`);
+
+    const chunks: DocumentChunk[] = [];
+    for (let i = 0; i < ids.length; i += FETCH_BATCH_SIZE) {
+      const response = await this.chunkIndex.fetch(ids.slice(i, i + FETCH_BATCH_SIZE));
+      for (const record of Object.values(response.records || {})) {
+        if (record.metadata) chunks.push({ ...this.toChunk(record.id, record.metadata), embedding: record.values });
+      }
+    }
+
+    const { collection, tags, owner } = this.scopeOf(doc);
+    return {
+      document: {
+        id: docId,
+        name: doc.name,
+        collection,
+        tags,
+        ...(owner && { owner }),
+        uploadDate: doc.uploadDate,
+        contentHash: doc.contentHash,
+        version: doc.version,
+        versions: [{
+          version: doc.version,
+          contentHash: doc.contentHash,
+          uploadDate: doc.uploadDate,
+          chunks: doc.chunks,
+          chunking: this.chunkingOf(doc)
+        }]
+      },
+      chunks: chunks.sort((a, b) => chunkPosition(a) - chunkPosition(b))
+    };
+  }
+
+  // Pinecone speichert nur Vektoren in der Dimension des Index, Chunks ohne Embedding sind nicht möglich
+  async validateImport(exported: ExportedDocument): Promise<void> {
+    const invalid = exported.chunks.find(chunk => chunk.embedding?.length !== this.dimension);
+    if (invalid) {
+      throw new Error(`Invalid import: chunk ${invalid.id} needs an embedding of dimension ${this.dimension}`);
+    }
+  }
+
+  async importDocument(exported: ExportedDocument): Promise<DocumentInfo> {
+    const { document, chunks } = exported;
+
+    await this.validateImport(exported);
+    const existing = await this.documentIndex.fetch([document.id]);
+    if (existing.records?.[document.id]) {
+      throw new Error(`Document already exists: ${document.id}`);
+    }
+
+    const scope = this.resolveScope(this.scopeOf({ owner: document.owner }), {
+      collection: document.collection,
+      tags: document.tags
+    });
+    const records = chunks.map(chunk => ({
+      id: chunk.id,
+      values: chunk.embedding!,
+      metadata: this.chunkMetadata(chunk, scope)
+    }));
+    for (let i = 0; i < records.length; i += UPSERT_BATCH_SIZE) {
+      await this.chunkIndex.upsert(records.slice(i, i + UPSERT_BATCH_SIZE));
+    }
+
+    const chunking = document.versions.find(v => v.version === document.version)?.chunking;
+    const metadata: DocumentMetadata = {
+      name: document.name,
+      ...scope,
+      uploadDate: document.uploadDate,
+      contentHash: document.contentHash,
+      version: document.version,
+      chunks: records.length,
+      ...(chunking && {
+        chunkStrategy: chunking.strategy,
+        chunkSize: chunking.chunkSize,
+        chunkOverlap: chunking.chunkOverlap
+      })
+    };
+    await this.documentIndex.upsert([{ id: document.id, values: this.placeholderVector(), metadata }]);
+
+    console.log(`Document ${document.name} imported into Pinecone: ${records.length} chunks`);
+
+    return this.toDocumentInfo(document.id, metadata);
+  }
+
+  // Nur über die sichtbaren Dokumente
+  async getStats(access: DocumentAccess = {}): Promise<VectorStoreStats> {
+    const documents = (await this.fetchDocumentRecords()).filter(({ metadata }) => isVisibleTo(metadata, access));
+
+    return {
+      totalDocuments: documents.length,
+      totalChunks: documents.reduce((sum, doc) => sum + doc.metadata.chunks, 0),
+      embeddingModel: this.embeddingService.model,
+      documents: documents.map(({ id, metadata }) => ({ ...this.toDocumentInfo(id, metadata), chunks: metadata.chunks }))
+    };
+  }
+
+  // Private Dokumente anderer Benutzer gelten als nicht vorhanden (ohne access: alle, für interne Aufrufe)
+  private async fetchDocumentRecord(docId: string, access: DocumentAccess = { allUsers: true }): Promise<DocumentMetadata> {
+    const response = await this.documentIndex.fetch([docId]);
+    const metadata = response.records?.[docId]?.metadata;
+    if (!metadata || !isVisibleTo(metadata, access)) {
+      throw new Error('Document not found');
+    }
+    return this.withDefaults(metadata);
+  }
+
+  // Gemeinsame Chunks haben kein owner-Feld
+  private ownerFilter(userId: string | undefined) {
+    return userId
+      ? { $or: [{ owner: { $exists: false } }, { owner: { $eq: userId } }] }
+      : { owner: { $exists: false } };
+  }
+
+  private async deleteChunks(prefix: string): Promise<void> {
+    const chunkIds = await this.listIds(this.chunkIndex, prefix);
+    for (let i = 0; i < chunkIds.length; i += DELETE_BATCH_SIZE) {
+      await this.chunkIndex.deleteMany(chunkIds.slice(i, i + DELETE_BATCH_SIZE));
+    }
+  }
+
+  // Dokument-Records, die vor der Versionierung angelegt wurden
+  private withDefaults(metadata: DocumentMetadata): DocumentMetadata {
+    return { ...metadata, contentHash: metadata.contentHash || '', version: metadata.version || 1 };
+  }
+
+  private chunkingOf(metadata: DocumentMetadata): ResolvedChunkingOptions | undefined {
+    if (!metadata.chunkStrategy || metadata.chunkSize === undefined || metadata.chunkOverlap === undefined) {
+      return undefined;
+    }
+    return {
+      strategy: metadata.chunkStrategy as ChunkingStrategy,
+      chunkSize: metadata.chunkSize,
+      chunkOverlap: metadata.chunkOverlap
+    };
+  }
+
+  private toDocumentInfo(id: string, metadata: DocumentMetadata): DocumentInfo {
+    return {
+      id,
+      name: metadata.name,
+      uploadDate: new Date(metadata.uploadDate),
+      version: metadata.version,
+      ...this.scopeOf(metadata)
+    };
+  }
+
+  private scopeOf(metadata: { collection?: string; tags?: string[]; owner?: string }): DocumentScope {
+    return {
+      collection: metadata.collection || DEFAULT_COLLECTION,
+      tags: metadata.tags || [],
+      ...(metadata.owner && { owner: metadata.owner })
+    };
+  }
+
+  // Nicht angegebene Felder vom bisherigen Stand übernehmen
+  private resolveScope(current: DocumentScope, changes: DocumentUpdate): DocumentScope {
+    return {
+      ...current,
+      collection: changes.collection !== undefined ? normalizeCollection(changes.collection) : current.collection,
+      tags: changes.tags !== undefined ? normalizeTags(changes.tags) : current.tags
+    };
+  }
+
+  // Pinecone erlaubt keine null-Werte in Metadaten: fehlende Angaben weglassen
+  private chunkMetadata(chunk: DocumentChunk, scope: DocumentScope): ChunkMetadata {
+    return {
+      documentId: chunk.documentId,
+      version: chunk.version,
+      text: chunk.text,
+      source: chunk.source,
+      ...(chunk.page !== undefined && { page: chunk.page }),
+      ...(chunk.section !== undefined && { section: chunk.section }),
+      ...(chunk.links && { links: chunk.links }),
+      ...(chunk.route && { route: chunk.route }),
+      ...(chunk.fields && this.fieldMetadata(chunk.fields)),
+      uploadDate: chunk.uploadDate,
+      ...(chunk.embeddingModel && { embeddingModel: chunk.embeddingModel }),
+      ...(chunk.disabled && { disabled: true }),
+      ...(chunk.pinnedQueries?.length && { pinnedQueries: chunk.pinnedQueries, pinned: true }),
+      ...(chunk.editedAt && { editedAt: chunk.editedAt }),
+      collection: scope.collection,
+      tags: scope.tags,
+      ...(scope.owner && { owner: scope.owner })
+    };
+  }
+
+  private toChunk(id: string, metadata: ChunkMetadata): ChunkInfo {
+    return {
+      id,
+      documentId: metadata.documentId,
+      version: metadata.version,
+      text: metadata.text,
+      source: metadata.source,
+      page: metadata.page,
+      section: metadata.section,
+      links: metadata.links,
+      route: metadata.route,
+      fields: metadata.fields ? JSON.parse(metadata.fields) : undefined,
+      uploadDate: metadata.uploadDate,
+      embeddingModel: metadata.embeddingModel,
+      disabled: metadata.disabled,
+      pinnedQueries: metadata.pinnedQueries,
+      editedAt: metadata.editedAt
+    };
+  }
+
+  private fieldMetadata(fields: Record<string, FieldValue>): Partial<ChunkMetadata> {
+    const metadata: Partial<ChunkMetadata> = { fields: JSON.stringify(fields) };
+    for (const [key, value] of Object.entries(fields)) {
+      metadata[`field_${normalizeFieldKey(key)}`] = normalizeFieldValue(value);
+    }
+    return metadata;
+  }
+
+  // Mehrere Bedingungen verknüpft Pinecone mit UND
+  private fieldFilter(filter: FieldFilter): Record<string, { $eq: FieldValue }> {
+    return Object.fromEntries(Object.entries(filter).map(([key, value]) =>
+      [`field_${normalizeFieldKey(key)}`, { $eq: normalizeFieldValue(value) }]
+    ));
+  }
+
+  private toResult(docId: string, metadata: DocumentMetadata, status: AddDocumentResult['status']): AddDocumentResult {
+    return {
+      documentId: docId,
+      name: metadata.name,
+      version: metadata.version,
+      chunks: metadata.chunks,
+      status
+    };
+  }
+
+  private async fetchDocumentRecords(): Promise<Array<{ id: string, metadata: DocumentMetadata }>> {
+    const ids = await this.listIds(this.documentIndex);
+    const documents: Array<{ id: string, metadata: DocumentMetadata }> = [];
+
+    for (let i = 0; i < ids.length; i += FETCH_BATCH_SIZE) {
+      const response = await this.documentIndex.fetch(ids.slice(i, i + FETCH_BATCH_SIZE));
+      for (const record of Object.values(response.records || {})) {
+        if (record.metadata) {
+          documents.push({ id: record.id, metadata: this.withDefaults(record.metadata) });
+        }
+      }
+    }
+
+    return documents.sort((a, b) => a.metadata.uploadDate.localeCompare(b.metadata.uploadDate));
+  }
+
+  // Alle IDs eines Namespace (optional mit Präfix) seitenweise einsammeln
+  private async listIds(index: Index<ChunkMetadata> | Index<DocumentMetadata>, prefix?: string): Promise<string[]> {
+    const ids: string[] = [];
+    let paginationToken: string | undefined;
+
+    do {
+      const page = await index.listPaginated({ prefix, paginationToken });
+      for (const item of page.vectors || []) {
+        if (item.id) ids.push(item.id);
+      }
+      paginationToken = page.pagination?.next;
+    } while (paginationToken);
+
+    return ids;
+  }
+
+  // Dokument-Records brauchen einen Vektor in Index-Dimension; Nullvektoren lehnt Pinecone ab
+  private placeholderVector(): number[] {
+    const vector = new Array(this.dimension).fill(0);
+    vector[0] = 1;
+    return vector;
+  }
+}
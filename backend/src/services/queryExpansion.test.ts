@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { QueryExpander } from './queryExpansion';
+
+// Chat-Completion von Mistral mit festem Antworttext
+function stubCompletion(content: string) {
+  const fetch = vi.fn(async (_url: string, _init: RequestInit) => new Response(JSON.stringify({ choices: [{ message: { content } }] }), { status: 200 }));
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+describe('QueryExpander', () => {
+  const expander = new QueryExpander('test-key', 'mistral-small-latest', 3, 1000);
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('strips numbering and quotes from paraphrases and keeps the original query first', async () => {
+    stubCompletion('1. "Lieferzeit Standardversand"\n2) \'Wie lange dauert der Versand?\'\n- Versanddauer');
+
+    const expanded = await expander.expand('Lieferzeiten?', 'multi-query');
+
+    expect(expanded.vectorQueries).toEqual(['Lieferzeiten?', 'Lieferzeit Standardversand', 'Wie lange dauert der Versand?', 'Versanddauer']);
+    expect(expanded.lexicalQueries).toEqual(expanded.vectorQueries);
+  });
+
+  it('drops duplicates of the original query and caps the paraphrases at the configured count', async () => {
+    const fetch = stubCompletion('lieferzeiten?\nVersanddauer\n\nVERSANDDAUER\nZustellzeit\nLieferfrist\nTransportzeit');
+
+    const expanded = await expander.expand('Lieferzeiten?', 'multi-query');
+
+    expect(expanded.vectorQueries).toEqual(['Lieferzeiten?', 'Versanddauer', 'Zustellzeit', 'Lieferfrist']);
+    const body = JSON.parse(String(fetch.mock.calls[0][1].body));
+    expect(body).toMatchObject({ model: 'mistral-small-latest', max_tokens: 180 });
+  });
+
+  it('searches HyDE drafts by vector and the question lexically', async () => {
+    stubCompletion('  Der Standardversand dauert drei Werktage.  ');
+
+    await expect(expander.expand('Lieferzeiten?', 'hyde')).resolves.toEqual({
+      vectorQueries: ['Der Standardversand dauert drei Werktage.'],
+      lexicalQueries: ['Lieferzeiten?']
+    });
+  });
+
+  it('falls back to the original query for an empty HyDE draft', async () => {
+    stubCompletion('   ');
+
+    await expect(expander.expand('Lieferzeiten?', 'hyde')).resolves.toEqual({
+      vectorQueries: ['Lieferzeiten?'],
+      lexicalQueries: ['Lieferzeiten?']
+    });
+  });
+
+  it('falls back to standard retrieval when the completion fails', async () => {
+    vi.stubEnv('MISTRAL_API_KEY', 'test-key');
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 503, statusText: 'Service Unavailable' })));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    // getQueryExpander merkt sich den Expander, daher frisch geladenes Modul mit gesetztem Api-Key
+    vi.resetModules();
+    const { expandQuery } = await import('./queryExpansion');
+
+    await expect(expandQuery('Lieferzeiten?', 'hyde', () => {})).resolves.toEqual({
+      vectorQueries: ['Lieferzeiten?'],
+      lexicalQueries: ['Lieferzeiten?']
+    });
+    expect(warn).toHaveBeenCalledWith('Query expansion (hyde) failed, using standard retrieval:', expect.any(Error));
+  });
+});
@@ -0,0 +1,150 @@
+// backend/src/services/queryExpansion.ts
+// Alternative Suchanfragen für kurze oder vage Fragen, die schlecht zu langen Chunks passen:
+// Umformulierungen, deren Treffer zusammengeführt werden (multi-query), bzw. ein
+// hypothetischer Antworttext, dessen Embedding näher an den Dokumenten liegt (HyDE)
+import type { SearchLog } from './searchTrace';
+
+export type RetrievalMode = 'standard' | 'multi-query' | 'hyde';
+
+export const RETRIEVAL_MODES: RetrievalMode[] = ['standard', 'multi-query', 'hyde'];
+
+// Texte, mit denen die Vektor- bzw. die lexikalische Suche ausgeführt wird
+export interface ExpandedQuery {
+  vectorQueries: string[];
+  lexicalQueries: string[];
+}
+
+// Per Chat-Completion des Chat-Providers (Mistral)
+export class QueryExpander {
+  constructor(
+    private apiKey: string,
+    private model: string,
+    private paraphraseCount: number,
+    private timeoutMs: number
+  ) {}
+
+  async expand(query: string, mode: RetrievalMode): Promise<ExpandedQuery> {
+    switch (mode) {
+      case 'multi-query': {
+        // Ursprüngliche Anfrage immer mitsuchen, Umformulierungen ergänzen nur
+        const queries = [query, ...await this.paraphrase(query)];
+        return { vectorQueries: queries, lexicalQueries: queries };
+      }
+
+      case 'hyde':
+        // BM25 sucht weiter mit der Frage: erfundene Details im Entwurf sollen keine Wörter beisteuern
+        return { vectorQueries: [await this.draftAnswer(query)], lexicalQueries: [query] };
+
+      default:
+        return { vectorQueries: [query], lexicalQueries: [query] };
+    }
+  }
+
+  private async paraphrase(query: string): Promise<string[]> {
+    const content = await this.complete(
+      `Generate ${this.paraphraseCount} different search queries for a knowledge base that together cover the user's question. ` +
+        'Vary the wording, use synonyms and spell out abbreviations; keep the language of the question. ' +
+        'Reply with one query per line, without numbering or explanation.',
+      query,
+      60 * this.paraphraseCount
+    );
+
+    const seen = new Set([query.trim().toLowerCase()]);
+    return content
+      .split('\n')
+      .map(line => line.replace(/^\s*(?:[-*]|\d+[.)])\s*/, '').replace(/^["']+|["']+$/g, '').trim())
+      .filter(line => {
+        const key = line.toLowerCase();
+        if (!line || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, this.paraphraseCount);
+  }
+
+  private async draftAnswer(query: string): Promise<string> {
+    const draft = await this.complete(
+      'Write a short passage (3-4 sentences) as it might appear in a company document that answers the question. ' +
+        'Use the language of the question. Write only the passage.',
+      query,
+      200
+    );
+    return draft.trim() || query;
+  }
+
+  private async complete(system: string, user: string, maxTokens: number): Promise<string> {
+    const response = await fetch('https://api.mistral.ai/v1/chat/completions', {
+      method: 'POST',
+      signal: AbortSignal.timeout(this.timeoutMs),
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`
+      },
+      body: JSON.stringify({
+        model: this.model,
+        temperature: 0.3,
+        max_tokens: maxTokens,
+        messages: [
+          { role: 'system', content: system },
+          { role: 'user', content: user }
+        ]
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Mistral API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
+    return data.choices?.[0]?.message?.content || '';
+  }
+}
+
+let sharedExpander: QueryExpander | null | undefined;
+
+// Nur mit Mistral API-Key verfügbar
+export function getQueryExpander(): QueryExpander | null {
+  if (sharedExpander === undefined) {
+    const apiKey = process.env.MISTRAL_API_KEY || '';
+    sharedExpander = apiKey
+      ? new QueryExpander(
+        apiKey,
+        process.env.QUERY_EXPANSION_MODEL || 'mistral-small-latest',
+        Math.min(5, Math.max(1, Number(process.env.MULTI_QUERY_COUNT) || 3)),
+        Number(process.env.QUERY_EXPANSION_TIMEOUT_MS) || 10000
+      )
+      : null;
+  }
+  return sharedExpander;
+}
+
+// Modus ohne Angabe in der Anfrage (RETRIEVAL_MODE), Standard: standard
+export function getDefaultRetrievalMode(): RetrievalMode {
+  const configured = (process.env.RETRIEVAL_MODE || 'standard').toLowerCase() as RetrievalMode;
+  return RETRIEVAL_MODES.includes(configured) ? configured : 'standard';
+}
+
+export function isRetrievalMode(value: unknown): value is RetrievalMode {
+  return RETRIEVAL_MODES.includes(value as RetrievalMode);
+}
+
+// Ohne LLM oder bei Fehlern wird mit der ursprünglichen Anfrage gesucht
+export async function expandQuery(query: string, mode: RetrievalMode, log: SearchLog = console.log): Promise<ExpandedQuery> {
+  const standard = { vectorQueries: [query], lexicalQueries: [query] };
+  if (mode === 'standard') return standard;
+
+  const expander = getQueryExpander();
+  if (!expander) {
+    console.warn(`Retrieval mode ${mode} requires MISTRAL_API_KEY, using standard retrieval`);
+    return standard;
+  }
+
+  try {
+    const expanded = await expander.expand(query, mode);
+    log(`Expanded query (${mode}):`, expanded.vectorQueries);
+    return expanded;
+  } catch (error) {
+    console.warn(`Query expansion (${mode}) failed, using standard retrieval:`, error);
+    return standard;
+  }
+}
@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// getReranker merkt sich den Reranker, daher für jeden Test ein frisch geladenes Modul
+async function loadReranker() {
+  vi.resetModules();
+  return import('./reranker');
+}
+
+describe('getReranker', () => {
+  beforeEach(() => {
+    vi.stubEnv('MISTRAL_API_KEY', '');
+    vi.stubEnv('RERANKER', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('uses a separate minimum score per provider', async () => {
+    vi.stubEnv('RERANKER', 'cross-encoder');
+    vi.stubEnv('RERANKER_URL', 'http://localhost:8080');
+    vi.stubEnv('RERANK_MIN_SCORE_LLM', '0.7');
+    const { getMinRerankScore, getReranker } = await loadReranker();
+
+    expect(getReranker()?.minScore).toBe(0.3);
+    expect(getMinRerankScore('llm')).toBe(0.7);
+
+    vi.stubEnv('RERANK_MIN_SCORE_CROSS_ENCODER', '0.05');
+    expect(getMinRerankScore('cross-encoder')).toBe(0.05);
+  });
+
+  it('logs a misconfiguration and disables reranking instead of throwing', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('RERANKER', 'llm');
+    const { getReranker } = await loadReranker();
+
+    expect(getReranker()).toBeNull();
+    expect(error).toHaveBeenCalledWith('RERANKER=llm requires MISTRAL_API_KEY, reranking is disabled');
+  });
+
+  it('rejects unknown providers the same way', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('RERANKER', 'colbert');
+    const { getReranker } = await loadReranker();
+
+    expect(getReranker()).toBeNull();
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('Unknown reranker: colbert'));
+  });
+});
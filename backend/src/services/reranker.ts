@@ -0,0 +1,235 @@
+// backend/src/services/reranker.ts
+// Zweite Suchstufe: ein breiterer Kandidatensatz der Vektor- bzw. Hybridsuche wird
+// von einem Reranker gemeinsam mit der Anfrage bewertet und neu sortiert
+import { DocumentChunk } from '../types/knowledgeBase';
+import { ScoredChunk } from './documentProcessing';
+import type { SearchLog } from './searchTrace';
+
+export type RerankerProvider = 'llm' | 'cross-encoder';
+
+// Mindest-Relevanz je Reranker auf dessen eigener Skala (0..1); ersetzt den heuristischen Threshold.
+// Die Skalen sind nicht vergleichbar, daher je Provider einstellbar (RERANK_MIN_SCORE_LLM bzw.
+// RERANK_MIN_SCORE_CROSS_ENCODER); mit npm run eval:retrieval an eigenen Daten nachjustieren
+const MIN_RERANK_SCORE: Record<RerankerProvider, { env: string; value: number }> = {
+  // Aus der Skala im Prompt abgeleitet: 5 von 10 heißt "enthält einen Teil der Antwort"
+  llm: { env: 'RERANK_MIN_SCORE_LLM', value: 0.5 },
+  // Sigmoid-Scores der ms-marco- bzw. bge-Reranker: unpassende Passagen liegen meist unter 0.1,
+  // passende über 0.5; 0.3 lässt teilweise passende Passagen noch zu
+  'cross-encoder': { env: 'RERANK_MIN_SCORE_CROSS_ENCODER', value: 0.3 }
+};
+
+// Länge der Passagen im Prompt bzw. für den Cross-Encoder
+const MAX_PASSAGE_LENGTH = 1000;
+
+export interface Reranker {
+  readonly name: string;
+  readonly minScore: number;
+  // Relevanz je Text (0..1), in der Reihenfolge der Eingabe
+  score(query: string, texts: string[]): Promise<number[]>;
+}
+
+// Bewertung per Chat-Completion des Chat-Providers (Mistral)
+export class LlmReranker implements Reranker {
+  readonly name: string;
+
+  constructor(
+    private apiKey: string,
+    private model: string,
+    readonly minScore: number,
+    private timeoutMs: number
+  ) {
+    this.name = `llm:${model}`;
+  }
+
+  async score(query: string, texts: string[]): Promise<number[]> {
+    const passages = texts
+      .map((text, i) => `[${i + 1}] ${truncate(text)}`)
+      .join('\n\n');
+
+    const response = await fetch('https://api.mistral.ai/v1/chat/completions', {
+      method: 'POST',
+      signal: AbortSignal.timeout(this.timeoutMs),
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`
+      },
+      body: JSON.stringify({
+        model: this.model,
+        temperature: 0,
+        max_tokens: 20 + texts.length * 6,
+        response_format: { type: 'json_object' },
+        messages: [
+          {
+            role: 'system',
+            content: 'You rate how well passages answer a search query. ' +
+              'Score each passage from 0 (unrelated) to 10 (directly answers the query); ' +
+              '5 means it contains part of the answer. ' +
+              `Reply only with JSON of the form {"scores": [..]} containing exactly ${texts.length} integers, one per passage in the given order.`
+          },
+          { role: 'user', content: `Query: ${query}\n\nPassages:\n${passages}` }
+        ]
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Mistral API error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
+    const content = data.choices?.[0]?.message?.content || '';
+
+    let scores: unknown;
+    try {
+      scores = JSON.parse(content).scores;
+    } catch {
+      scores = undefined;
+    }
+    if (!Array.isArray(scores) || scores.length !== texts.length || scores.some(s => typeof s !== 'number')) {
+      throw new Error(`Unexpected reranking response: ${content.slice(0, 200)}`);
+    }
+
+    return scores.map(s => Math.min(10, Math.max(0, s)) / 10);
+  }
+}
+
+// Lokaler Cross-Encoder hinter einem Rerank-Endpunkt im Format von Hugging Face
+// text-embeddings-inference: POST /rerank {query, texts} => [{index, score}]
+export class CrossEncoderReranker implements Reranker {
+  readonly name: string;
+
+  constructor(
+    private url: string,
+    readonly minScore: number,
+    private timeoutMs: number
+  ) {
+    this.name = `cross-encoder:${url}`;
+  }
+
+  async score(query: string, texts: string[]): Promise<number[]> {
+    const response = await fetch(`${this.url.replace(/\/+$/, '')}/rerank`, {
+      method: 'POST',
+      signal: AbortSignal.timeout(this.timeoutMs),
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query, texts: texts.map(truncate), truncate: true })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Cross-encoder error: ${response.status} ${response.statusText}`);
+    }
+
+    const results = await response.json() as Array<{ index: number; score: number }>;
+    if (!Array.isArray(results) || results.length !== texts.length) {
+      throw new Error('Unexpected cross-encoder response');
+    }
+
+    const scores = new Array<number>(texts.length).fill(0);
+    results.forEach(result => {
+      scores[result.index] = result.score;
+    });
+    return scores;
+  }
+}
+
+/**
+ * Bewertet die Kandidaten der ersten Stufe neu und sortiert sie nach dem Reranker-Score.
+ *
+ * score ist danach der Reranker-Score, der Score der ersten Stufe bleibt als retrievalScore erhalten.
+ */
+export async function rerankChunks(reranker: Reranker, query: string, candidates: ScoredChunk[]): Promise<ScoredChunk[]> {
+  if (candidates.length === 0) return [];
+
+  const scores = await reranker.score(query, candidates.map(item => textOf(item.chunk)));
+
+  return candidates
+    .map((item, i) => ({ ...item, retrievalScore: item.score, rerankScore: scores[i], score: scores[i] }))
+    .sort((a, b) => b.score - a.score);
+}
+
+// Behalten werden nur neu bewertete Kandidaten ab dem Mindest-Score des Rerankers, höchstens limit
+export function selectReranked(reranked: ScoredChunk[], minScore: number, limit: number): ScoredChunk[] {
+  return reranked.filter(item => item.score >= minScore).slice(0, limit);
+}
+
+// Wie rerankChunks, aber null statt Fehler, wenn der Reranker nicht antwortet
+export async function tryRerank(
+  reranker: Reranker,
+  query: string,
+  candidates: ScoredChunk[],
+  log: SearchLog = console.log
+): Promise<ScoredChunk[] | null> {
+  try {
+    const reranked = await rerankChunks(reranker, query, candidates);
+    log(`Reranked ${candidates.length} candidates with ${reranker.name}`);
+    return reranked;
+  } catch (error) {
+    console.warn('Reranking failed, using first-stage ranking:', error);
+    return null;
+  }
+}
+
+// Abschnitt mitgeben, er trägt oft den entscheidenden Begriff
+function textOf(chunk: DocumentChunk): string {
+  return chunk.section ? `${chunk.section}\n${chunk.text}` : chunk.text;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_PASSAGE_LENGTH ? `${text.slice(0, MAX_PASSAGE_LENGTH)}…` : text;
+}
+
+let sharedReranker: Reranker | null | undefined;
+
+// RERANKER wählt llm, cross-encoder oder none; ohne Angabe llm, sofern ein Mistral API-Key gesetzt ist.
+// Eine fehlerhafte Konfiguration wird protokolliert und die Suche läuft ohne Reranking weiter
+export function getReranker(): Reranker | null {
+  if (sharedReranker === undefined) {
+    try {
+      sharedReranker = createReranker();
+    } catch (error) {
+      console.error(`${(error as Error).message}, reranking is disabled`);
+      sharedReranker = null;
+    }
+  }
+  return sharedReranker;
+}
+
+function createReranker(): Reranker | null {
+  const apiKey = process.env.MISTRAL_API_KEY || '';
+  const configured = (process.env.RERANKER || (apiKey ? 'llm' : 'none')).toLowerCase();
+  const timeoutMs = Number(process.env.RERANK_TIMEOUT_MS) || 10000;
+
+  switch (configured) {
+    case 'none':
+      return null;
+
+    case 'llm':
+      if (!apiKey) {
+        throw new Error('RERANKER=llm requires MISTRAL_API_KEY');
+      }
+      return new LlmReranker(apiKey, process.env.RERANK_MODEL || 'mistral-small-latest', getMinRerankScore('llm'), timeoutMs);
+
+    case 'cross-encoder':
+      if (!process.env.RERANKER_URL) {
+        throw new Error('RERANKER=cross-encoder requires RERANKER_URL');
+      }
+      return new CrossEncoderReranker(process.env.RERANKER_URL, getMinRerankScore('cross-encoder'), timeoutMs);
+
+    default:
+      throw new Error(`Unknown reranker: ${configured}. Use llm, cross-encoder or none.`);
+  }
+}
+
+export function getMinRerankScore(provider: RerankerProvider): number {
+  const { env, value } = MIN_RERANK_SCORE[provider];
+  const configured = parseFloat(process.env[env] || '');
+  return isNaN(configured) ? value : configured;
+}
+
+// Anzahl Kandidaten für die zweite Stufe (30-50 sind üblich)
+export function getRerankCandidates(): number {
+  return Math.min(100, Math.max(10, Number(process.env.RERANK_CANDIDATES) || 40));
+}
+
+// Reranking ohne Angabe in der Anfrage nur mit RERANK_DEFAULT=true
+export function isRerankDefault(): boolean {
+  return process.env.RERANK_DEFAULT === 'true';
+}
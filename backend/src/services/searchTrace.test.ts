@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { ScoredChunk } from './documentProcessing';
+import { Reranker } from './reranker';
+import { SearchTraceInput, StageTimer, buildSearchTrace } from './searchTrace';
+
+function scored(n: number, score: number, extra: Partial<ScoredChunk> = {}): ScoredChunk {
+  return {
+    chunk: {
+      id: `doc#v1#${n}`,
+      documentId: 'doc',
+      version: 1,
+      text: `Abschnitt ${n} über Lieferzeiten`,
+      source: 'doc.txt',
+      uploadDate: '2024-01-01T00:00:00.000Z'
+    },
+    score,
+    ...extra
+  };
+}
+
+function trace(overrides: Partial<SearchTraceInput>) {
+  return buildSearchTrace({
+    query: 'Lieferzeiten',
+    retrievalMode: 'standard',
+    expanded: { vectorQueries: ['Lieferzeiten'], lexicalQueries: ['Lieferzeiten'] },
+    lexicalWeight: 0,
+    reranker: null,
+    reranked: null,
+    mmrLambda: 1,
+    topK: 2,
+    candidates: [],
+    considered: [],
+    relevant: [],
+    results: [],
+    timer: new StageTimer(),
+    ...overrides
+  });
+}
+
+describe('buildSearchTrace', () => {
+  // Rangliste 0..4: 0 und 1 im Kontext, 2 über der Schwelle, 3 darunter, 4 außerhalb des geprüften Pools
+  const candidates = [0.9, 0.8, 0.7, 0.4, 0.3].map((score, n) => scored(n, score));
+  const [first, second, third, fourth] = candidates;
+
+  it('assigns a status to every candidate', () => {
+    const { candidates: traced } = trace({
+      candidates,
+      considered: [first, second, third, fourth],
+      relevant: [first, second, third],
+      results: [second, first]
+    });
+
+    expect(traced.map(candidate => [candidate.chunkId, candidate.status, candidate.finalRank])).toEqual([
+      ['doc#v1#0', 'selected', 2],
+      ['doc#v1#1', 'selected', 1],
+      ['doc#v1#2', 'not-selected', undefined],
+      ['doc#v1#3', 'below-threshold', undefined],
+      ['doc#v1#4', 'beyond-pool', undefined]
+    ]);
+    expect(traced.map(candidate => candidate.rank)).toEqual([1, 2, 3, 4, 5]);
+    // Ohne lexikalischen Anteil ist der Score der ersten Stufe der Kosinus
+    expect(traced[0]).toMatchObject({ score: 0.9, vectorScore: 0.9 });
+  });
+
+  it('marks pinned chunks and appends pinned chunks the search did not find', () => {
+    const pin = scored(9, 1, { pinned: true });
+
+    const { candidates: traced } = trace({
+      candidates: [first, second],
+      considered: [first, second],
+      relevant: [first, second],
+      results: [{ ...second, pinned: true }, pin, first]
+    });
+
+    expect(traced.map(candidate => [candidate.chunkId, candidate.status, candidate.finalRank])).toEqual([
+      ['doc#v1#0', 'selected', 3],
+      ['doc#v1#1', 'pinned', 1],
+      ['doc#v1#9', 'pinned', 2]
+    ]);
+    // Nicht von der Suche gefunden: ohne Rang und Score der ersten Stufe
+    expect(traced[2].rank).toBeUndefined();
+    expect(traced[2].score).toBeUndefined();
+  });
+
+  it('gives chunks merged into a section the final rank of that section', () => {
+    const merged = { ...first, mergedChunkIds: ['doc#v1#1', 'doc#v1#2'] };
+
+    const { candidates: traced } = trace({
+      candidates: [first, second, third, fourth],
+      considered: [first, second, third, fourth],
+      relevant: [first, second, third, fourth],
+      results: [scored(7, 0.95, { pinned: true }), merged]
+    });
+
+    expect(traced.map(candidate => [candidate.chunkId, candidate.status, candidate.finalRank])).toEqual([
+      ['doc#v1#0', 'selected', 2],
+      ['doc#v1#1', 'selected', 2],
+      ['doc#v1#2', 'selected', 2],
+      ['doc#v1#3', 'not-selected', undefined],
+      ['doc#v1#7', 'pinned', 1]
+    ]);
+  });
+
+  it('reports rerank scores and a failed reranker', () => {
+    const reranker: Reranker = { name: 'llm', minScore: 0.5, score: async () => [] };
+
+    const reranked = trace({ candidates: [first], considered: [first], reranker, reranked: [{ ...first, rerankScore: 0.75 }] });
+    expect(reranked.reranker).toEqual({ name: 'llm', minScore: 0.5 });
+    expect(reranked.candidates[0]).toMatchObject({ rerankScore: 0.75, status: 'below-threshold' });
+
+    expect(trace({ candidates: [first], reranker, reranked: null }).reranker).toEqual({ name: 'llm', minScore: 0.5, failed: true });
+    expect(trace({ candidates: [first] }).reranker).toBeUndefined();
+  });
+});
@@ -0,0 +1,126 @@
+// backend/src/services/searchTrace.ts
+// Nachvollziehbare Suche für die Admin-Ansicht: welche Kandidaten jede Stufe gesehen hat,
+// mit welchen Scores, und warum sie im Kontext gelandet sind oder nicht
+import { performance } from 'perf_hooks';
+import { ScoredChunk, createExcerpt } from './documentProcessing';
+import { ExpandedQuery, RetrievalMode } from './queryExpansion';
+import { Reranker } from './reranker';
+import { CandidateStatus, SearchTimings, SearchTrace, TracedCandidate } from './vectorStore';
+
+// Info-Ausgaben einer Suche; Warnungen und Fehler gehen immer an die Konsole
+export type SearchLog = (message: string, ...details: unknown[]) => void;
+
+// quiet (z.B. bei Auswertungen mit vielen Anfragen) unterdrückt die Info-Ausgaben
+export function getSearchLog(quiet?: boolean): SearchLog {
+  return quiet ? () => {} : console.log;
+}
+
+// Misst die Stufen nacheinander: lap() schließt die laufende Stufe ab
+export class StageTimer {
+  private readonly start = performance.now();
+  private last = this.start;
+  private readonly timings: Omit<SearchTimings, 'total'> = { expansion: 0, retrieval: 0, rerank: 0, selection: 0 };
+
+  lap(stage: keyof Omit<SearchTimings, 'total'>): void {
+    const now = performance.now();
+    this.timings[stage] += now - this.last;
+    this.last = now;
+  }
+
+  result(): SearchTimings {
+    const round = (ms: number) => Math.round(ms * 10) / 10;
+    return {
+      expansion: round(this.timings.expansion),
+      retrieval: round(this.timings.retrieval),
+      rerank: round(this.timings.rerank),
+      selection: round(this.timings.selection),
+      total: round(this.last - this.start)
+    };
+  }
+}
+
+export interface SearchTraceInput {
+  query: string;
+  retrievalMode: RetrievalMode;
+  expanded: ExpandedQuery;
+  lexicalWeight: number;
+  // Nur wenn Reranking angefordert war
+  reranker: Reranker | null;
+  // Alle vom Reranker bewerteten Kandidaten; null, wenn nicht gererankt wurde oder der Reranker ausfiel
+  reranked: ScoredChunk[] | null;
+  mmrLambda: number;
+  topK: number;
+  // Rangliste der ersten Stufe
+  candidates: ScoredChunk[];
+  // Kandidaten, die gegen die Relevanzschwelle bzw. den Mindest-Score geprüft wurden
+  considered: ScoredChunk[];
+  // Über der Schwelle (vor MMR)
+  relevant: ScoredChunk[];
+  // Endgültiger Kontext (mit Pins, ggf. zusammengeführt)
+  results: ScoredChunk[];
+  timer: StageTimer;
+}
+
+export function buildSearchTrace(input: SearchTraceInput): SearchTrace {
+  const ids = (items: ScoredChunk[]) => new Set(items.map(item => item.chunk.id));
+  const considered = ids(input.considered);
+  const relevant = ids(input.relevant);
+  const rerankScores = new Map((input.reranked || []).map(item => [item.chunk.id, item.rerankScore]));
+
+  // Platz im Kontext auch für die Chunks, die in einem Abschnitt aufgegangen sind
+  const finalRanks = new Map<string, number>();
+  const pinned = new Set<string>();
+  input.results.forEach((item, i) => {
+    for (const id of [item.chunk.id, ...(item.mergedChunkIds || [])]) {
+      finalRanks.set(id, i + 1);
+      if (item.pinned) pinned.add(id);
+    }
+  });
+
+  const statusOf = (id: string): CandidateStatus => {
+    if (pinned.has(id)) return 'pinned';
+    if (finalRanks.has(id)) return 'selected';
+    if (relevant.has(id)) return 'not-selected';
+    return considered.has(id) ? 'below-threshold' : 'beyond-pool';
+  };
+
+  const toCandidate = (item: ScoredChunk, rank?: number): TracedCandidate => ({
+    chunkId: item.chunk.id,
+    documentId: item.chunk.documentId,
+    source: item.chunk.source,
+    ...(item.chunk.page !== undefined && { page: item.chunk.page }),
+    ...(item.chunk.section && { section: item.chunk.section }),
+    excerpt: createExcerpt(item.chunk.text),
+    ...(rank !== undefined && { rank, score: item.score }),
+    // Reine Vektorsuche ohne Fusion: der Score der ersten Stufe ist der Kosinus
+    vectorScore: item.vectorScore ?? (rank !== undefined && input.lexicalWeight === 0 ? item.score : undefined),
+    lexicalScore: item.lexicalScore,
+    rerankScore: rerankScores.get(item.chunk.id),
+    status: statusOf(item.chunk.id),
+    finalRank: finalRanks.get(item.chunk.id)
+  });
+
+  const candidateIds = ids(input.candidates);
+  const candidates = [
+    ...input.candidates.map((item, i) => toCandidate(item, i + 1)),
+    // Gepinnte Chunks, die die Suche selbst nicht gefunden hat
+    ...input.results
+      .filter(item => item.pinned && !candidateIds.has(item.chunk.id))
+      .map(item => toCandidate(item))
+  ];
+
+  return {
+    query: input.query,
+    retrievalMode: input.retrievalMode,
+    vectorQueries: input.expanded.vectorQueries,
+    lexicalQueries: input.expanded.lexicalQueries,
+    lexicalWeight: input.lexicalWeight,
+    ...(input.reranker && {
+      reranker: { name: input.reranker.name, minScore: input.reranker.minScore, ...(!input.reranked && { failed: true }) }
+    }),
+    mmrLambda: input.mmrLambda,
+    topK: input.topK,
+    candidates,
+    timings: input.timer.result()
+  };
+}
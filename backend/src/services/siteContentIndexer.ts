@@ -0,0 +1,169 @@
+// backend/src/services/siteContentIndexer.ts
+// Inhalte der Website (gemeinsame Quelle mit den React-Seiten) als eigene, immer durchsuchte Sammlung
+import fs from 'fs/promises';
+import path from 'path';
+import { VectorStore, SearchResult } from './vectorStore';
+import { VectorStoreService } from './vectorStoreService';
+
+export interface SiteCompany {
+  name: string;
+  tagline: string;
+  email: string;
+  phone: string;
+  location: string;
+}
+
+export interface SiteItem {
+  title: string;
+  text: string;
+  date?: string;
+}
+
+export interface SitePage {
+  route: string;
+  name: string;
+  description: string;
+  title: string;
+  intro?: string[];
+  heading?: string;
+  items?: SiteItem[];
+  // Seite zeigt die Kontaktdaten der Firma
+  contactDetails?: boolean;
+}
+
+export interface SiteContent {
+  company: SiteCompany;
+  pages: SitePage[];
+}
+
+export interface SiteIndexResult {
+  pages: number;
+  updated: number;
+  removed: number;
+}
+
+// Dieselbe Datei, aus der die Seiten in react2 gerendert werden
+const SITE_CONTENT_PATH = process.env.SITE_CONTENT_PATH
+  || path.resolve(__dirname, '../../../react2/src/content/siteContent.json');
+// Wenige, kurze Seiten: drei Treffer reichen für Antwort und Navigation
+const SITE_SEARCH_TOP_K = 3;
+
+/**
+ * Indexiert die Seiten der Website in einem eigenen In-Memory Store.
+ *
+ * Jede Seite wird als Markdown-Dokument (Überschriften = Abschnitte) mit ihrer
+ * Route eingelesen. Vor jeder Suche wird geprüft, ob sich die Inhaltsdatei
+ * geändert hat; geänderte Seiten erhalten eine neue Version, entfernte werden gelöscht.
+ */
+export class SiteContentIndexer {
+  private content: SiteContent | null = null;
+  private indexedAt: number | null = null;
+  private indexing: Promise<SiteIndexResult> | null = null;
+
+  constructor(
+    private store: VectorStore = new VectorStoreService(),
+    private contentPath: string = SITE_CONTENT_PATH
+  ) {}
+
+  async index(): Promise<SiteIndexResult> {
+    // Gleichzeitige Aufrufe teilen sich einen Durchlauf
+    if (!this.indexing) {
+      this.indexing = this.runIndex().finally(() => {
+        this.indexing = null;
+      });
+    }
+    return this.indexing;
+  }
+
+  async search(query: string): Promise<SearchResult> {
+    try {
+      await this.refresh();
+    } catch (error) {
+      // Ohne Website-Inhalte weiter antworten (z.B. Datei fehlt im Deployment)
+      console.error('Site content indexing failed:', error);
+    }
+    // Wenige kurze Seiten: ohne Reranking und Anfrageerweiterung, das spart LLM-Aufrufe je Chat
+    return this.store.searchSimilar(query, { topK: SITE_SEARCH_TOP_K, rerank: false, retrievalMode: 'standard' });
+  }
+
+  // Zuletzt eingelesene Inhalte (für Firmenangaben und Seitenliste im Prompt)
+  getContent(): SiteContent | null {
+    return this.content;
+  }
+
+  // Neu indexieren, wenn die Datei seit dem letzten Durchlauf geändert wurde
+  private async refresh(): Promise<void> {
+    const { mtimeMs } = await fs.stat(this.contentPath);
+    if (this.indexedAt === null || mtimeMs > this.indexedAt) {
+      await this.index();
+    }
+  }
+
+  private async runIndex(): Promise<SiteIndexResult> {
+    const { mtimeMs } = await fs.stat(this.contentPath);
+    const content = parseSiteContent(await fs.readFile(this.contentPath, 'utf-8'));
+
+    let updated = 0;
+    for (const page of content.pages) {
+      const result = await this.store.addDocument(Buffer.from(toMarkdown(page, content.company)), page.name, {
+        extract: { format: '.md' },
+        route: page.route
+      });
+      if (result.status !== 'unchanged') updated++;
+    }
+
+    const names = new Set(content.pages.map(page => page.name));
+    const removed = (await this.store.listDocuments()).filter(doc => !names.has(doc.name));
+    for (const doc of removed) {
+      await this.store.deleteDocument(doc.id);
+    }
+
+    this.content = content;
+    this.indexedAt = mtimeMs;
+    console.log(`Indexed site content: ${content.pages.length} pages (${updated} updated, ${removed.length} removed)`);
+
+    return { pages: content.pages.length, updated, removed: removed.length };
+  }
+}
+
+function parseSiteContent(json: string): SiteContent {
+  let content: SiteContent;
+  try {
+    content = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid site content: ${(error as Error).message}`);
+  }
+
+  if (!content.company || !Array.isArray(content.pages)) {
+    throw new Error('Invalid site content: company and pages are required');
+  }
+
+  const invalid = content.pages.find(page => !page.route || !page.name || !page.title);
+  if (invalid) {
+    throw new Error(`Invalid site content: page ${JSON.stringify(invalid.route || invalid.name)} needs route, name and title`);
+  }
+
+  return content;
+}
+
+// Seite so aufbereiten, wie sie gerendert wird: Titel, Einleitung, Zwischenüberschrift, Einträge
+function toMarkdown(page: SitePage, company: SiteCompany): string {
+  const lines = [`# ${page.title}`, '', ...(page.intro || []).flatMap(paragraph => [paragraph, ''])];
+
+  if (page.heading) {
+    lines.push(`## ${page.heading}`, '');
+  }
+
+  if (page.contactDetails) {
+    lines.push(`Email: ${company.email}`, `Phone: ${company.phone}`, `Address: ${company.location}`, '');
+  }
+
+  const itemLevel = page.heading ? '###' : '##';
+  for (const item of page.items || []) {
+    lines.push(`${itemLevel} ${item.title}`, '', item.text);
+    if (item.date) lines.push(`Published: ${item.date}`);
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,91 @@
+import ExcelJS from 'exceljs';
+import { describe, expect, it } from 'vitest';
+import { parseCsv, parseJson, parseXlsx } from './tabularParsers';
+
+describe('parseCsv', () => {
+  it('creates one segment per row with the headers repeated as fields', () => {
+    const document = parseCsv('\uFEFFName,Price,SKU\nWidget,9.5,007\nGadget,12,A-1\n');
+
+    expect(document.segments).toEqual([
+      { text: 'Name: Widget\nPrice: 9.5\nSKU: 007', section: 'Row 2', fields: { Name: 'Widget', Price: 9.5, SKU: '007' } },
+      { text: 'Name: Gadget\nPrice: 12\nSKU: A-1', section: 'Row 3', fields: { Name: 'Gadget', Price: 12, SKU: 'A-1' } }
+    ]);
+  });
+
+  it('detects semicolons and reads quoted fields with delimiters, line breaks and quotes', () => {
+    const document = parseCsv('Produkt;Beschreibung\r\nLampe;"Hell; ""warm""\nund sparsam"\r\n');
+
+    expect(document.segments[0].fields).toEqual({ Produkt: 'Lampe', Beschreibung: 'Hell; "warm"\nund sparsam' });
+  });
+
+  it('skips empty rows and uses the first non-empty row as header', () => {
+    const document = parseCsv('\n,,\nA,B\n,,\n1,2\n');
+
+    expect(document.segments).toEqual([expect.objectContaining({ section: 'Row 5', fields: { A: 1, B: 2 } })]);
+  });
+
+  it('keeps numbering duplicate headers until the name is unused', () => {
+    const document = parseCsv('Price,Price,Price (2),,Column 4\n1,2,3,4,5\n');
+
+    expect(document.segments[0].fields).toEqual({
+      'Price': 1,
+      'Price (2)': 2,
+      'Price (2) (2)': 3,
+      'Column 4': 4,
+      'Column 4 (2)': 5
+    });
+  });
+
+  it('names values beyond the header row without overwriting other columns', () => {
+    const document = parseCsv('Column 2\n1,2\n');
+
+    expect(document.segments[0].fields).toEqual({ 'Column 2': 1, 'Column 2 (2)': 2 });
+  });
+});
+
+describe('parseXlsx', () => {
+  it('reads every sheet with Excel row numbers and cell values', async () => {
+    const workbook = new ExcelJS.Workbook();
+    const products = workbook.addWorksheet('Products');
+    products.addRow(['Name', 'Price', 'Released']);
+    products.addRow([]);
+    products.addRow(['Widget', 9.5, new Date(Date.UTC(2024, 2, 1))]);
+    products.addRow([{ richText: [{ text: 'Gad' }, { text: 'get' }] }, { formula: '2*6', result: 12 }]);
+    workbook.addWorksheet('Notes').addRow(['Note']);
+
+    // Buffer innerhalb eines größeren Speicherbereichs, wie ihn multer liefern kann
+    const file = Buffer.from(await workbook.xlsx.writeBuffer());
+    const padded = Buffer.concat([Buffer.alloc(16), file]).subarray(16);
+
+    const document = await parseXlsx(padded);
+
+    expect(document.segments).toEqual([
+      expect.objectContaining({ section: 'Products > Row 3', fields: { Name: 'Widget', Price: 9.5, Released: '2024-03-01' } }),
+      expect.objectContaining({ section: 'Products > Row 4', fields: { Name: 'Gadget', Price: 12 } })
+    ]);
+  });
+});
+
+describe('parseJson', () => {
+  it('turns an array of records into one segment per record with flattened fields', () => {
+    const document = parseJson(JSON.stringify({
+      products: [
+        { name: 'Widget', price: 9.5, dimensions: { width: 10 }, tags: ['a', 'b'], note: null },
+        { name: 'Gadget', available: false }
+      ]
+    }));
+
+    expect(document.segments).toEqual([
+      {
+        text: 'name: Widget\nprice: 9.5\ndimensions.width: 10\ntags: a, b',
+        section: 'products > Record 1',
+        fields: { 'name': 'Widget', 'price': 9.5, 'dimensions.width': 10, 'tags': 'a, b' }
+      },
+      { text: 'name: Gadget\navailable: false', section: 'products > Record 2', fields: { name: 'Gadget', available: false } }
+    ]);
+  });
+
+  it('formats other JSON as plain text', () => {
+    expect(parseJson('{"a":[1,2]}')).toEqual({ text: '{\n  "a": [\n    1,\n    2\n  ]\n}', segments: [{ text: '{\n  "a": [\n    1,\n    2\n  ]\n}' }] });
+  });
+});
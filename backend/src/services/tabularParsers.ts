@@ -0,0 +1,229 @@
+// backend/src/services/tabularParsers.ts
+// Tabellen (CSV, XLSX) und JSON-Datensätze zeilenweise extrahieren: ein Segment je Zeile bzw. Datensatz,
+// Spaltenüberschriften in jedem Segment wiederholt und Werte als filterbare Felder
+import type { CellValue } from 'exceljs';
+import { ExtractedDocument, SECTION_SEPARATOR, TextSegment, fromSegments, plainDocument } from './documentParsers';
+import { FieldValue } from '../types/knowledgeBase';
+
+type Row = Array<FieldValue | undefined>;
+
+// Nur eindeutige Zahlen umwandeln; Werte mit führender Null (z.B. Artikelnummern) bleiben Text
+const NUMBER_PATTERN = /^-?(0|[1-9]\d*)(\.\d+)?$/;
+
+export function parseCsv(csv: string): ExtractedDocument {
+  const text = csv.replace(/^\uFEFF/, '');
+  const rows = readDelimited(text, detectDelimiter(text)).map(row => row.map(parseCellText));
+  return fromSegments(rowSegments(rows));
+}
+
+export async function parseXlsx(buffer: Buffer): Promise<ExtractedDocument> {
+  const ExcelJS: typeof import('exceljs') = require('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  // exceljs typisiert load() mit eigenem ArrayBuffer-basierten Buffer-Typ
+  await workbook.xlsx.load(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer);
+
+  const segments: TextSegment[] = [];
+  workbook.eachSheet(sheet => {
+    const rows: Row[] = [];
+    // Zeilennummern wie in Excel, damit Zitate auf die richtige Zeile zeigen
+    sheet.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+      const values = Array.isArray(row.values) ? row.values.slice(1) : [];
+      rows[rowNumber - 1] = values.map(value => cellValue(value as CellValue));
+    });
+
+    segments.push(...rowSegments(Array.from(rows, row => row || []), sheet.name));
+  });
+
+  return fromSegments(segments);
+}
+
+// Array von Objekten (bzw. Objekt mit einem solchen Array) als Datensätze; sonst formatiert als Text
+export function parseJson(json: string): ExtractedDocument {
+  const data = JSON.parse(json.replace(/^\uFEFF/, ''));
+  const collection = findRecords(data);
+
+  if (!collection) {
+    return plainDocument(JSON.stringify(data, null, 2));
+  }
+
+  const segments = collection.records.map((record, index): TextSegment => {
+    const fields = flattenRecord(record);
+    const section = [collection.key, `Record ${index + 1}`].filter(Boolean).join(SECTION_SEPARATOR);
+    return { text: describeFields(fields), section, fields };
+  });
+
+  return fromSegments(segments);
+}
+
+// Erste nicht leere Zeile ist die Kopfzeile; jede weitere Zeile wird ein Segment
+function rowSegments(rows: Row[], sheetName?: string): TextSegment[] {
+  const headerIndex = rows.findIndex(row => !isEmptyRow(row));
+  if (headerIndex === -1) return [];
+
+  // Überschriften für die breiteste Zeile, damit Werte ohne Überschrift keine andere Spalte überschreiben
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const headers = uniqueHeaders(rows[headerIndex], width);
+  const segments: TextSegment[] = [];
+
+  for (let i = headerIndex + 1; i < rows.length; i++) {
+    const row = rows[i];
+    if (isEmptyRow(row)) continue;
+
+    const fields: Record<string, FieldValue> = {};
+    row.forEach((value, column) => {
+      if (value === undefined || value === '') return;
+      fields[headers[column]] = value;
+    });
+
+    const section = [sheetName, `Row ${i + 1}`].filter(Boolean).join(SECTION_SEPARATOR);
+    segments.push({ text: describeFields(fields), section, fields });
+  }
+
+  return segments;
+}
+
+// Leere und doppelte Überschriften eindeutig machen, z.B. "Price (2)"; der Zähler steigt, bis der
+// Name frei ist, auch wenn die Tabelle selbst schon eine Spalte "Price (2)" hat
+function uniqueHeaders(row: Row, width: number): string[] {
+  const used = new Set<string>();
+
+  return Array.from({ length: width }, (_, column) => {
+    const value = row[column];
+    const header = value === undefined || value === '' ? `Column ${column + 1}` : String(value).trim();
+
+    let unique = header;
+    for (let count = 2; used.has(unique); count++) {
+      unique = `${header} (${count})`;
+    }
+    used.add(unique);
+    return unique;
+  });
+}
+
+// "Spalte: Wert" je Zeile, damit jeder Chunk die Überschriften selbst enthält
+function describeFields(fields: Record<string, FieldValue>): string {
+  return Object.entries(fields)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join('\n');
+}
+
+function isEmptyRow(row: Row): boolean {
+  return row.every(value => value === undefined || value === '');
+}
+
+// Trennzeichen anhand der ersten Zeile erkennen (Komma, Semikolon wie in deutschem Excel, Tab)
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, delimiter) =>
+    firstLine.split(delimiter).length > firstLine.split(best).length ? delimiter : best
+  );
+}
+
+// CSV nach RFC 4180: Felder in Anführungszeichen dürfen Trennzeichen, Zeilenumbrüche und "" enthalten
+function readDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function parseCellText(value: string): FieldValue | undefined {
+  const trimmed = value.trim();
+  if (trimmed === '') return undefined;
+  return NUMBER_PATTERN.test(trimmed) ? Number(trimmed) : trimmed;
+}
+
+// Zellwerte von exceljs: Formeln mit Ergebnis, Rich Text, Hyperlinks, Datumswerte
+function cellValue(value: CellValue): FieldValue | undefined {
+  if (value === null || value === undefined) return undefined;
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+  if (typeof value === 'string') return value.trim() || undefined;
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+
+  if ('result' in value) return cellValue(value.result as CellValue);
+  if ('richText' in value) return value.richText.map(part => part.text).join('').trim() || undefined;
+  if ('text' in value) return String(value.text).trim() || undefined;
+  if ('error' in value) return undefined;
+
+  return undefined;
+}
+
+function findRecords(data: unknown): { key?: string; records: Record<string, unknown>[] } | null {
+  if (isRecordArray(data)) {
+    return { records: data };
+  }
+
+  if (data && typeof data === 'object' && !Array.isArray(data)) {
+    const arrays = Object.entries(data).filter(([, value]) => isRecordArray(value));
+    if (arrays.length === 1) {
+      return { key: arrays[0][0], records: arrays[0][1] as Record<string, unknown>[] };
+    }
+  }
+
+  return null;
+}
+
+function isRecordArray(value: unknown): value is Record<string, unknown>[] {
+  return Array.isArray(value) && value.length > 0
+    && value.every(item => item !== null && typeof item === 'object' && !Array.isArray(item));
+}
+
+// Verschachtelte Objekte mit Punkt-Pfaden, Listen einfacher Werte kommagetrennt
+function flattenRecord(record: Record<string, unknown>, prefix = ''): Record<string, FieldValue> {
+  const fields: Record<string, FieldValue> = {};
+
+  for (const [key, value] of Object.entries(record)) {
+    const name = prefix ? `${prefix}.${key}` : key;
+
+    if (value === null || value === undefined || value === '') continue;
+
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      fields[name] = value;
+    } else if (Array.isArray(value)) {
+      fields[name] = value.map(item => typeof item === 'object' ? JSON.stringify(item) : String(item)).join(', ');
+    } else if (typeof value === 'object') {
+      Object.assign(fields, flattenRecord(value as Record<string, unknown>, name));
+    }
+  }
+
+  return fields;
+}
@@ -0,0 +1,144 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AdaptiveVectorIndex, ExactVectorIndex, createVectorIndex, dotProduct, normalizeVector } from './vectorIndex';
+
+function unitVector(angle: number): number[] {
+  return [Math.cos(angle), Math.sin(angle)];
+}
+
+function fill(index: { add(id: string, vector: ArrayLike<number>): void }, count: number, offset = 0): void {
+  for (let i = offset; i < offset + count; i++) {
+    index.add(`v${i}`, unitVector(i / 100));
+  }
+}
+
+describe('normalizeVector and dotProduct', () => {
+  it('scales to unit length so that the dot product is the cosine similarity', () => {
+    const a = normalizeVector([3, 4]);
+    const b = normalizeVector([4, 3]);
+
+    expect(Array.from(a)).toEqual([expect.closeTo(0.6), expect.closeTo(0.8)]);
+    expect(dotProduct(a, b)).toBeCloseTo(0.96);
+  });
+
+  it('leaves the zero vector unchanged', () => {
+    expect(Array.from(normalizeVector([0, 0]))).toEqual([0, 0]);
+  });
+});
+
+describe('ExactVectorIndex', () => {
+  it('returns the k most similar vectors and skips other dimensions', () => {
+    const index = new ExactVectorIndex();
+    index.add('close', [1, 0.1]);
+    index.add('far', [0, 1]);
+    index.add('closest', [1, 0]);
+    index.add('other-model', [1, 0, 0]);
+
+    expect(index.search([1, 0], 2).map(match => match.id)).toEqual(['closest', 'close']);
+    expect(index.search([1, 0], 10)).toHaveLength(3);
+  });
+});
+
+describe('AdaptiveVectorIndex', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('answers with the exact search below the threshold', async () => {
+    const index = new AdaptiveVectorIndex(100);
+    fill(index, 99);
+    await index.whenIdle();
+
+    expect(index.usesGraph).toBe(false);
+    expect(index.search(unitVector(0.5), 1)[0].id).toBe('v50');
+  });
+
+  it('builds the graph in the background once the threshold is reached', async () => {
+    const index = new AdaptiveVectorIndex(100);
+    fill(index, 200);
+
+    // Noch kein Graph: der Aufbau beginnt erst nach dem laufenden Aufruf
+    expect(index.usesGraph).toBe(false);
+    expect(index.search(unitVector(1), 1)[0].id).toBe('v100');
+
+    await index.whenIdle();
+
+    expect(index.usesGraph).toBe(true);
+    expect(index.search(unitVector(1), 1)[0].id).toBe('v100');
+  });
+
+  it('carries over changes made while the graph is being built', async () => {
+    const index = new AdaptiveVectorIndex(100);
+    fill(index, 150);
+    await new Promise(resolve => setImmediate(resolve));
+
+    fill(index, 50, 150);
+    index.remove('v10');
+    index.add('v20', unitVector(3));
+    await index.whenIdle();
+
+    expect(index.usesGraph).toBe(true);
+    expect(index.size).toBe(199);
+    const ids = index.search(unitVector(0.1), 200).map(match => match.id);
+    expect(ids).toHaveLength(199);
+    expect(ids).not.toContain('v10');
+    expect(index.search(unitVector(1.99), 1)[0].id).toBe('v199');
+    expect(index.search(unitVector(3), 1)[0].id).toBe('v20');
+  });
+
+  it('does not rebuild inside remove and replaces a graph with many deleted nodes in the background', async () => {
+    const index = new AdaptiveVectorIndex(0);
+    fill(index, 200);
+    await index.whenIdle();
+
+    for (let i = 0; i < 100; i++) index.remove(`v${i}`);
+
+    expect(index.usesGraph).toBe(true);
+    expect(index.search(unitVector(0), 1)[0].id).toBe('v100');
+    await index.whenIdle();
+    expect(index.search(unitVector(0), 200).map(match => match.id)).toHaveLength(100);
+  });
+
+  it('falls back to the exact search well below the threshold', async () => {
+    const index = new AdaptiveVectorIndex(100);
+    fill(index, 120);
+    await index.whenIdle();
+
+    for (let i = 0; i < 80; i++) index.remove(`v${i}`);
+
+    expect(index.usesGraph).toBe(false);
+    expect(index.search(unitVector(0), 1)[0].id).toBe('v80');
+  });
+
+  it('discards a running build when cleared', async () => {
+    const index = new AdaptiveVectorIndex(100);
+    fill(index, 200);
+    index.clear();
+    await index.whenIdle();
+
+    expect(index.size).toBe(0);
+    expect(index.usesGraph).toBe(false);
+    expect(index.search(unitVector(0), 1)).toEqual([]);
+  });
+
+  it('applies the accept predicate to exact and graph search', async () => {
+    const exact = new ExactVectorIndex();
+    const adaptive = new AdaptiveVectorIndex(100);
+    fill(exact, 200);
+    fill(adaptive, 200);
+    await adaptive.whenIdle();
+    const even = (id: string) => Number(id.slice(1)) % 2 === 0;
+
+    expect(adaptive.usesGraph).toBe(true);
+    expect(exact.search(unitVector(0.51), 2, even).map(match => match.id)).toEqual(['v52', 'v50']);
+    expect(adaptive.search(unitVector(0.51), 2, even).map(match => match.id)).toEqual(['v52', 'v50']);
+  });
+
+  it('is created from VECTOR_INDEX and HNSW_MIN_VECTORS', () => {
+    vi.stubEnv('HNSW_MIN_VECTORS', '5');
+
+    expect(createVectorIndex('exact')).toBeInstanceOf(ExactVectorIndex);
+    expect(createVectorIndex('auto')).toBeInstanceOf(AdaptiveVectorIndex);
+    expect(createVectorIndex('hnsw')).toBeInstanceOf(AdaptiveVectorIndex);
+    expect(() => createVectorIndex('faiss')).toThrow('Unknown vector index type: faiss. Use auto, hnsw or exact.');
+  });
+});
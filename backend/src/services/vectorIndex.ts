@@ -0,0 +1,257 @@
+// backend/src/services/vectorIndex.ts
+import { performance } from 'perf_hooks';
+import { HnswIndex, HnswOptions } from './hnswIndex';
+
+export interface VectorMatch {
+  id: string;
+  // Kosinusähnlichkeit
+  score: number;
+}
+
+// Nächste-Nachbarn-Suche über normalisierte Float32-Vektoren
+export interface VectorIndex {
+  readonly size: number;
+  add(id: string, vector: ArrayLike<number>): void;
+  remove(id: string): void;
+  has(id: string): boolean;
+  getVector(id: string): Float32Array | undefined;
+  // accept schränkt die Treffer ein (z.B. Sichtbarkeit), ohne dass dafür am Index vorbei gesucht werden muss
+  search(query: ArrayLike<number>, k: number, accept?: (id: string) => boolean): VectorMatch[];
+  clear(): void;
+}
+
+export type VectorIndexType = 'auto' | 'exact' | 'hnsw';
+
+// Ab diesem Anteil gelöschter Knoten wird der HNSW-Graph neu aufgebaut
+const REBUILD_DELETED_RATIO = 0.25;
+// Beim Aufbau im Hintergrund spätestens nach so vielen Millisekunden an die Event Loop abgeben
+const BUILD_SLICE_MS = 10;
+// Ab so vielen Vektoren lohnt der Graph bei VECTOR_INDEX=auto (darunter ist die exakte Suche schnell genug)
+const DEFAULT_HNSW_MIN_VECTORS = 10000;
+
+// Auf Länge 1 normieren, dann ist das Skalarprodukt gleich der Kosinusähnlichkeit
+export function normalizeVector(vector: ArrayLike<number>): Float32Array {
+  const result = Float32Array.from(vector);
+  let norm = 0;
+  for (let i = 0; i < result.length; i++) {
+    norm += result[i] * result[i];
+  }
+
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < result.length; i++) {
+      result[i] /= norm;
+    }
+  }
+
+  return result;
+}
+
+export function dotProduct(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+// Exakte Suche (Brute Force) - Referenz für Benchmarks und kleine Wissensbasen
+export class ExactVectorIndex implements VectorIndex {
+  private vectors: Map<string, Float32Array> = new Map();
+
+  get size(): number {
+    return this.vectors.size;
+  }
+
+  add(id: string, vector: ArrayLike<number>): void {
+    this.vectors.set(id, normalizeVector(vector));
+  }
+
+  remove(id: string): void {
+    this.vectors.delete(id);
+  }
+
+  has(id: string): boolean {
+    return this.vectors.has(id);
+  }
+
+  getVector(id: string): Float32Array | undefined {
+    return this.vectors.get(id);
+  }
+
+  entries(): IterableIterator<[string, Float32Array]> {
+    return this.vectors.entries();
+  }
+
+  search(query: ArrayLike<number>, k: number, accept?: (id: string) => boolean): VectorMatch[] {
+    const normalized = normalizeVector(query);
+    const matches: VectorMatch[] = [];
+
+    this.vectors.forEach((vector, id) => {
+      if (vector.length !== normalized.length || (accept && !accept(id))) return;
+      matches.push({ id, score: dotProduct(normalized, vector) });
+    });
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, k);
+  }
+
+  clear(): void {
+    this.vectors.clear();
+  }
+}
+
+/**
+ * Exakte Suche, bis der Index minVectors Vektoren enthält; ab dann HNSW.
+ *
+ * Der Graph wird im Hintergrund in Etappen aufgebaut, die an die Event Loop abgeben,
+ * bis dahin beantwortet die exakte Suche alle Anfragen. Ebenso wird ein Graph mit
+ * vielen gelöschten Knoten im Hintergrund ersetzt, nie innerhalb von remove().
+ * Änderungen während eines Aufbaus werden vor dem Umschalten nachgetragen.
+ */
+export class AdaptiveVectorIndex implements VectorIndex {
+  // Hält alle Vektoren; der Graph verweist auf dieselben Float32Arrays
+  private exact = new ExactVectorIndex();
+  private graph: HnswIndex | null = null;
+  private building: Promise<void> | null = null;
+  // Während eines Aufbaus geänderte IDs
+  private changed = new Set<string>();
+  // Erhöht durch clear(): ein laufender Aufbau wird dann verworfen
+  private epoch = 0;
+
+  constructor(private minVectors: number, private hnswOptions: HnswOptions = {}) {}
+
+  get size(): number {
+    return this.exact.size;
+  }
+
+  // Ob Anfragen gerade über den HNSW-Graphen laufen
+  get usesGraph(): boolean {
+    return this.graph !== null;
+  }
+
+  add(id: string, vector: ArrayLike<number>): void {
+    this.exact.add(id, vector);
+    this.graph?.addNormalized(id, this.exact.getVector(id)!);
+    if (this.building) this.changed.add(id);
+    this.scheduleBuild();
+  }
+
+  remove(id: string): void {
+    if (!this.exact.has(id)) return;
+
+    this.exact.remove(id);
+    this.graph?.remove(id);
+    if (this.building) this.changed.add(id);
+
+    // Hysterese: erst deutlich unter der Schwelle zurück zur exakten Suche
+    if (this.graph && this.exact.size < this.minVectors / 2) {
+      this.graph = null;
+    }
+    this.scheduleBuild();
+  }
+
+  has(id: string): boolean {
+    return this.exact.has(id);
+  }
+
+  getVector(id: string): Float32Array | undefined {
+    return this.exact.getVector(id);
+  }
+
+  // Liefert der Graph zu wenige Treffer (z.B. wenige akzeptierte oder nicht erreichbare Knoten), exakt suchen
+  search(query: ArrayLike<number>, k: number, accept?: (id: string) => boolean): VectorMatch[] {
+    const matches = this.graph?.search(query, k, accept);
+    return matches && matches.length >= Math.min(k, this.exact.size) ? matches : this.exact.search(query, k, accept);
+  }
+
+  clear(): void {
+    this.exact.clear();
+    this.graph = null;
+    this.building = null;
+    this.changed.clear();
+    this.epoch++;
+  }
+
+  // Wartet auf einen laufenden Aufbau (Benchmarks, Tests)
+  async whenIdle(): Promise<void> {
+    while (this.building) {
+      await this.building;
+    }
+  }
+
+  private scheduleBuild(): void {
+    if (this.building || this.exact.size === 0 || this.exact.size < this.minVectors) return;
+    if (this.graph && this.graph.deletedRatio <= REBUILD_DELETED_RATIO) return;
+
+    const building = this.build(this.epoch).finally(() => {
+      if (this.building === building) this.building = null;
+    });
+    this.building = building;
+  }
+
+  private async build(epoch: number): Promise<void> {
+    // Erst nach dem laufenden Aufruf beginnen (z.B. nachdem initialize() alle Vektoren eingetragen hat)
+    await yieldToEventLoop();
+    if (epoch !== this.epoch) return;
+
+    this.changed.clear();
+    const graph = new HnswIndex(this.hnswOptions);
+    let pending = Array.from(this.exact.entries(), ([id]) => id);
+    let sliceStart = performance.now();
+
+    // Zwischenzeitlich geänderte IDs in weiteren Runden nachtragen (add ersetzt, fehlende IDs wurden gelöscht)
+    while (pending.length > 0) {
+      for (let i = 0; i < pending.length; i++) {
+        if (performance.now() - sliceStart > BUILD_SLICE_MS) {
+          await yieldToEventLoop();
+          if (epoch !== this.epoch) return;
+          sliceStart = performance.now();
+        }
+
+        const vector = this.exact.getVector(pending[i]);
+        if (vector) {
+          graph.addNormalized(pending[i], vector);
+        } else {
+          graph.remove(pending[i]);
+        }
+      }
+
+      pending = Array.from(this.changed);
+      this.changed.clear();
+    }
+
+    if (this.exact.size > 0 && this.exact.size >= this.minVectors / 2) {
+      this.graph = graph;
+    }
+  }
+}
+
+function yieldToEventLoop(): Promise<void> {
+  return new Promise(resolve => setImmediate(resolve));
+}
+
+function hnswOptionsFromEnv(): HnswOptions {
+  return {
+    m: Number(process.env.HNSW_M) || undefined,
+    efConstruction: Number(process.env.HNSW_EF_CONSTRUCTION) || undefined,
+    efSearch: Number(process.env.HNSW_EF_SEARCH) || undefined
+  };
+}
+
+// Index über VECTOR_INDEX wählen (auto | hnsw | exact), Standard: auto.
+// auto wechselt ab HNSW_MIN_VECTORS zu HNSW, hnsw baut den Graphen von Anfang an (jeweils im Hintergrund)
+export function createVectorIndex(type: string = process.env.VECTOR_INDEX || 'auto'): VectorIndex {
+  switch (type.toLowerCase() as VectorIndexType) {
+    case 'exact':
+      return new ExactVectorIndex();
+
+    case 'auto':
+      return new AdaptiveVectorIndex(Number(process.env.HNSW_MIN_VECTORS) || DEFAULT_HNSW_MIN_VECTORS, hnswOptionsFromEnv());
+
+    case 'hnsw':
+      return new AdaptiveVectorIndex(0, hnswOptionsFromEnv());
+
+    default:
+      throw new Error(`Unknown vector index type: ${type}. Use auto, hnsw or exact.`);
+  }
+}
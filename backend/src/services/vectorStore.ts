@@ -0,0 +1,241 @@
+// backend/src/services/vectorStore.ts
+import { ChunkingOptions } from './chunking';
+import { ExtractOptions } from './documentProcessing';
+import { RetrievalMode } from './queryExpansion';
+import { DocumentChunk, FieldValue, StoredDocument } from '../types/knowledgeBase';
+
+export interface DocumentInfo {
+  id: string;
+  name: string;
+  uploadDate: Date;
+  version: number;
+  collection: string;
+  tags: string[];
+  // Benutzer-ID bei privaten Dokumenten; fehlt bei gemeinsamen
+  owner?: string;
+}
+
+// Wer auf Dokumente zugreift: gemeinsame und die eigenen privaten Dokumente, ohne Benutzer nur gemeinsame.
+// allUsers nur für Verwaltungsaufgaben über alle Benutzer (z.B. Reindex)
+export interface DocumentAccess {
+  userId?: string;
+  allUsers?: boolean;
+}
+
+// Nicht angegebene Felder bleiben unverändert; leere Tag-Liste entfernt alle Tags
+export interface DocumentUpdate {
+  collection?: string;
+  tags?: string[];
+}
+
+export interface DocumentVersionInfo {
+  version: number;
+  contentHash: string;
+  uploadDate: Date;
+  chunks: number;
+  chunking?: Required<ChunkingOptions>;
+  active: boolean;
+}
+
+export interface IngestionProgress {
+  phase: 'parsing' | 'embedding';
+  processedChunks: number;
+  totalChunks: number;
+}
+
+export interface AddDocumentOptions {
+  // Chunking-Parameter des Uploads; fehlende Werte kommen aus Umgebung bzw. Dateityp
+  chunking?: ChunkingOptions;
+  // Format und Basis-URL, wenn der Name keine Dateiendung trägt (z.B. importierte Webseiten)
+  extract?: ExtractOptions;
+  // Route einer Website-Seite, wird an Chunks und Zitate weitergegeben
+  route?: string;
+  // Sammlung und Tags; ohne Angabe behält eine neue Version die bisherigen, neue Dokumente kommen nach DEFAULT_COLLECTION
+  collection?: string;
+  tags?: string[];
+  // Privates Dokument dieses Benutzers; gleichnamige Dokumente und Duplikate werden nur innerhalb desselben Besitzers erkannt
+  owner?: string;
+  // Abbruch vor dem Übernehmen in den Store (bereits übernommene Dokumente bleiben bestehen)
+  signal?: AbortSignal;
+  onProgress?: (progress: IngestionProgress) => void;
+}
+
+// created: neues Dokument, updated: neue Version eines gleichnamigen Dokuments,
+// unchanged: gleichnamiges Dokument mit identischem Inhalt, duplicate: identischer Inhalt unter anderem Namen,
+// reindexed: Embeddings der aktiven Version mit dem aktuellen Modell neu berechnet
+export type AddDocumentStatus = 'created' | 'updated' | 'unchanged' | 'duplicate' | 'reindexed';
+
+export interface AddDocumentResult {
+  documentId: string;
+  name: string;
+  version: number;
+  // Bei reindexed: Anzahl neu eingebetteter Chunks
+  chunks: number;
+  status: AddDocumentStatus;
+}
+
+export type ReindexOptions = Pick<AddDocumentOptions, 'signal' | 'onProgress'>;
+
+// Chunk mit Text und Metadaten für die Admin-Ansicht (ohne Embedding)
+export type ChunkInfo = Omit<DocumentChunk, 'embedding'>;
+
+// Nicht angegebene Felder bleiben unverändert; geänderter Text wird neu eingebettet
+export interface ChunkUpdate {
+  text?: string;
+  disabled?: boolean;
+  // Leere Liste entfernt die Pins
+  pinnedQueries?: string[];
+}
+
+export interface ChunkSearchOptions {
+  documentId?: string;
+  limit?: number;
+  // Private Dokumente dieses Benutzers mit durchsuchen (ohne Angabe nur gemeinsame)
+  userId?: string;
+}
+
+// Dokument mit aktiver Version und deren Chunks inkl. Embeddings (Export/Import zwischen Stores)
+export interface ExportedDocument {
+  // versions enthält nur die aktive Version
+  document: StoredDocument;
+  chunks: DocumentChunk[];
+}
+
+export interface VectorStoreStats {
+  totalDocuments: number;
+  totalChunks: number;
+  // Modell, mit dem neue Chunks und Suchanfragen eingebettet werden
+  embeddingModel: string;
+  // Chunks je Embedding-Modell (nur wenn ohne zusätzliche Abfragen bekannt)
+  embeddingModels?: Record<string, number>;
+  documents: Array<DocumentInfo & { chunks: number }>;
+}
+
+export interface SearchOptions {
+  topK?: number;
+  // Anteil der lexikalischen (BM25) Suche an der Fusion: 0 = nur Vektor, 1 = nur BM25
+  lexicalWeight?: number;
+  // Nur Chunks, deren Spaltenwerte übereinstimmen (Spaltenname und Text ohne Groß-/Kleinschreibung)
+  filter?: FieldFilter;
+  // Nur Dokumente aus einer dieser Sammlungen bzw. mit einem dieser Tags (beide Angaben: beides muss zutreffen)
+  collections?: string[];
+  tags?: string[];
+  // Private Dokumente dieses Benutzers mit durchsuchen (ohne Angabe nur gemeinsame)
+  userId?: string;
+  // Kandidaten mit dem konfigurierten Reranker neu bewerten (ohne Angabe: RERANK_DEFAULT)
+  rerank?: boolean;
+  // Umformulierungen (multi-query) bzw. hypothetische Antwort (hyde) suchen (ohne Angabe: RETRIEVAL_MODE)
+  retrievalMode?: RetrievalMode;
+  // MMR: Gewichtung der Relevanz gegenüber der Vielfalt (0..1, 1 = nur Relevanz; ohne Angabe: MMR_LAMBDA)
+  mmrLambda?: number;
+  // Im Dokument aufeinanderfolgende Treffer zu einem Abschnitt zusammenführen (ohne Angabe: MERGE_ADJACENT_CHUNKS)
+  mergeAdjacent?: boolean;
+  // Ablauf der Suche mit allen Kandidaten und Scores je Stufe zurückgeben (Debugging)
+  trace?: boolean;
+  // Keine Info-Ausgaben der Suche auf der Konsole (Warnungen und Fehler bleiben)
+  quiet?: boolean;
+}
+
+export type FieldFilter = Record<string, FieldValue>;
+
+// Fundstelle eines Treffers im Originaldokument
+export interface Citation {
+  documentId: string;
+  chunkId: string;
+  source: string;
+  page?: number;
+  section?: string;
+  // Seite der Website, zu der navigiert werden kann
+  route?: string;
+  // Spaltenwerte bei Tabellenzeilen und JSON-Datensätzen
+  fields?: Record<string, FieldValue>;
+  // Per Pin für diese Anfrage aufgenommen, nicht über die Suche gefunden
+  pinned?: boolean;
+  // Weitere Chunks, die mit diesem zu einem zusammenhängenden Abschnitt zusammengeführt wurden
+  mergedChunkIds?: string[];
+  excerpt: string;
+  score: number;
+}
+
+// selected: im Kontext, pinned: per Pin aufgenommen, not-selected: relevant, aber von MMR zugunsten
+// anderer Treffer ausgelassen, below-threshold: unter der Relevanzschwelle (bzw. dem Mindest-Score des
+// Rerankers), beyond-pool: zu weit hinten, um geprüft zu werden
+export type CandidateStatus = 'selected' | 'pinned' | 'not-selected' | 'below-threshold' | 'beyond-pool';
+
+export interface TracedCandidate {
+  chunkId: string;
+  documentId: string;
+  source: string;
+  page?: number;
+  section?: string;
+  excerpt: string;
+  // Platz in der ersten Stufe (1 = bester); fehlt bei gepinnten Chunks, die die Suche nicht gefunden hat
+  rank?: number;
+  // Score der ersten Stufe: RRF bei hybrider Suche, sonst Kosinus bzw. BM25
+  score?: number;
+  vectorScore?: number;
+  lexicalScore?: number;
+  rerankScore?: number;
+  status: CandidateStatus;
+  // Platz im Kontext; zusammengeführte Chunks tragen den Platz ihres Abschnitts
+  finalRank?: number;
+}
+
+// Dauer der Stufen in Millisekunden
+export interface SearchTimings {
+  expansion: number;
+  retrieval: number;
+  rerank: number;
+  selection: number;
+  total: number;
+}
+
+export interface SearchTrace {
+  query: string;
+  retrievalMode: RetrievalMode;
+  vectorQueries: string[];
+  lexicalQueries: string[];
+  // 0 bei reiner Vektorsuche (Pinecone)
+  lexicalWeight: number;
+  // Nur wenn Reranking angefordert war; failed: Reranker hat nicht geantwortet, es galt die erste Stufe
+  reranker?: { name: string; minScore: number; failed?: boolean };
+  mmrLambda: number;
+  topK: number;
+  candidates: TracedCandidate[];
+  timings: SearchTimings;
+}
+
+export interface SearchResult {
+  // Für den Prompt formatierter Kontext (leer, wenn nichts Relevantes gefunden wurde)
+  context: string;
+  citations: Citation[];
+  // Nur mit options.trace und nur, wenn tatsächlich gesucht wurde (nicht bei leerem Store oder Filter ohne Treffer)
+  trace?: SearchTrace;
+}
+
+// Gemeinsame Schnittstelle aller Knowledge-Base-Backends (In-Memory, lokal persistent, Pinecone)
+export interface VectorStore {
+  initialize(): Promise<void>;
+  addDocument(input: string | Buffer, originalName: string, options?: AddDocumentOptions): Promise<AddDocumentResult>;
+  searchSimilar(query: string, options?: SearchOptions): Promise<SearchResult>;
+  listDocuments(access?: DocumentAccess): Promise<DocumentInfo[]>;
+  // Private Dokumente anderer Benutzer gelten bei allen Methoden mit access als nicht vorhanden
+  listVersions(docId: string, access?: DocumentAccess): Promise<DocumentVersionInfo[]>;
+  rollbackDocument(docId: string, version: number, access?: DocumentAccess): Promise<DocumentInfo>;
+  updateDocument(docId: string, changes: DocumentUpdate, access?: DocumentAccess): Promise<DocumentInfo>;
+  // Chunks der aktiven Version, die mit einem anderen Modell eingebettet wurden, neu einbetten
+  reindexDocument(docId: string, options?: ReindexOptions): Promise<AddDocumentResult>;
+  // Chunks der aktiven Version in Dokumentreihenfolge, inkl. deaktivierter
+  listChunks(docId: string, access?: DocumentAccess): Promise<ChunkInfo[]>;
+  // Chunks direkt durchsuchen (ohne Relevanzschwelle, inkl. deaktivierter)
+  searchChunks(query: string, options?: ChunkSearchOptions): Promise<Array<ChunkInfo & { score: number }>>;
+  updateChunk(chunkId: string, changes: ChunkUpdate, access?: DocumentAccess): Promise<ChunkInfo>;
+  deleteDocument(docId: string, access?: DocumentAccess): Promise<void>;
+  exportDocument(docId: string): Promise<ExportedDocument>;
+  // Prüft ohne Änderung, ob importDocument die Embeddings übernehmen kann (Fehler: "Invalid import: ...")
+  validateImport(exported: ExportedDocument): Promise<void>;
+  // Übernimmt IDs, Embeddings und Metadaten unverändert; eine vorhandene Dokument-ID ist ein Fehler
+  importDocument(exported: ExportedDocument): Promise<DocumentInfo>;
+  // Zählt nur die sichtbaren Dokumente
+  getStats(access?: DocumentAccess): Promise<VectorStoreStats>;
+}
@@ -0,0 +1,37 @@
+// backend/src/services/vectorStoreFactory.ts
+import { VectorStore } from './vectorStore';
+import { VectorStoreService } from './vectorStoreService';
+import { PineconeVectorStoreService } from './pineconeVectorStoreService';
+import { FileKnowledgeBaseStorage, getKnowledgeBaseDir } from './knowledgeBaseStorage';
+
+export type VectorStoreBackend = 'memory' | 'local' | 'pinecone';
+
+// Backend über VECTOR_STORE wählen (memory | local | pinecone), Standard: local
+export function createVectorStore(backend: string = process.env.VECTOR_STORE || 'local'): VectorStore {
+  switch (backend.toLowerCase() as VectorStoreBackend) {
+    case 'memory':
+      return new VectorStoreService();
+
+    case 'local':
+      return new VectorStoreService(new FileKnowledgeBaseStorage(getKnowledgeBaseDir()));
+
+    case 'pinecone': {
+      const apiKey = process.env.PINECONE_API_KEY;
+      const indexName = process.env.PINECONE_INDEX;
+
+      if (!apiKey || !indexName) {
+        throw new Error('Pinecone vector store requires PINECONE_API_KEY and PINECONE_INDEX');
+      }
+
+      return new PineconeVectorStoreService({
+        apiKey,
+        indexName,
+        indexHost: process.env.PINECONE_INDEX_HOST,
+        namespace: process.env.PINECONE_NAMESPACE || 'knowledge-base'
+      });
+    }
+
+    default:
+      throw new Error(`Unknown vector store backend: ${backend}. Use memory, local or pinecone.`);
+  }
+}
@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { EmbeddingService } from './embeddingService';
+import { LOCAL_EMBEDDING_MODEL } from './localEmbedding';
+import { VectorStoreService } from './vectorStoreService';
+
+describe('VectorStoreService visibility', () => {
+  let store: VectorStoreService;
+  let shared: string;
+  let own: string;
+  let foreign: string;
+
+  beforeEach(async () => {
+    // Lokale Embeddings und kein Datei-Cache, damit der Test ohne Netz und Dateien läuft
+    vi.stubEnv('EMBEDDING_PROVIDER', 'local');
+    vi.stubEnv('EMBEDDING_CACHE_MAX_ENTRIES', '0');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    store = new VectorStoreService();
+    await store.initialize();
+    shared = (await store.addDocument(Buffer.from('Gemeinsame Lieferzeiten für alle Kunden: Standardversand dauert drei Werktage.'), 'shared.txt')).documentId;
+    own = (await store.addDocument(Buffer.from('Alices Lieferzeiten und Rabatte: Expressversand mit zehn Prozent Nachlass.'), 'alice.txt', { owner: 'alice' })).documentId;
+    foreign = (await store.addDocument(Buffer.from('Bobs geheime Lieferzeiten: Sonderversand nur nach telefonischer Absprache.'), 'bob.txt', { owner: 'bob' })).documentId;
+
+    return () => {
+      vi.unstubAllEnvs();
+      vi.restoreAllMocks();
+    };
+  });
+
+  it('rejects document and chunk changes for documents of other users', async () => {
+    const access = { userId: 'alice' };
+    const [foreignChunk] = await store.listChunks(foreign, { allUsers: true });
+
+    await expect(store.listChunks(foreign, access)).rejects.toThrow('Document not found');
+    await expect(store.listVersions(foreign, access)).rejects.toThrow('Document not found');
+    await expect(store.updateDocument(foreign, { tags: ['x'] }, access)).rejects.toThrow('Document not found');
+    await expect(store.rollbackDocument(foreign, 1, access)).rejects.toThrow('Document not found');
+    await expect(store.deleteDocument(foreign, access)).rejects.toThrow('Document not found');
+    await expect(store.updateChunk(foreignChunk.id, { disabled: true }, access)).rejects.toThrow('Chunk not found');
+
+    await expect(store.listChunks(own, access)).resolves.toHaveLength(1);
+    await expect(store.listChunks(shared, access)).resolves.toHaveLength(1);
+    await expect(store.listChunks(own)).rejects.toThrow('Document not found');
+  });
+
+  it('searches and counts only visible documents', async () => {
+    const documentsOf = (chunks: Array<{ documentId: string }>) => chunks.map(chunk => chunk.documentId).sort();
+
+    expect(documentsOf(await store.searchChunks('Lieferzeiten', { userId: 'alice' }))).toEqual([own, shared].sort());
+    expect(documentsOf(await store.searchChunks('Lieferzeiten'))).toEqual([shared]);
+    await expect(store.searchChunks('Lieferzeiten', { documentId: foreign, userId: 'alice' })).rejects.toThrow('Document not found');
+
+    const { citations } = await store.searchSimilar('geheime Lieferzeiten', { topK: 5, userId: 'alice' });
+    expect(citations.every(citation => citation.documentId !== foreign)).toBe(true);
+
+    expect(await store.getStats({ userId: 'alice' })).toMatchObject({ totalDocuments: 2, totalChunks: 2 });
+    expect(await store.getStats()).toMatchObject({ totalDocuments: 1, totalChunks: 1 });
+    expect(await store.getStats({ allUsers: true })).toMatchObject({ totalDocuments: 3, totalChunks: 3 });
+  });
+
+  it('does not log searches with quiet', async () => {
+    const log = vi.mocked(console.log);
+    log.mockClear();
+
+    await store.searchSimilar('Lieferzeiten', { quiet: true });
+    expect(log).not.toHaveBeenCalled();
+
+    await store.searchSimilar('Lieferzeiten');
+    expect(log).toHaveBeenCalledWith(expect.stringContaining('Searching for: "Lieferzeiten"'));
+  });
+
+  it('rejects imports whose embeddings do not fit the stored vectors without changing the store', async () => {
+    const exported = await store.exportDocument(shared);
+    const copy = {
+      document: { ...exported.document, id: 'copy' },
+      chunks: exported.chunks.map(chunk => ({ ...chunk, id: chunk.id.replace(shared, 'copy'), documentId: 'copy' }))
+    };
+    const truncated = { ...copy, chunks: copy.chunks.map(chunk => ({ ...chunk, embedding: chunk.embedding!.slice(0, 8) })) };
+
+    await expect(store.validateImport(copy)).resolves.toBeUndefined();
+    await expect(store.validateImport(truncated)).rejects.toThrow('Invalid import: chunk copy#');
+    await expect(store.importDocument(truncated)).rejects.toThrow('has an embedding of dimension 8');
+    expect(await store.getStats({ allUsers: true })).toMatchObject({ totalDocuments: 3 });
+
+    // Ohne Embedding bleibt der Chunk über die lexikalische Suche auffindbar
+    await expect(store.validateImport({ ...copy, chunks: copy.chunks.map(({ embedding, ...chunk }) => chunk) })).resolves.toBeUndefined();
+  });
+
+  it('keeps chunk edits made while a reindex is embedding', async () => {
+    const exported = await store.exportDocument(shared);
+    const [template] = exported.chunks;
+    // Zwei Chunks eines älteren Modells, die der Reindex neu einbetten muss
+    const legacy = {
+      document: { ...exported.document, id: 'legacy', name: 'legacy.txt' },
+      chunks: [0, 1].map(n => ({ ...template, id: `legacy#v1#${n}`, documentId: 'legacy', embedding: undefined, embeddingModel: 'old-model' }))
+    };
+    await store.importDocument(legacy);
+
+    const getEmbeddings = EmbeddingService.prototype.getEmbeddings;
+    vi.spyOn(EmbeddingService.prototype, 'getEmbeddings').mockImplementationOnce(async function (this: EmbeddingService, texts, options) {
+      // Bearbeitung, während der Reindex einbettet
+      await store.updateChunk('legacy#v1#0', { text: 'Neuer Text zu den Lieferzeiten: Standardversand dauert jetzt zwei Werktage.' });
+      await store.updateChunk('legacy#v1#1', { disabled: true });
+      return getEmbeddings.call(this, texts, options);
+    });
+
+    const result = await store.reindexDocument('legacy');
+    const [edited, disabled] = await store.listChunks('legacy');
+
+    expect(result.chunks).toBe(1);
+    expect(edited).toMatchObject({ text: expect.stringContaining('zwei Werktage'), embeddingModel: LOCAL_EMBEDDING_MODEL });
+    expect(disabled).toMatchObject({ text: template.text, disabled: true, embeddingModel: LOCAL_EMBEDDING_MODEL });
+  });
+});
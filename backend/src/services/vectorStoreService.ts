@@ -1,459 +1,883 @@
 // backend/src/services/vectorStoreService.ts
-import fs from 'fs/promises';
-import path from 'path';
-
-interface DocumentChunk {
-  id: string;
-  text: string;
-  source: string;
-  uploadDate: string;
-  embedding?: number[];
-}
-
-// Typ für die Mistral Embedding Response
-interface MistralEmbeddingResponse {
-  data: {
-    embedding: number[];
-  }[];
-}
-
-export class VectorStoreService {
-  private documents: Map<string, { name: string, uploadDate: Date }> = new Map();
-  private chunks: DocumentChunk[] = [];
-  private mistralApiKey: string;
-
-  constructor() {
-    this.mistralApiKey = process.env.MISTRAL_API_KEY || '';
+import { FileKnowledgeBaseStorage } from './knowledgeBaseStorage';
+import { EMBEDDING_MODEL, EmbeddingService, SIMPLE_EMBEDDING_MODEL } from './embeddingService';
+import { Bm25Index, LexicalMatch } from './bm25Index';
+import { VectorIndex, createVectorIndex, dotProduct, normalizeVector } from './vectorIndex';
+import { resolveChunkingOptions, sameChunkingOptions } from './chunking';
+import { getReranker, getRerankCandidates, isRerankDefault, selectReranked, tryRerank } from './reranker';
+import { expandQuery, getDefaultRetrievalMode } from './queryExpansion';
+import { StageTimer, buildSearchTrace, getSearchLog } from './searchTrace';
+import { MMR_POOL_FACTOR, getDefaultMmrLambda, isMergeAdjacentDefault, mergeAdjacentChunks, selectByMmr } from './diversification';
+import {
+  AddDocumentOptions,
+  AddDocumentResult,
+  ChunkInfo,
+  ChunkSearchOptions,
+  ChunkUpdate,
+  DocumentAccess,
+  DocumentInfo,
+  DocumentUpdate,
+  DocumentVersionInfo,
+  ExportedDocument,
+  ReindexOptions,
+  SearchOptions,
+  SearchResult,
+  VectorStore,
+  VectorStoreStats
+} from './vectorStore';
+import {
+  DEFAULT_COLLECTION,
+  ScoredChunk,
+  chunkPosition,
+  createChunks,
+  extractText,
+  formatContext,
+  generateDocId,
+  hasScope,
+  hashContent,
+  isVisibleTo,
+  matchesFilter,
+  matchesPinnedQuery,
+  matchesScope,
+  mergeRankings,
+  normalizeCollection,
+  normalizePinnedQueries,
+  normalizeTags,
+  selectRelevantChunks,
+  toCitations,
+  withPinnedChunks
+} from './documentProcessing';
+import { DocumentChunk, DocumentVersion, KnowledgeBaseDocument } from '../types/knowledgeBase';
+
+// Konstante k der Reciprocal Rank Fusion (üblicher Wert aus der Literatur)
+const RRF_K = 60;
+// Wie viele Kandidaten je Verfahren in die Fusion eingehen
+const FUSION_CANDIDATES = 50;
+// Anzahl aufbewahrter Versionen pro Dokument (inkl. der aktiven)
+const MAX_DOCUMENT_VERSIONS = Number(process.env.MAX_DOCUMENT_VERSIONS) || 5;
+
+// In-Memory Vector Store; mit Storage werden alle Änderungen zusätzlich lokal persistiert.
+// Embeddings liegen nur im Vektorindex (Float32Array), nicht zusätzlich an den Chunks;
+// je Embedding-Modell gibt es einen eigenen Index, gesucht wird nur in dem des aktuellen Modells.
+// Chunks inaktiver Versionen werden für Rollbacks separat (mit Embeddings) vorgehalten.
+export class VectorStoreService implements VectorStore {
+  private documents: Map<string, KnowledgeBaseDocument> = new Map();
+  private chunks: Map<string, DocumentChunk> = new Map();
+  private archivedChunks: Map<string, DocumentChunk[]> = new Map();
+  private embeddingService = new EmbeddingService();
+  private reranker = getReranker();
+  private lexicalIndex = new Bm25Index();
+  private vectorIndexes: Map<string, VectorIndex> = new Map();
+  // IDs gepinnter aktiver Chunks, damit die Suche nicht alle Chunks prüfen muss
+  private pinnedChunks: Set<string> = new Set();
+  private defaultLexicalWeight: number;
+
+  constructor(
+    private storage: FileKnowledgeBaseStorage | null = null,
+    private createIndex: () => VectorIndex = () => createVectorIndex()
+  ) {
+    const weight = parseFloat(process.env.HYBRID_LEXICAL_WEIGHT || '');
+    this.defaultLexicalWeight = isNaN(weight) ? 0.5 : weight;
   }
 
   async initialize() {
-    console.log('Vector store initialized (in-memory mode)');
-    // Keine externe Initialisierung nötig für In-Memory Store
-  }
-
-  // Mistral API direkt aufrufen für Embeddings
-  private async getEmbedding(text: string): Promise<number[]> {
-    if (!this.mistralApiKey) {
-      return this.simpleEmbedding(text);
+    if (!this.storage) {
+      console.log('Vector store initialized (in-memory mode)');
+      return;
     }
 
-    try {
-      const response = await fetch('https://api.mistral.ai/v1/embeddings', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.mistralApiKey}`
-        },
-        body: JSON.stringify({
-          model: 'mistral-embed',
-          input: [text]
-        })
-      });
+    const snapshot = await this.storage.load();
 
-      if (!response.ok) {
-        throw new Error(`Mistral API error: ${response.statusText}`);
+    this.documents = new Map(snapshot.documents.map(doc => [
+      doc.id,
+      {
+        name: doc.name,
+        collection: doc.collection || DEFAULT_COLLECTION,
+        tags: doc.tags || [],
+        owner: doc.owner,
+        uploadDate: new Date(doc.uploadDate),
+        contentHash: doc.contentHash,
+        version: doc.version,
+        versions: doc.versions
       }
-
-      // Zuerst das rohe JSON lesen (unknown), dann casten und validieren
-      const raw = await response.json();
-      const data = raw as MistralEmbeddingResponse;
-
-      // Sicherheitschecks: existierende Felder & Typen prüfen
-      if (
-        !data ||
-        !Array.isArray(data.data) ||
-        data.data.length === 0 ||
-        !Array.isArray(data.data[0].embedding)
-      ) {
-        console.error('Unexpected embedding response from Mistral API:', raw);
-        return this.simpleEmbedding(text);
+    ]));
+    this.chunks.clear();
+    this.archivedChunks.clear();
+    this.lexicalIndex.clear();
+    this.vectorIndexes.clear();
+    this.pinnedChunks.clear();
+
+    for (const chunk of snapshot.chunks) {
+      const doc = this.documents.get(chunk.documentId);
+      if (!doc) continue;
+
+      if (chunk.embedding && !chunk.embeddingModel) {
+        chunk.embeddingModel = detectLegacyEmbeddingModel(chunk.embedding);
       }
 
-      return data.data[0].embedding;
-    } catch (error) {
-      console.error('Error generating embedding:', error);
-      return this.simpleEmbedding(text);
+      if (chunk.version === doc.version) {
+        this.indexChunk(chunk);
+      } else {
+        const key = this.archiveKey(chunk.documentId, chunk.version);
+        this.archivedChunks.set(key, [...(this.archivedChunks.get(key) || []), chunk]);
+      }
     }
-  }
 
-  // Einfache Fallback-"Embedding" Funktion
-  private simpleEmbedding(text: string): number[] {
-    const vector = new Array(1024).fill(0);
-    const words = text.toLowerCase().split(/\s+/);
+    console.log(`Vector store initialized (persistent mode: ${this.storage.getLocation()})`);
+  }
 
-    words.forEach((word, index) => {
-      if (index < 1024) {
-        let hash = 0;
-        for (let i = 0; i < word.length; i++) {
-          hash = ((hash << 5) - hash) + word.charCodeAt(i);
-          hash = hash & hash; // Convert to 32bit integer
-        }
-        vector[index % 1024] = Math.abs(hash % 100) / 100;
-      }
-    });
+  // Neues Dokument bzw. neue Version erst persistieren, dann in den Speicher übernehmen
+  private async commitDocument(docId: string, doc: KnowledgeBaseDocument, newChunks: DocumentChunk[]): Promise<void> {
+    if (this.storage) {
+      await this.storage.appendDocument(
+        {
+          id: docId,
+          name: doc.name,
+          collection: doc.collection,
+          tags: doc.tags,
+          owner: doc.owner,
+          uploadDate: doc.uploadDate.toISOString(),
+          contentHash: doc.contentHash,
+          version: doc.version,
+          versions: doc.versions
+        },
+        newChunks
+      );
+    }
 
-    return vector;
-  }
-
-  // Kosinusähnlichkeit berechnen
-  private cosineSimilarity(vec1: number[], vec2: number[]): number {
-    if (vec1.length !== vec2.length || vec1.length === 0) return 0;
-    
-    let dotProduct = 0;
-    let norm1 = 0;
-    let norm2 = 0;
-
-    for (let i = 0; i < vec1.length; i++) {
-      dotProduct += vec1[i] * vec2[i];
-      norm1 += vec1[i] * vec1[i];
-      norm2 += vec2[i] * vec2[i];
-    }
-
-    if (norm1 === 0 || norm2 === 0) return 0;
-    return dotProduct / (Math.sqrt(norm1) * Math.sqrt(norm2));
-  }
-
-  // Verbesserte Text-Chunking Funktion für PDFs
-  private splitText(text: string, chunkSize: number = 1000, overlap: number = 100): string[] {
-    const chunks: string[] = [];
-    
-    // Entferne mehrfache Leerzeichen und Zeilenumbrüche
-    const cleanedText = text.replace(/\s+/g, ' ').trim();
-    
-    // Versuche nach Sätzen zu splitten
-    const sentences = cleanedText.match(/[^.!?]+[.!?]+/g) || [cleanedText];
-    
-    let currentChunk = '';
-    let lastSentences: string[] = [];
-
-    for (const sentence of sentences) {
-      const trimmedSentence = sentence.trim();
-      
-      if ((currentChunk + ' ' + trimmedSentence).length > chunkSize && currentChunk.length > 0) {
-        // Füge den aktuellen Chunk hinzu
-        chunks.push(currentChunk.trim());
-        
-        // Starte neuen Chunk mit Overlap (letzte 1-2 Sätze vom vorherigen Chunk)
-        if (overlap > 0 && lastSentences.length > 0) {
-          const overlapText = lastSentences.slice(-2).join(' ');
-          currentChunk = overlapText + ' ' + trimmedSentence;
-        } else {
-          currentChunk = trimmedSentence;
-        }
-        
-        lastSentences = [trimmedSentence];
-      } else {
-        currentChunk = currentChunk ? currentChunk + ' ' + trimmedSentence : trimmedSentence;
-        lastSentences.push(trimmedSentence);
-        
-        // Behalte nur die letzten 3 Sätze für möglichen Overlap
-        if (lastSentences.length > 3) {
-          lastSentences.shift();
-        }
-      }
+    const previous = this.documents.get(docId);
+    if (previous) {
+      this.archiveActiveChunks(docId, previous.version);
     }
 
-    // Füge den letzten Chunk hinzu
-    if (currentChunk.trim()) {
-      chunks.push(currentChunk.trim());
+    for (const chunk of newChunks) {
+      this.indexChunk(chunk);
     }
+    this.documents.set(docId, doc);
 
-    return chunks;
+    // Archiv auf die aufbewahrten Versionen beschränken
+    const retained = new Set(doc.versions.map(v => v.version));
+    for (const version of previous?.versions || []) {
+      if (!retained.has(version.version)) {
+        this.archivedChunks.delete(this.archiveKey(docId, version.version));
+      }
+    }
   }
 
-  // NEU: Buffer parsing für Vercel
-  private async parseBuffer(buffer: Buffer, originalName: string): Promise<string> {
-    const ext = path.extname(originalName).toLowerCase();
+  private indexChunk(chunk: DocumentChunk): void {
+    const { embedding, ...rest } = chunk;
 
-    switch (ext) {
-      case '.txt':
-      case '.md':
-        return buffer.toString('utf-8');
+    if (embedding && chunk.embeddingModel) {
+      try {
+        this.indexFor(chunk.embeddingModel).add(chunk.id, embedding);
+      } catch (error) {
+        console.warn(`Skipping embedding of chunk ${chunk.id}:`, (error as Error).message);
+      }
+    }
 
-      case '.pdf':
-        try {
-          const pdfParse = require('pdf-parse');
-          const pdfData = await pdfParse(buffer);
-          return pdfData.text;
-        } catch (error) {
-          console.error('PDF parsing error:', error);
-          throw new Error('Failed to parse PDF file. Make sure pdf-parse is installed.');
-        }
+    this.lexicalIndex.add(chunk.id, chunk.text);
+    this.chunks.set(chunk.id, rest);
 
-      case '.docx':
-        try {
-          const mammoth = require('mammoth');
-          const result = await mammoth.extractRawText({ buffer });
-          return result.value;
-        } catch (error) {
-          console.log('DOCX parsing not available, treating as text');
-          return buffer.toString('utf-8');
-        }
+    if (chunk.pinnedQueries?.length) this.pinnedChunks.add(chunk.id);
+  }
 
-      default:
-        return buffer.toString('utf-8');
+  private removeChunk(chunkId: string): void {
+    const model = this.chunks.get(chunkId)?.embeddingModel;
+    if (model) {
+      this.vectorIndexes.get(model)?.remove(chunkId);
     }
+    this.lexicalIndex.remove(chunkId);
+    this.chunks.delete(chunkId);
+    this.pinnedChunks.delete(chunkId);
   }
 
-  // GEÄNDERT: Hauptmethode erweitert für Buffer UND File Path
-  async addDocument(input: string | Buffer, originalName: string): Promise<void> {
-    try {
-      let content: string;
+  private indexFor(model: string): VectorIndex {
+    let index = this.vectorIndexes.get(model);
+    if (!index) {
+      index = this.createIndex();
+      this.vectorIndexes.set(model, index);
+    }
+    return index;
+  }
 
-      // Unterscheide zwischen Buffer (Vercel) und File Path (lokal)
-      if (Buffer.isBuffer(input)) {
-        console.log(`Processing buffer for: ${originalName}`);
-        content = await this.parseBuffer(input, originalName);
-      } else {
-        // Originallogik für File Path beibehalten
-        const ext = path.extname(input).toLowerCase();
-        
-        if (ext === '.pdf') {
-          return this.processAndAddPDF(input, originalName);
-        }
-        
-        console.log(`Processing file: ${originalName}`);
-        content = await this.parseFile(input);
-        await fs.unlink(input); // Cleanup
-      }
+  // Dimension der gespeicherten Vektoren eines Modells (undefined, solange es keine gibt)
+  private dimensionOf(model: string): number | undefined {
+    for (const chunk of this.chunks.values()) {
+      const vector = chunk.embeddingModel === model ? this.vectorOf(chunk) : undefined;
+      if (vector) return vector.length;
+    }
+    return undefined;
+  }
 
-      if (!content || content.trim().length === 0) {
-        throw new Error('No text content extracted from file');
-      }
+  private vectorOf(chunk: DocumentChunk): Float32Array | undefined {
+    return chunk.embeddingModel ? this.vectorIndexes.get(chunk.embeddingModel)?.getVector(chunk.id) : undefined;
+  }
 
-      console.log(`Extracted ${content.length} characters from ${originalName}`);
+  private getDocumentChunks(docId: string): DocumentChunk[] {
+    return Array.from(this.chunks.values()).filter(chunk => chunk.documentId === docId);
+  }
 
-      const textChunks = this.splitText(content, 1000, 100);
-      const uploadDate = new Date().toISOString();
+  // Aktive Chunks eines Dokuments aus den Indizes nehmen und mit Embeddings archivieren
+  private archiveActiveChunks(docId: string, version: number): void {
+    const archived = this.getDocumentChunks(docId).map(chunk => {
+      const vector = this.vectorOf(chunk);
+      this.removeChunk(chunk.id);
+      return { ...chunk, embedding: vector ? Array.from(vector) : undefined };
+    });
 
-      console.log(`Split into ${textChunks.length} chunks`);
+    this.archivedChunks.set(this.archiveKey(docId, version), archived);
+  }
 
-      // Chunks mit Embeddings speichern
-      for (let i = 0; i < textChunks.length; i++) {
-        const chunkText = textChunks[i];
-        
-        if (chunkText.length < 50) continue;
-        
-        const embedding = await this.getEmbedding(chunkText);
+  private archiveKey(docId: string, version: number): string {
+    return `${docId}@${version}`;
+  }
 
-        const chunk: DocumentChunk = {
-          id: `${originalName}_chunk_${i}_${Date.now()}`,
-          text: chunkText,
-          source: originalName,
-          uploadDate: uploadDate,
-          embedding: embedding
+  private toDocumentInfo(id: string, doc: KnowledgeBaseDocument): DocumentInfo {
+    return {
+      id,
+      name: doc.name,
+      uploadDate: doc.uploadDate,
+      version: doc.version,
+      collection: doc.collection,
+      tags: doc.tags,
+      ...(doc.owner && { owner: doc.owner })
+    };
+  }
+
+  // Buffer (Vercel) oder File Path (lokal) verarbeiten.
+  // Gleicher Dateiname => neue Version, identischer Inhalt => kein erneutes Einlesen
+  // (außer es wurden andere Chunking-Parameter angegeben)
+  async addDocument(input: string | Buffer, originalName: string, options: AddDocumentOptions = {}): Promise<AddDocumentResult> {
+    try {
+      options.onProgress?.({ phase: 'parsing', processedChunks: 0, totalChunks: 0 });
+      const extracted = await extractText(input, originalName, options.extract);
+      const contentHash = hashContent(extracted.text);
+      const chunking = resolveChunkingOptions(originalName, options.chunking);
+
+      // Gleicher Name bzw. Inhalt zählt nur beim selben Besitzer (gemeinsam bzw. derselbe Benutzer)
+      const ownDocuments = Array.from(this.documents.entries()).filter(([, doc]) => doc.owner === options.owner);
+      const existingEntry = ownDocuments.find(([, doc]) => doc.name === originalName);
+      const activeChunking = existingEntry?.[1].versions.find(v => v.version === existingEntry[1].version)?.chunking;
+
+      if (existingEntry && existingEntry[1].contentHash === contentHash &&
+          (!options.chunking || sameChunkingOptions(activeChunking, chunking))) {
+        const [existingId, existing] = existingEntry;
+        console.log(`Document ${originalName} is unchanged (version ${existing.version})`);
+
+        // Erneuter Upload mit anderer Sammlung bzw. anderen Tags ändert nur diese
+        if (options.collection !== undefined || options.tags !== undefined) {
+          await this.updateDocument(existingId, { collection: options.collection, tags: options.tags }, { allUsers: true });
+        }
+
+        return {
+          documentId: existingId,
+          name: existing.name,
+          version: existing.version,
+          chunks: this.getDocumentChunks(existingId).length,
+          status: 'unchanged'
         };
+      }
 
-        this.chunks.push(chunk);
+      if (!existingEntry) {
+        const duplicate = ownDocuments.find(([, doc]) => doc.contentHash === contentHash);
+        if (duplicate) {
+          const [duplicateId, duplicateDoc] = duplicate;
+          console.log(`Document ${originalName} has the same content as ${duplicateDoc.name}, skipping`);
+          return {
+            documentId: duplicateId,
+            name: duplicateDoc.name,
+            version: duplicateDoc.version,
+            chunks: this.getDocumentChunks(duplicateId).length,
+            status: 'duplicate'
+          };
+        }
       }
 
-      const docId = this.generateDocId(originalName);
-      this.documents.set(docId, {
+      const existing = existingEntry?.[1];
+      const collection = options.collection !== undefined
+        ? normalizeCollection(options.collection)
+        : existing?.collection ?? DEFAULT_COLLECTION;
+      const tags = options.tags !== undefined ? normalizeTags(options.tags) : existing?.tags ?? [];
+      const docId = existingEntry ? existingEntry[0] : generateDocId(originalName);
+      const version = existing ? Math.max(...existing.versions.map(v => v.version)) + 1 : 1;
+
+      const newChunks = await createChunks(
+        extracted,
+        { documentId: docId, version, source: originalName, route: options.route },
+        this.embeddingService,
+        chunking,
+        options
+      );
+      options.signal?.throwIfAborted();
+      const uploadDate = new Date();
+
+      const versions: DocumentVersion[] = [
+        ...(existing?.versions || []),
+        { version, contentHash, uploadDate: uploadDate.toISOString(), chunks: newChunks.length, chunking }
+      ].slice(-MAX_DOCUMENT_VERSIONS);
+
+      await this.commitDocument(docId, {
         name: originalName,
-        uploadDate: new Date()
-      });
-
-      console.log(`Document ${originalName} successfully added: ${textChunks.length} chunks created`);
+        collection,
+        tags,
+        owner: options.owner,
+        uploadDate,
+        contentHash,
+        version,
+        versions
+      }, newChunks);
+
+      console.log(`Document ${originalName} successfully added as version ${version}: ${newChunks.length} chunks created`);
+
+      return {
+        documentId: docId,
+        name: originalName,
+        version,
+        chunks: newChunks.length,
+        status: existing ? 'updated' : 'created'
+      };
     } catch (error) {
       console.error('Error adding document:', error);
       throw error;
     }
   }
 
-  // Spezielle Methode für PDF-Verarbeitung (UNVERÄNDERT)
-  async processAndAddPDF(filePath: string, originalName: string): Promise<void> {
+  // Hybride Suche: Kosinusähnlichkeit und BM25, fusioniert per Reciprocal Rank Fusion;
+  // mit Reranking bewertet der Reranker einen breiteren Kandidatensatz neu.
+  // Bei multi-query bzw. HyDE wird mit den erweiterten Anfragen gesucht, Reranker und Pins
+  // bewerten weiter die ursprüngliche Anfrage. Aus den relevanten Treffern wählt MMR
+  // möglichst unterschiedliche aus.
+  async searchSimilar(query: string, options: SearchOptions = {}): Promise<SearchResult> {
+    const topK = options.topK ?? 5;
+    const lexicalWeight = Math.min(1, Math.max(0, options.lexicalWeight ?? this.defaultLexicalWeight));
+    const reranker = (options.rerank ?? isRerankDefault()) ? this.reranker : null;
+    const mmrLambda = Math.min(1, Math.max(0, options.mmrLambda ?? getDefaultMmrLambda()));
+    const poolSize = mmrLambda < 1 ? topK * MMR_POOL_FACTOR : topK;
+    const candidateCount = Math.max(poolSize, reranker ? getRerankCandidates() : 0);
+    const fusionCandidates = Math.max(FUSION_CANDIDATES, candidateCount);
+    const retrievalMode = options.retrievalMode ?? getDefaultRetrievalMode();
+    const timer = new StageTimer();
+    const log = getSearchLog(options.quiet);
+
     try {
-      console.log(`Processing PDF: ${originalName}`);
-      
-      // PDF-Inhalt extrahieren
-      const content = await this.parseFile(filePath);
-      
-      if (!content || content.trim().length === 0) {
-        throw new Error('No text content extracted from PDF');
+      if (this.chunks.size === 0) {
+        return { context: '', citations: [] };
       }
-      
-      console.log(`Extracted ${content.length} characters from PDF`);
-      
-      // Text in Chunks aufteilen mit Overlap für besseren Kontext
-      const textChunks = this.splitText(content, 1000, 100);
-      const uploadDate = new Date().toISOString();
-      
-      console.log(`Split into ${textChunks.length} chunks`);
-      
-      // Chunks mit Embeddings speichern
-      for (let i = 0; i < textChunks.length; i++) {
-        const chunkText = textChunks[i];
-        
-        // Skip sehr kurze Chunks
-        if (chunkText.length < 50) continue;
-        
-        const embedding = await this.getEmbedding(chunkText);
-
-        const chunk: DocumentChunk = {
-          id: `${originalName}_chunk_${i}_${Date.now()}`,
-          text: chunkText,
-          source: originalName,
-          uploadDate: uploadDate,
-          embedding: embedding
-        };
 
-        this.chunks.push(chunk);
+      // Mit Filter nur unter den passenden Tabellenzeilen bzw. Datensätzen der gewählten Sammlungen suchen.
+      // Deaktivierte Chunks und private Dokumente anderer Benutzer schließt accept direkt in der
+      // Indexsuche aus, damit der ANN-Index dafür nicht umgangen wird
+      const allowed = options.filter || hasScope(options) ? this.filterChunkIds(options) : null;
+      if (allowed && allowed.size === 0) {
+        log('No chunks match the filter');
+        return { context: '', citations: [] };
       }
+      const accept = allowed ? (id: string) => allowed.has(id) : this.acceptVisibleChunks(options.userId);
+
+      log(`Searching for: "${query}" in ${allowed ? allowed.size : this.chunks.size} chunks (lexical weight ${lexicalWeight})`);
+
+      const expanded = await expandQuery(query, retrievalMode, log);
+      timer.lap('expansion');
+
+      const vectorRanking = lexicalWeight < 1
+        ? await this.rankByVector(expanded.vectorQueries, lexicalWeight === 0 ? candidateCount : fusionCandidates, allowed, accept)
+        : [];
+      const lexicalRanking = lexicalWeight > 0 ? this.rankLexical(expanded.lexicalQueries, fusionCandidates, accept) : [];
+      const candidates = lexicalWeight === 0
+        ? vectorRanking
+        : this.fuseRankings(vectorRanking, lexicalRanking, lexicalWeight).slice(0, candidateCount);
+      timer.lap('retrieval');
+
+      // Fällt der Reranker aus, gilt die Auswahl der ersten Stufe
+      const reranked = reranker ? await tryRerank(reranker, query, candidates, log) : null;
+      timer.lap('rerank');
+
+      const pool = candidates.slice(0, poolSize);
+      const relevant = reranker && reranked
+        ? selectReranked(reranked, reranker.minScore, poolSize)
+        : lexicalWeight === 0
+          ? selectRelevantChunks(pool, this.embeddingService.minRelevance)
+          : this.filterFusedChunks(pool, vectorRanking, lexicalRanking, lexicalWeight);
+      const selected = selectByMmr(relevant, this.vectorsOf(relevant), topK, mmrLambda);
+
+      const withPinned = withPinnedChunks(selected, this.findPinnedChunks(query, accept));
+      const relevantChunks = (options.mergeAdjacent ?? isMergeAdjacentDefault()) ? mergeAdjacentChunks(withPinned) : withPinned;
+      timer.lap('selection');
+
+      const trace = options.trace
+        ? buildSearchTrace({
+          query, retrievalMode, expanded, lexicalWeight, reranker, reranked, mmrLambda, topK,
+          candidates, considered: reranked || pool, relevant, results: relevantChunks, timer
+        })
+        : undefined;
 
-      // Dokument registrieren
-      const docId = this.generateDocId(originalName);
-      this.documents.set(docId, {
-        name: originalName,
-        uploadDate: new Date()
-      });
+      if (relevantChunks.length === 0) {
+        log('No relevant chunks found');
+        return { context: '', citations: [], trace };
+      }
 
-      // Cleanup: Temporäre Datei löschen
-      await fs.unlink(filePath);
+      log(`Found ${relevantChunks.length} relevant chunks with scores:`,
+        relevantChunks.map(c => c.score.toFixed(3)));
 
-      console.log(`PDF ${originalName} successfully added: ${textChunks.length} chunks created`);
+      return { context: formatContext(relevantChunks), citations: toCitations(relevantChunks), trace };
     } catch (error) {
-      console.error('Error processing PDF:', error);
-      // Cleanup bei Fehler
-      try {
-        await fs.unlink(filePath);
-      } catch (e) {
-        // Ignore cleanup errors
-      }
-      throw error;
+      console.error('Error searching documents:', error);
+      return { context: '', citations: [] };
     }
   }
 
-  // Verbesserte Suche mit mehr Kontext (UNVERÄNDERT)
-  async searchSimilar(query: string, topK: number = 5): Promise<string> {
-    try {
-      if (this.chunks.length === 0) {
-        return '';
-      }
+  private filterChunkIds(options: SearchOptions): Set<string> {
+    const documentIds = new Set(Array.from(this.documents.entries())
+      .filter(([, doc]) => isVisibleTo(doc, { userId: options.userId }) && matchesScope(doc, options))
+      .map(([id]) => id));
 
-      console.log(`Searching for: "${query}" in ${this.chunks.length} chunks`);
+    return new Set(Array.from(this.chunks.values())
+      .filter(chunk => !chunk.disabled && documentIds.has(chunk.documentId) &&
+        (!options.filter || matchesFilter(chunk.fields, options.filter)))
+      .map(chunk => chunk.id));
+  }
 
-      const queryEmbedding = await this.getEmbedding(query);
+  // Private Dokumente anderer Benutzer gelten als nicht vorhanden
+  private getVisibleDocument(docId: string, access: DocumentAccess): KnowledgeBaseDocument {
+    const doc = this.documents.get(docId);
+    if (!doc || !isVisibleTo(doc, access)) {
+      throw new Error('Document not found');
+    }
+    return doc;
+  }
 
-      const similarities = this.chunks.map(chunk => ({
-        chunk,
-        score: chunk.embedding ?
-          this.cosineSimilarity(queryEmbedding, chunk.embedding) :
-          this.textSimilarity(query, chunk.text)
-      }));
+  private hiddenDocumentIds(access: DocumentAccess): Set<string> {
+    return new Set(Array.from(this.documents.entries())
+      .filter(([, doc]) => !isVisibleTo(doc, access))
+      .map(([id]) => id));
+  }
 
-      similarities.sort((a, b) => b.score - a.score);
-      const topChunks = similarities.slice(0, topK);
+  // Aktive Chunks sichtbarer Dokumente
+  private acceptVisibleChunks(userId: string | undefined): (id: string) => boolean {
+    const hidden = this.hiddenDocumentIds({ userId });
 
-      // Dynamischer Threshold basierend auf den Scores
-      const maxScore = topChunks[0]?.score || 0;
-      const threshold = Math.max(0.3, maxScore * 0.5); // Mindestens 50% des besten Scores
-      
-      const relevantChunks = topChunks.filter(item => item.score > threshold);
+    return id => {
+      const chunk = this.chunks.get(id);
+      return !!chunk && !chunk.disabled && !hidden.has(chunk.documentId);
+    };
+  }
 
-      if (relevantChunks.length === 0) {
-        console.log('No relevant chunks found');
-        return '';
-      }
+  private findPinnedChunks(query: string, accept: (id: string) => boolean): DocumentChunk[] {
+    return Array.from(this.pinnedChunks)
+      .map(id => this.chunks.get(id)!)
+      .filter(chunk => accept(chunk.id) && matchesPinnedQuery(chunk, query))
+      .sort((a, b) => chunkPosition(a) - chunkPosition(b));
+  }
 
-      console.log(`Found ${relevantChunks.length} relevant chunks with scores:`, 
-        relevantChunks.map(c => c.score.toFixed(3)));
+  // Vektoren des aktuellen Modells (für MMR); Chunks anderer Modelle haben keinen
+  private vectorsOf(items: ScoredChunk[]): Map<string, Float32Array> {
+    const index = this.vectorIndexes.get(this.embeddingService.model);
+    const vectors = new Map<string, Float32Array>();
+    for (const item of items) {
+      const vector = index?.getVector(item.chunk.id);
+      if (vector) vectors.set(item.chunk.id, vector);
+    }
+    return vectors;
+  }
 
-      // Formatiere Kontext mit besserer Struktur
-      return relevantChunks
-        .map(item => {
-          const source = item.chunk.source;
-          const text = item.chunk.text;
-          return `[Source: ${source}]\n${text}`;
-        })
-        .join('\n\n---\n\n');
-    } catch (error) {
-      console.error('Error searching documents:', error);
-      return '';
+  // Nur Vektoren des Modells vergleichen, mit dem auch die Anfragen eingebettet werden;
+  // bei mehreren Anfragen zählt je Chunk die beste Ähnlichkeit
+  private async rankByVector(
+    queries: string[],
+    limit: number,
+    allowed: Set<string> | null,
+    accept: (id: string) => boolean
+  ): Promise<ScoredChunk[]> {
+    const index = this.vectorIndexes.get(this.embeddingService.model);
+    if (!index || index.size === 0) {
+      console.log(`No chunks embedded with ${this.embeddingService.model}, skipping vector search`);
+      return [];
     }
+
+    const queryEmbeddings = await this.embeddingService.getEmbeddings(queries);
+    return mergeRankings(
+      queryEmbeddings.map(embedding => this.rankEmbedding(index, embedding, limit, allowed, accept)),
+      item => item.chunk.id,
+      limit
+    );
+  }
+
+  private rankEmbedding(
+    index: VectorIndex,
+    queryEmbedding: number[],
+    limit: number,
+    allowed: Set<string> | null,
+    accept: (id: string) => boolean
+  ): ScoredChunk[] {
+    // Per Filter bzw. Sammlung ausgewählte Teilmenge exakt durchsuchen: bei kleinen Teilmengen schneller,
+    // als den Graphen nach wenigen passenden Knoten abzusuchen
+    if (allowed) {
+      const normalized = normalizeVector(queryEmbedding);
+      return Array.from(allowed)
+        .map(id => ({ id, vector: index.getVector(id) }))
+        .filter(({ vector }) => vector && vector.length === normalized.length)
+        .map(({ id, vector }) => ({ chunk: this.chunks.get(id)!, score: dotProduct(normalized, vector!) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    }
+
+    // Deaktivierte Chunks bleiben im Index und werden wie unsichtbare über accept übersprungen
+    return index.search(queryEmbedding, limit, accept)
+      .map(match => ({ chunk: this.chunks.get(match.id)!, score: match.score }));
+  }
+
+  private rankLexical(queries: string[], limit: number, accept: (id: string) => boolean): LexicalMatch[] {
+    return mergeRankings(queries.map(query => this.lexicalIndex.search(query, limit, accept)), match => match.id, limit);
   }
 
-  private textSimilarity(query: string, text: string): number {
-    const queryWords = query.toLowerCase().split(/\s+/);
-    const textLower = text.toLowerCase();
-    let matches = 0;
+  private fuseRankings(
+    vectorCandidates: ScoredChunk[],
+    lexicalCandidates: LexicalMatch[],
+    lexicalWeight: number
+  ): ScoredChunk[] {
+    const fused: Map<string, ScoredChunk> = new Map();
+
+    vectorCandidates.forEach((item, rank) => {
+      fused.set(item.chunk.id, {
+        chunk: item.chunk,
+        score: (1 - lexicalWeight) / (RRF_K + rank + 1),
+        vectorScore: item.score
+      });
+    });
+
+    lexicalCandidates.forEach((match, rank) => {
+      const contribution = lexicalWeight / (RRF_K + rank + 1);
+      const existing = fused.get(match.id);
 
-    queryWords.forEach(word => {
-      if (textLower.includes(word)) {
-        matches++;
+      if (existing) {
+        existing.score += contribution;
+        existing.lexicalScore = match.score;
+        return;
+      }
+
+      const chunk = this.chunks.get(match.id);
+      if (chunk) {
+        fused.set(match.id, { chunk, score: contribution, lexicalScore: match.score });
       }
     });
 
-    return matches / queryWords.length;
+    return Array.from(fused.values()).sort((a, b) => b.score - a.score);
   }
 
-  async listDocuments(): Promise<Array<{ id: string, name: string, uploadDate: Date }>> {
-    return Array.from(this.documents.entries()).map(([id, doc]) => ({
-      id,
-      ...doc
+  private filterFusedChunks(
+    ranked: ScoredChunk[],
+    vectorCandidates: ScoredChunk[],
+    lexicalCandidates: LexicalMatch[],
+    lexicalWeight: number
+  ): ScoredChunk[] {
+    // RRF-Scores sind nicht kalibriert: Relevanz je Verfahren mit dessen eigenem Maßstab prüfen
+    const maxVector = vectorCandidates[0]?.score || 0;
+    const vectorThreshold = Math.max(this.embeddingService.minRelevance, maxVector * 0.5);
+    const maxLexical = lexicalCandidates[0]?.score || 0;
+
+    return ranked.filter(item =>
+      (lexicalWeight < 1 && (item.vectorScore ?? 0) > vectorThreshold) ||
+      (lexicalWeight > 0 && (item.lexicalScore ?? 0) > 0 && item.lexicalScore! >= maxLexical * 0.5)
+    );
+  }
+
+  async listDocuments(access: DocumentAccess = {}): Promise<DocumentInfo[]> {
+    return Array.from(this.documents.entries())
+      .filter(([, doc]) => isVisibleTo(doc, access))
+      .map(([id, doc]) => this.toDocumentInfo(id, doc));
+  }
+
+  async listVersions(docId: string, access: DocumentAccess = {}): Promise<DocumentVersionInfo[]> {
+    const doc = this.getVisibleDocument(docId, access);
+
+    return doc.versions.map(version => ({
+      version: version.version,
+      contentHash: version.contentHash,
+      uploadDate: new Date(version.uploadDate),
+      chunks: version.chunks,
+      chunking: version.chunking,
+      active: version.version === doc.version
     }));
   }
 
-  async deleteDocument(docId: string): Promise<void> {
+  // Ältere Version wieder aktivieren (ohne erneutes Embedding)
+  async rollbackDocument(docId: string, version: number, access: DocumentAccess = {}): Promise<DocumentInfo> {
+    const doc = this.getVisibleDocument(docId, access);
+
+    const target = doc.versions.find(v => v.version === version);
+    if (!target) {
+      throw new Error(`Version ${version} not found`);
+    }
+
+    if (version !== doc.version) {
+      const archived = this.archivedChunks.get(this.archiveKey(docId, version));
+      if (!archived) {
+        throw new Error(`Version ${version} not found`);
+      }
+
+      if (this.storage) {
+        await this.storage.activateVersion(docId, version);
+      }
+
+      this.archiveActiveChunks(docId, doc.version);
+      for (const chunk of archived) {
+        this.indexChunk(chunk);
+      }
+      this.archivedChunks.delete(this.archiveKey(docId, version));
+
+      doc.version = target.version;
+      doc.contentHash = target.contentHash;
+      doc.uploadDate = new Date(target.uploadDate);
+
+      console.log(`Document ${doc.name} rolled back to version ${version}`);
+    }
+
+    return this.toDocumentInfo(docId, doc);
+  }
+
+  // Betrifft nur die Zuordnung; Chunks und Embeddings bleiben unverändert
+  async updateDocument(docId: string, changes: DocumentUpdate, access: DocumentAccess = {}): Promise<DocumentInfo> {
+    const doc = this.getVisibleDocument(docId, access);
+
+    const collection = changes.collection !== undefined ? normalizeCollection(changes.collection) : doc.collection;
+    const tags = changes.tags !== undefined ? normalizeTags(changes.tags) : doc.tags;
+
+    if (collection !== doc.collection || tags.join('\n') !== doc.tags.join('\n')) {
+      if (this.storage) {
+        await this.storage.updateDocument(docId, collection, tags);
+      }
+      doc.collection = collection;
+      doc.tags = tags;
+
+      console.log(`Document ${doc.name} moved to collection "${collection}" with tags [${tags.join(', ')}]`);
+    }
+
+    return this.toDocumentInfo(docId, doc);
+  }
+
+  // Nach einem Modellwechsel: nur Chunks mit abweichendem Modell neu einbetten (Text und Metadaten bleiben)
+  async reindexDocument(docId: string, options: ReindexOptions = {}): Promise<AddDocumentResult> {
     const doc = this.documents.get(docId);
     if (!doc) {
       throw new Error('Document not found');
     }
 
-    this.chunks = this.chunks.filter(chunk => chunk.source !== doc.name);
-    this.documents.delete(docId);
-    
-    console.log(`Document ${doc.name} deleted`);
+    const model = this.embeddingService.model;
+    const stale = this.getDocumentChunks(docId).filter(chunk => chunk.embeddingModel !== model);
+
+    options.onProgress?.({ phase: 'embedding', processedChunks: 0, totalChunks: stale.length });
+    const embeddings = await this.embeddingService.getEmbeddings(stale.map(chunk => chunk.text), {
+      signal: options.signal,
+      onProgress: (embedded, total) => options.onProgress?.({ phase: 'embedding', processedChunks: embedded, totalChunks: total })
+    });
+    options.signal?.throwIfAborted();
+
+    // Inzwischen ersetzte oder gelöschte Chunks nicht wieder aktivieren; per updateChunk bearbeitete
+    // (anderer Text bzw. schon neu eingebettet) behalten ihr Embedding. Metadaten vom aktuellen Stand übernehmen.
+    const updated: DocumentChunk[] = [];
+    stale.forEach((chunk, i) => {
+      const current = this.chunks.get(chunk.id);
+      if (current && current.text === chunk.text && current.embeddingModel === chunk.embeddingModel) {
+        updated.push({ ...current, embedding: embeddings[i], embeddingModel: model });
+      }
+    });
+
+    if (this.storage && updated.length > 0) {
+      await this.storage.updateChunks(updated);
+    }
+    for (const chunk of updated) {
+      this.removeChunk(chunk.id);
+      this.indexChunk(chunk);
+    }
+
+    console.log(`Document ${doc.name} reindexed with ${model}: ${updated.length} chunks re-embedded`);
+
+    return { documentId: docId, name: doc.name, version: doc.version, chunks: updated.length, status: 'reindexed' };
   }
 
-  private async parseFile(filePath: string): Promise<string> {
-    const ext = path.extname(filePath).toLowerCase();
-    const fileBuffer = await fs.readFile(filePath);
+  async listChunks(docId: string, access: DocumentAccess = {}): Promise<ChunkInfo[]> {
+    this.getVisibleDocument(docId, access);
+    return this.getDocumentChunks(docId).sort((a, b) => chunkPosition(a) - chunkPosition(b));
+  }
 
-    switch (ext) {
-      case '.txt':
-      case '.md':
-        return fileBuffer.toString('utf-8');
+  // Lexikalisch (BM25), damit auch exakte Formulierungen aus einer Antwort gefunden werden
+  async searchChunks(query: string, options: ChunkSearchOptions = {}): Promise<Array<ChunkInfo & { score: number }>> {
+    const access = { userId: options.userId };
+    if (options.documentId) {
+      this.getVisibleDocument(options.documentId, access);
+    }
+    const hidden = this.hiddenDocumentIds(access);
+    const accept = (id: string) => {
+      const chunk = this.chunks.get(id);
+      return !!chunk && !hidden.has(chunk.documentId) && (!options.documentId || chunk.documentId === options.documentId);
+    };
 
-      case '.pdf':
-        try {
-          const pdfParse = require('pdf-parse');
-          const pdfData = await pdfParse(fileBuffer);
-          return pdfData.text;
-        } catch (error) {
-          console.error('PDF parsing error:', error);
-          throw new Error('Failed to parse PDF file. Make sure pdf-parse is installed.');
-        }
+    return this.lexicalIndex.search(query, options.limit ?? 20, accept)
+      .map(match => ({ ...this.chunks.get(match.id)!, score: match.score }));
+  }
 
-      case '.docx':
-        try {
-          const mammoth = require('mammoth');
-          const result = await mammoth.extractRawText({ buffer: fileBuffer });
-          return result.value;
-        } catch (error) {
-          console.log('DOCX parsing not available, treating as text');
-          return fileBuffer.toString('utf-8');
-        }
+  async updateChunk(chunkId: string, changes: ChunkUpdate, access: DocumentAccess = {}): Promise<ChunkInfo> {
+    const chunk = this.chunks.get(chunkId);
+    const doc = chunk && this.documents.get(chunk.documentId);
+    if (!chunk || !doc || !isVisibleTo(doc, access)) {
+      throw new Error('Chunk not found');
+    }
+
+    const vector = this.vectorOf(chunk);
+    const updated: DocumentChunk = { ...chunk, embedding: vector ? Array.from(vector) : undefined };
+
+    if (changes.text !== undefined && changes.text !== chunk.text) {
+      updated.text = changes.text;
+      updated.embedding = await this.embeddingService.getEmbedding(changes.text);
+      updated.embeddingModel = this.embeddingService.model;
+      updated.editedAt = new Date().toISOString();
+
+      // Während des Einbettens durch eine neue Version ersetzt oder gelöscht
+      if (!this.chunks.has(chunkId)) {
+        throw new Error('Chunk not found');
+      }
+    }
 
-      default:
-        return fileBuffer.toString('utf-8');
+    if (changes.disabled !== undefined) {
+      if (changes.disabled) updated.disabled = true;
+      else delete updated.disabled;
     }
+
+    if (changes.pinnedQueries !== undefined) {
+      const pinnedQueries = normalizePinnedQueries(changes.pinnedQueries);
+      if (pinnedQueries.length > 0) updated.pinnedQueries = pinnedQueries;
+      else delete updated.pinnedQueries;
+    }
+
+    if (this.storage) {
+      await this.storage.updateChunks([updated]);
+    }
+    this.removeChunk(chunkId);
+    this.indexChunk(updated);
+
+    console.log(`Chunk ${chunkId} updated`);
+
+    return this.chunks.get(chunkId)!;
   }
 
-  private generateDocId(filename: string): string {
-    return `${Date.now()}_${filename.replace(/[^a-zA-Z0-9]/g, '_')}`;
+  async deleteDocument(docId: string, access: DocumentAccess = {}): Promise<void> {
+    const doc = this.getVisibleDocument(docId, access);
+
+    if (this.storage) {
+      await this.storage.removeDocument(docId);
+    }
+
+    for (const chunk of this.getDocumentChunks(docId)) {
+      this.removeChunk(chunk.id);
+    }
+    for (const version of doc.versions) {
+      this.archivedChunks.delete(this.archiveKey(docId, version.version));
+    }
+    this.documents.delete(docId);
+
+    console.log(`Document ${doc.name} deleted`);
   }
 
-  // Utility-Methode zum Abrufen der Statistiken
-  getStats() {
+  // Aktive Version mit Embeddings aus dem Vektorindex
+  async exportDocument(docId: string): Promise<ExportedDocument> {
+    const doc = this.documents.get(docId);
+    if (!doc) {
+      throw new Error('Document not found');
+    }
+
     return {
-      totalDocuments: this.documents.size,
-      totalChunks: this.chunks.length,
-      documents: Array.from(this.documents.entries()).map(([id, doc]) => ({
-        id,
+      document: {
+        id: docId,
         name: doc.name,
-        uploadDate: doc.uploadDate,
-        chunks: this.chunks.filter(c => c.source === doc.name).length
+        collection: doc.collection,
+        tags: doc.tags,
+        ...(doc.owner && { owner: doc.owner }),
+        uploadDate: doc.uploadDate.toISOString(),
+        contentHash: doc.contentHash,
+        version: doc.version,
+        versions: doc.versions.filter(v => v.version === doc.version)
+      },
+      chunks: this.getDocumentChunks(docId)
+        .sort((a, b) => chunkPosition(a) - chunkPosition(b))
+        .map(chunk => {
+          const vector = this.vectorOf(chunk);
+          return vector ? { ...chunk, embedding: Array.from(vector) } : chunk;
+        })
+    };
+  }
+
+  // Chunks ohne Embedding findet bis zum Reindex nur die lexikalische Suche; vorhandene Embeddings
+  // müssen die Dimension haben, die der Index für ihr Modell schon hat
+  async validateImport(exported: ExportedDocument): Promise<void> {
+    for (const chunk of exported.chunks) {
+      if (!chunk.embedding || !chunk.embeddingModel) continue;
+
+      const dimension = this.dimensionOf(chunk.embeddingModel);
+      if (dimension !== undefined && chunk.embedding.length !== dimension) {
+        throw new Error(`Invalid import: chunk ${chunk.id} has an embedding of dimension ${chunk.embedding.length}, ` +
+          `stored ${chunk.embeddingModel} embeddings have dimension ${dimension}`);
+      }
+    }
+  }
+
+  async importDocument(exported: ExportedDocument): Promise<DocumentInfo> {
+    const { document, chunks } = exported;
+    await this.validateImport(exported);
+    if (this.documents.has(document.id)) {
+      throw new Error(`Document already exists: ${document.id}`);
+    }
+
+    const doc: KnowledgeBaseDocument = {
+      name: document.name,
+      collection: document.collection ? normalizeCollection(document.collection) : DEFAULT_COLLECTION,
+      tags: normalizeTags(document.tags || []),
+      owner: document.owner,
+      uploadDate: new Date(document.uploadDate),
+      contentHash: document.contentHash,
+      version: document.version,
+      versions: document.versions
+    };
+    await this.commitDocument(document.id, doc, chunks);
+
+    console.log(`Document ${doc.name} imported: ${chunks.length} chunks`);
+
+    return this.toDocumentInfo(document.id, doc);
+  }
+
+  // Utility-Methode zum Abrufen der Statistiken (nur über die sichtbaren Dokumente)
+  async getStats(access: DocumentAccess = {}): Promise<VectorStoreStats> {
+    const hidden = this.hiddenDocumentIds(access);
+
+    // Chunks einmal durchzählen statt pro Dokument zu filtern
+    const chunkCounts: Map<string, number> = new Map();
+    const embeddingModels: Record<string, number> = {};
+    let totalChunks = 0;
+    this.chunks.forEach(chunk => {
+      if (hidden.has(chunk.documentId)) return;
+      totalChunks++;
+      chunkCounts.set(chunk.documentId, (chunkCounts.get(chunk.documentId) || 0) + 1);
+      const model = chunk.embeddingModel || 'none';
+      embeddingModels[model] = (embeddingModels[model] || 0) + 1;
+    });
+
+    const documents = Array.from(this.documents.entries()).filter(([id]) => !hidden.has(id));
+
+    return {
+      totalDocuments: documents.length,
+      totalChunks,
+      embeddingModel: this.embeddingService.model,
+      embeddingModels,
+      documents: documents.map(([id, doc]) => ({
+        ...this.toDocumentInfo(id, doc),
+        chunks: chunkCounts.get(id) || 0
       }))
     };
   }
-}
\ No newline at end of file
+}
+
+// Chunks, die vor der Erfassung des Modells gespeichert wurden: die Hash-Vektoren
+// ohne API-Key bestehen nur aus Vielfachen von 0.01, echte Embeddings nie
+function detectLegacyEmbeddingModel(embedding: number[]): string {
+  const hashed = embedding.every(value => Math.abs(value * 100 - Math.round(value * 100)) < 1e-6);
+  return hashed ? SIMPLE_EMBEDDING_MODEL : EMBEDDING_MODEL;
+}
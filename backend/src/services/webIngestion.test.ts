@@ -0,0 +1,138 @@
+import dns from 'dns/promises';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { assertPublicUrl, fetchPage, normalizeHttpUrl } from './webIngestion';
+
+describe('normalizeHttpUrl', () => {
+  it('accepts absolute http(s) URLs and drops the fragment', () => {
+    expect(normalizeHttpUrl('https://example.com/docs#intro')).toBe('https://example.com/docs');
+    expect(() => normalizeHttpUrl('file:///etc/passwd')).toThrow('Invalid URL');
+    expect(() => normalizeHttpUrl('/relative')).toThrow('Invalid URL');
+  });
+});
+
+describe('assertPublicUrl', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it.each([
+    'http://169.254.169.254/latest/meta-data/',
+    'http://10.0.0.5/',
+    'http://192.168.1.1/',
+    'http://172.16.0.1/',
+    'http://100.64.0.1/',
+    'http://0.0.0.0/',
+    'http://[fe80::1]/',
+    'http://[fd00::1]/',
+    'http://[::ffff:192.168.0.1]/'
+  ])('rejects the internal address %s', async url => {
+    await expect(assertPublicUrl(url)).rejects.toThrow('URL not allowed');
+  });
+
+  it('rejects loopback addresses unless WEB_INGEST_ALLOW_LOCALHOST is set', async () => {
+    await expect(assertPublicUrl('http://127.0.0.1:3001/')).rejects.toThrow('URL not allowed');
+    await expect(assertPublicUrl('http://[::1]/')).rejects.toThrow('URL not allowed');
+    await expect(assertPublicUrl('http://2130706433/')).rejects.toThrow('URL not allowed');
+
+    vi.stubEnv('WEB_INGEST_ALLOW_LOCALHOST', 'true');
+
+    await expect(assertPublicUrl('http://127.0.0.1:3001/')).resolves.toBeUndefined();
+    await expect(assertPublicUrl('http://169.254.169.254/')).rejects.toThrow('URL not allowed');
+  });
+
+  it('accepts public addresses', async () => {
+    await expect(assertPublicUrl('https://93.184.215.14/')).resolves.toBeUndefined();
+    await expect(assertPublicUrl('https://[2606:4700::1111]/')).resolves.toBeUndefined();
+  });
+});
+
+describe('fetchPage', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      switch (req.url) {
+        case '/page':
+          res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+          res.end('<h1>Hallo</h1>');
+          break;
+        case '/moved':
+          res.writeHead(302, { Location: '/page' });
+          res.end();
+          break;
+        case '/metadata':
+          res.writeHead(302, { Location: 'http://169.254.169.254/latest/meta-data/' });
+          res.end();
+          break;
+        case '/loop':
+          res.writeHead(301, { Location: '/loop' });
+          res.end();
+          break;
+        case '/large':
+          // Ohne Content-Length, damit die Grenze beim Lesen greifen muss
+          res.writeHead(200, { 'Content-Type': 'text/plain' });
+          for (let i = 0; i < 11; i++) res.write(Buffer.alloc(1024 * 1024, 'a'));
+          res.end();
+          break;
+        default:
+          res.writeHead(404);
+          res.end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('refuses local servers without the opt-in', async () => {
+    await expect(fetchPage(`${baseUrl}/page`)).rejects.toThrow('URL not allowed');
+  });
+
+  it('follows redirects and reports the final URL', async () => {
+    vi.stubEnv('WEB_INGEST_ALLOW_LOCALHOST', 'true');
+
+    const page = await fetchPage(`${baseUrl}/moved`);
+
+    expect(page).toMatchObject({ url: `${baseUrl}/page`, format: '.html' });
+    expect(page.buffer.toString('utf-8')).toBe('<h1>Hallo</h1>');
+  });
+
+  it('checks every redirect target', async () => {
+    vi.stubEnv('WEB_INGEST_ALLOW_LOCALHOST', 'true');
+
+    await expect(fetchPage(`${baseUrl}/metadata`)).rejects.toThrow('URL not allowed: 169.254.169.254');
+    await expect(fetchPage(`${baseUrl}/loop`)).rejects.toThrow('too many redirects');
+  });
+
+  it('stops reading bodies larger than 10MB', async () => {
+    vi.stubEnv('WEB_INGEST_ALLOW_LOCALHOST', 'true');
+
+    await expect(fetchPage(`${baseUrl}/large`)).rejects.toThrow('exceeds the maximum size of 10MB');
+  });
+
+  it('connects to the checked address even if the host resolves differently afterwards', async () => {
+    vi.stubEnv('WEB_INGEST_ALLOW_LOCALHOST', 'true');
+    // DNS-Rebinding: erst die erlaubte Adresse, danach die Cloud-Metadaten
+    const lookup = vi.spyOn(dns, 'lookup')
+      .mockResolvedValueOnce([{ address: '127.0.0.1', family: 4 }] as never)
+      .mockResolvedValue([{ address: '169.254.169.254', family: 4 }] as never);
+    const port = (server.address() as AddressInfo).port;
+
+    const page = await fetchPage(`http://rebind.test:${port}/page`);
+
+    expect(page.buffer.toString('utf-8')).toBe('<h1>Hallo</h1>');
+    expect(lookup).toHaveBeenCalledTimes(1);
+    await expect(fetchPage(`http://rebind.test:${port}/page`)).rejects.toThrow('URL not allowed: rebind.test resolves to the internal address 169.254.169.254');
+  });
+});
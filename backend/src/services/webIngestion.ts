@@ -0,0 +1,236 @@
+// backend/src/services/webIngestion.ts
+// Webseiten und Sitemaps abrufen, damit sie wie hochgeladene Dateien eingelesen werden können
+import * as cheerio from 'cheerio';
+import { LookupAddress } from 'dns';
+import dns from 'dns/promises';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+export interface FetchedPage {
+  // URL nach Weiterleitungen (Basis für relative Links)
+  url: string;
+  buffer: Buffer;
+  // Dateiendung passend zum Content-Type, z.B. '.html'
+  format: string;
+}
+
+const FETCH_TIMEOUT_MS = Number(process.env.WEB_FETCH_TIMEOUT_MS) || 15000;
+// Gleiche Grenze wie beim Datei-Upload
+const MAX_PAGE_BYTES = 10 * 1024 * 1024;
+export const SITEMAP_MAX_URLS = Number(process.env.SITEMAP_MAX_URLS) || 200;
+// Sitemap-Indizes dürfen auf weitere Sitemaps verweisen, aber nicht beliebig tief
+const SITEMAP_MAX_DEPTH = 2;
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// Interne Ziele sind gesperrt: private Netze, Link-Local (inkl. Cloud-Metadaten 169.254.169.254),
+// Multicast und reservierte Bereiche. IPv4-mapped IPv6-Adressen prüft BlockList mit.
+const INTERNAL_NETWORKS = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  INTERNAL_NETWORKS.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  INTERNAL_NETWORKS.addSubnet(network, prefix, 'ipv6');
+}
+
+// Loopback nur mit WEB_INGEST_ALLOW_LOCALHOST=true (lokale Entwicklung)
+const LOOPBACK_NETWORKS = new net.BlockList();
+LOOPBACK_NETWORKS.addSubnet('127.0.0.0', 8, 'ipv4');
+LOOPBACK_NETWORKS.addAddress('::1', 'ipv6');
+
+const CONTENT_TYPE_FORMATS: Record<string, string> = {
+  'text/html': '.html',
+  'application/xhtml+xml': '.html',
+  'text/plain': '.txt',
+  'text/markdown': '.md',
+  'text/csv': '.csv',
+  'application/json': '.json',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': '.xlsx',
+  'application/pdf': '.pdf'
+};
+
+// Nur absolute http(s)-URLs; Fragment wird entfernt, damit dieselbe Seite nicht mehrfach eingelesen wird
+export function normalizeHttpUrl(value: unknown): string {
+  let url: URL;
+  try {
+    url = new URL(String(value));
+  } catch {
+    throw new Error('Invalid URL: an absolute http or https URL is required');
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('Invalid URL: an absolute http or https URL is required');
+  }
+
+  url.hash = '';
+  return url.toString();
+}
+
+// Host auflösen und ablehnen, wenn eine der Adressen intern ist
+export async function assertPublicUrl(value: string): Promise<void> {
+  await resolvePublicAddress(value);
+}
+
+// Geprüfte Adresse, zu der anschließend verbunden wird (keine zweite Auflösung, siehe request)
+async function resolvePublicAddress(value: string): Promise<LookupAddress> {
+  const hostname = new URL(value).hostname.replace(/^\[|\]$/g, '');
+
+  let addresses: LookupAddress[];
+  try {
+    addresses = await dns.lookup(hostname, { all: true, verbatim: true });
+  } catch (error) {
+    throw new Error(`Failed to fetch ${value}: ${(error as NodeJS.ErrnoException).code || (error as Error).message}`);
+  }
+
+  const allowLoopback = process.env.WEB_INGEST_ALLOW_LOCALHOST === 'true';
+  for (const { address, family } of addresses) {
+    const type = family === 6 ? 'ipv6' : 'ipv4';
+    if (INTERNAL_NETWORKS.check(address, type) || (!allowLoopback && LOOPBACK_NETWORKS.check(address, type))) {
+      throw new Error(`URL not allowed: ${hostname} resolves to the internal address ${address}`);
+    }
+  }
+
+  if (addresses.length === 0) {
+    throw new Error(`Failed to fetch ${value}: ENOTFOUND`);
+  }
+  return addresses[0];
+}
+
+export async function fetchPage(url: string, signal?: AbortSignal): Promise<FetchedPage> {
+  const { response, url: finalUrl } = await request(url, Object.keys(CONTENT_TYPE_FORMATS).join(', '), signal);
+
+  const contentType = (response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+  const format = CONTENT_TYPE_FORMATS[contentType];
+  if (!format) {
+    response.destroy();
+    throw new Error(`Unsupported content type "${contentType || 'unknown'}" at ${url}`);
+  }
+
+  return { url: finalUrl, buffer: await readBody(response, url), format };
+}
+
+// URLs einer Sitemap (bzw. eines Sitemap-Index) sammeln, höchstens `limit`
+export async function fetchSitemapUrls(url: string, limit: number = SITEMAP_MAX_URLS): Promise<string[]> {
+  const urls = new Set<string>();
+  await collectSitemapUrls(url, limit, 0, urls);
+  return Array.from(urls);
+}
+
+async function collectSitemapUrls(url: string, limit: number, depth: number, urls: Set<string>): Promise<void> {
+  const { response } = await request(url, 'application/xml, text/xml', undefined);
+  const $ = cheerio.load((await readBody(response, url)).toString('utf-8'), { xml: true });
+
+  const nested = $('sitemapindex > sitemap > loc').map((_, el) => $(el).text().trim()).get();
+  if (nested.length > 0) {
+    if (depth >= SITEMAP_MAX_DEPTH) return;
+
+    for (const sitemap of nested) {
+      if (urls.size >= limit) break;
+      await collectSitemapUrls(normalizeHttpUrl(sitemap), limit, depth + 1, urls);
+    }
+    return;
+  }
+
+  $('urlset > url > loc').each((_, el) => {
+    if (urls.size >= limit) return false;
+
+    try {
+      urls.add(normalizeHttpUrl($(el).text().trim()));
+    } catch {
+      // Ungültige Einträge überspringen
+    }
+  });
+}
+
+// Weiterleitungen manuell folgen, damit jedes Ziel vor dem Abruf geprüft wird
+async function request(url: string, accept: string, signal: AbortSignal | undefined): Promise<{ response: http.IncomingMessage, url: string }> {
+  const timeout = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let current = url;
+
+  for (let redirects = 0; ; redirects++) {
+    const address = await resolvePublicAddress(current);
+
+    let response: http.IncomingMessage;
+    try {
+      response = await get(current, address, accept, signal ? AbortSignal.any([signal, timeout]) : timeout);
+    } catch (error) {
+      // Abbruch des Jobs unverändert weitergeben
+      if (signal?.aborted) throw error;
+      const reason = timeout.aborted ? 'request timed out' : (error as Error).message;
+      throw new Error(`Failed to fetch ${url}: ${reason}`);
+    }
+
+    const status = response.statusCode || 0;
+    if (REDIRECT_STATUSES.has(status)) {
+      response.destroy();
+      const location = response.headers.location;
+      if (!location) {
+        throw new Error(`Failed to fetch ${url}: redirect without location`);
+      }
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`Failed to fetch ${url}: too many redirects`);
+      }
+      current = normalizeHttpUrl(new URL(location, current));
+      continue;
+    }
+
+    if (status < 200 || status >= 300) {
+      response.destroy();
+      throw new Error(`Failed to fetch ${url}: ${status} ${response.statusMessage || ''}`.trimEnd());
+    }
+
+    return { response, url: current };
+  }
+}
+
+// GET über http/https statt fetch: der lookup-Hook liefert die bereits geprüfte Adresse,
+// sodass ein DNS-Rebinding zwischen Prüfung und Verbindung nicht möglich ist.
+// Host-Header und TLS-SNI bleiben beim Hostnamen der URL.
+function get(url: string, address: LookupAddress, accept: string, signal: AbortSignal): Promise<http.IncomingMessage> {
+  const client = new URL(url).protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const req = client.get(url, {
+      headers: { 'Accept': accept, 'User-Agent': 'KnowledgeBaseIndexer/1.0' },
+      // Keine Verbindungen aus dem Pool wiederverwenden
+      agent: false,
+      signal,
+      lookup: (_hostname, options, callback) => {
+        if (options.all) {
+          callback(null, [address]);
+        } else {
+          callback(null, address.address, address.family);
+        }
+      }
+    }, resolve);
+    req.on('error', reject);
+  });
+}
+
+// Body schrittweise lesen und abbrechen, sobald MAX_PAGE_BYTES überschritten ist
+async function readBody(response: http.IncomingMessage, url: string): Promise<Buffer> {
+  const declaredLength = Number(response.headers['content-length']);
+  if (declaredLength > MAX_PAGE_BYTES) {
+    response.destroy();
+    throw new Error(`Content at ${url} exceeds the maximum size of 10MB`);
+  }
+
+  const parts: Buffer[] = [];
+  let size = 0;
+
+  for await (const part of response) {
+    const chunk = part as Buffer;
+    size += chunk.length;
+    if (size > MAX_PAGE_BYTES) {
+      response.destroy();
+      throw new Error(`Content at ${url} exceeds the maximum size of 10MB`);
+    }
+    parts.push(chunk);
+  }
+
+  return Buffer.concat(parts, size);
+}
@@ -0,0 +1,77 @@
+// backend/src/types/knowledgeBase.ts
+import { ResolvedChunkingOptions } from '../services/chunking';
+
+// Spaltenwert einer Tabellenzeile bzw. eines JSON-Datensatzes
+export type FieldValue = string | number | boolean;
+
+export interface DocumentChunk {
+  id: string;
+  // Stabile Dokument-ID und Version, zu der der Chunk gehört
+  documentId: string;
+  version: number;
+  text: string;
+  source: string;
+  // Herkunft im Originaldokument: Seite (PDF) bzw. Überschriftenpfad (Markdown, DOCX)
+  page?: number;
+  section?: string;
+  // Im Chunk verlinkte Ziele (absolute URLs, nur bei HTML-Quellen)
+  links?: string[];
+  // Route der Website-Seite, aus der der Chunk stammt (nur Website-Inhalte)
+  route?: string;
+  // Spaltenwerte, wenn der Chunk eine Tabellenzeile bzw. einen Datensatz darstellt (filterbar)
+  fields?: Record<string, FieldValue>;
+  uploadDate: string;
+  embedding?: number[];
+  // Modell, das das Embedding erzeugt hat; nur Vektoren desselben Modells sind vergleichbar
+  embeddingModel?: string;
+  // Von Admins aus der Suche genommen, bleibt aber gespeichert
+  disabled?: boolean;
+  // Enthält eine Anfrage einen dieser Begriffe, kommt der Chunk immer in den Kontext
+  pinnedQueries?: string[];
+  // Zeitpunkt der letzten Textänderung durch einen Admin
+  editedAt?: string;
+}
+
+export interface DocumentVersion {
+  version: number;
+  contentHash: string;
+  uploadDate: string;
+  chunks: number;
+  // Fehlt bei Versionen, die vor den wählbaren Chunking-Strategien angelegt wurden
+  chunking?: ResolvedChunkingOptions;
+}
+
+export interface KnowledgeBaseDocument {
+  name: string;
+  // Sammlung (genau eine) und Tags, normalisiert in Kleinschreibung; bestimmen, wo die Suche das Dokument findet
+  collection: string;
+  tags: string[];
+  // Benutzer-ID bei privaten Dokumenten; ohne Angabe gemeinsam für alle
+  owner?: string;
+  // Upload-Datum der aktiven Version
+  uploadDate: Date;
+  contentHash: string;
+  version: number;
+  versions: DocumentVersion[];
+}
+
+// Serialisierte Form eines Dokuments (Datum als ISO-String)
+export interface StoredDocument {
+  id: string;
+  name: string;
+  // Fehlen bei Dokumenten von vor der Einführung der Sammlungen
+  collection?: string;
+  tags?: string[];
+  owner?: string;
+  uploadDate: string;
+  contentHash: string;
+  version: number;
+  versions: DocumentVersion[];
+}
+
+export interface KnowledgeBaseSnapshot {
+  version: number;
+  documents: StoredDocument[];
+  // Chunks aller aufbewahrten Versionen, nicht nur der aktiven
+  chunks: DocumentChunk[];
+}
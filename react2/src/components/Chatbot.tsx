@@ -4,6 +4,19 @@ import { useNavigate, useLocation } from 'react-router-dom';
 import { useMsal } from '@azure/msal-react';
 import '../styles/Chatbot.css';
 import { useAuth } from '../config/useAuth';
+import { siteContent } from '../content/siteContent';
+
+// Fundstelle einer Antwort im Originaldokument
+interface Citation {
+  documentId: string;
+  chunkId: string;
+  source: string;
+  page?: number;
+  section?: string;
+  route?: string; // Website-Seite der Fundstelle
+  excerpt: string;
+  score: number;
+}
 
 interface Message {
   id: string;
@@ -11,7 +24,9 @@ interface Message {
   content: string;
   timestamp: Date;
   sources?: string[]; // Quellen aus Knowledge Base
+  citations?: Citation[]; // Quellen mit Seite/Abschnitt
   navigationTarget?: string; // NEU: Ziel für Navigation
+  retrieval?: RetrievalRequest; // Suche hinter der Antwort (für die Retrieval-Ansicht)
 }
 
 interface Model {
@@ -20,16 +35,112 @@ interface Model {
   description: string;
 }
 
+// Hintergrund-Job für das Einlesen eines hochgeladenen Dokuments
+interface IngestionJob {
+  id: string;
+  filename: string;
+  state: 'queued' | 'parsing' | 'embedding' | 'done' | 'failed' | 'cancelled';
+  processedChunks: number;
+  totalChunks: number;
+  result?: {
+    status: 'created' | 'updated' | 'unchanged' | 'duplicate';
+    version: number;
+    chunks: number;
+    message: string;
+  };
+  error?: string;
+}
+
+// Sammel-Upload (mehrere Dateien bzw. ZIP): ein Job je Datei
+interface BulkBatch {
+  batchId: string;
+  finished: boolean;
+  summary: {
+    total: number;
+    queued: number;
+    processing: number;
+    done: number;
+    failed: number;
+    cancelled: number;
+  };
+  files: IngestionJob[];
+}
+
+// Einzeln hochladbare Dateitypen; ZIP-Archive nur über den Sammel-Upload
+const allowedExtensions = ['.pdf', '.txt', '.docx', '.md', '.html', '.htm', '.csv', '.xlsx', '.json'];
+
+const getExtension = (fileName: string): string => fileName.toLowerCase().substring(fileName.lastIndexOf('.'));
+
 interface KnowledgeBaseFile {
   id: string;
   name: string;
   uploadDate: Date;
+  version?: number;
+  collection?: string;
+  tags?: string[];
+  owner?: string; // gesetzt bei privaten Dokumenten (nur für den Besitzer sichtbar)
+}
+
+// Sammlung mit Anzahl der Dokumente (GET /api/collections)
+interface CollectionInfo {
+  name: string;
+  documents: number;
+}
+
+// Womit für eine Antwort gesucht wurde (ggf. umgeschriebene Folgefrage)
+interface RetrievalRequest {
+  query: string;
+  collections?: string[];
 }
 
+// Kandidat der Suche mit Scores je Stufe (POST /api/search)
+interface TracedCandidate {
+  chunkId: string;
+  documentId: string;
+  source: string;
+  page?: number;
+  section?: string;
+  excerpt: string;
+  rank?: number;
+  vectorScore?: number;
+  lexicalScore?: number;
+  rerankScore?: number;
+  status: 'selected' | 'pinned' | 'not-selected' | 'below-threshold' | 'beyond-pool';
+  finalRank?: number;
+}
+
+interface SearchTrace {
+  retrievalMode: string;
+  vectorQueries: string[];
+  lexicalWeight: number;
+  reranker?: { name: string; minScore: number; failed?: boolean };
+  mmrLambda: number;
+  topK: number;
+  candidates: TracedCandidate[];
+  timings: { expansion: number; retrieval: number; rerank: number; selection: number; total: number };
+}
+
+interface RetrievalInspection {
+  query: string;
+  loading: boolean;
+  trace?: SearchTrace | null; // null: nichts durchsuchbar (leere Knowledge Base bzw. Sammlungen)
+  error?: string;
+}
+
+const candidateStatusLabels: Record<TracedCandidate['status'], string> = {
+  selected: 'in context',
+  pinned: 'pinned',
+  'not-selected': 'skipped (MMR)',
+  'below-threshold': 'below threshold',
+  'beyond-pool': 'not considered'
+};
+
+const formatScore = (score?: number): string => score === undefined ? '–' : score.toFixed(3);
+
 const Chatbot: React.FC = () => {
   const navigate = useNavigate();
   const location = useLocation();
-  const { account } = useAuth();
+  const { account, isAdmin } = useAuth();
   const [isOpen, setIsOpen] = useState(false);
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputMessage, setInputMessage] = useState('');
@@ -37,16 +148,28 @@ const Chatbot: React.FC = () => {
   const [selectedModel, setSelectedModel] = useState('mistral-small');
   const [models, setModels] = useState<Model[]>([]);
   const [useKnowledgeBase, setUseKnowledgeBase] = useState(true);
+  // Sammlungen, auf die sich Antworten stützen; leer = alle
+  const [collections, setCollections] = useState<CollectionInfo[]>([]);
+  const [selectedCollections, setSelectedCollections] = useState<string[]>([]);
   
   // Upload-States
   const [showUpload, setShowUpload] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [uploadStatus, setUploadStatus] = useState<'idle' | 'uploading' | 'success' | 'error'>('idle');
+  const [ingestionJob, setIngestionJob] = useState<IngestionJob | null>(null);
+  const [importUrl, setImportUrl] = useState('');
+  const [bulkBatch, setBulkBatch] = useState<BulkBatch | null>(null);
+  const [uploadCollection, setUploadCollection] = useState('');
+  const [uploadTags, setUploadTags] = useState('');
+  const [uploadPrivate, setUploadPrivate] = useState(false);
   
   // Knowledge Base Viewer
   const [showKnowledgeBase, setShowKnowledgeBase] = useState(false);
   const [knowledgeBaseFiles, setKnowledgeBaseFiles] = useState<KnowledgeBaseFile[]>([]);
   
+  // Retrieval-Ansicht (nur Admins): Kandidaten und Scores der Suche hinter einer Antwort
+  const [retrievalInspection, setRetrievalInspection] = useState<RetrievalInspection | null>(null);
+  
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { instance, accounts } = useMsal();
@@ -92,18 +215,18 @@ const Chatbot: React.FC = () => {
     }
   };
 
-  // NEU: Seitennamen-Mapping
+  // Seitennamen aus den gemeinsamen Website-Inhalten
   const getPageName = (path: string): string => {
-    const pageNames: { [key: string]: string } = {
-      '/': 'Home',
-      '/contact': 'Contact',
-      '/services': 'Services',
-      '/products': 'Products',
-      '/about': 'About Us',
-      '/blog': 'Blog',
-      '/faq': 'FAQ'
-    };
-    return pageNames[path] || 'Page';
+    return siteContent.pages.find(page => page.route === path)?.name || 'Page';
+  };
+
+  // Quelle mit Fundstelle, z.B. "handbuch.pdf (p. 3)" oder "faq.md (Kontakt > Support)"
+  const formatCitation = (citation: Pick<Citation, 'source' | 'page' | 'section'>): string => {
+    const location = [
+      citation.page !== undefined ? `p. ${citation.page}` : null,
+      citation.section || null
+    ].filter(Boolean).join(', ');
+    return location ? `${citation.source} (${location})` : citation.source;
   };
 
   // Event Listener für "Get Started" Button
@@ -140,7 +263,7 @@ const Chatbot: React.FC = () => {
     }
   }, [instance, accounts]);
 
-  // Knowledge Base Files laden
+  // Knowledge Base Files und Sammlungen laden
   const fetchKnowledgeBaseFiles = useCallback(async () => {
     try {
       const token = await getAccessToken();
@@ -148,12 +271,22 @@ const Chatbot: React.FC = () => {
         ? { Authorization: `Bearer ${token}` }
         : {};
 
-      const response = await fetch('http://localhost:3001/api/admin/files', { headers });
+      const [response, collectionsResponse] = await Promise.all([
+        fetch('http://localhost:3001/api/admin/files', { headers }),
+        fetch('http://localhost:3001/api/collections', { headers })
+      ]);
 
       if (response.ok) {
         const data = await response.json();
         setKnowledgeBaseFiles(data.files || []);
       }
+
+      if (collectionsResponse.ok) {
+        const data: { collections: CollectionInfo[] } = await collectionsResponse.json();
+        setCollections(data.collections);
+        // Nicht mehr vorhandene Sammlungen aus der Auswahl entfernen
+        setSelectedCollections(prev => prev.filter(name => data.collections.some(collection => collection.name === name)));
+      }
     } catch (error) {
       console.error('Failed to fetch knowledge base files:', error);
     }
@@ -218,16 +351,189 @@ const Chatbot: React.FC = () => {
     }
   };
 
+  // Sammlung, Tags und Sichtbarkeit aus dem Upload-Bereich; leere Felder lässt der Server unverändert bzw. nutzt den Default
+  const getUploadFields = (): { collection?: string; tags?: string; visibility?: string } => ({
+    ...(uploadCollection.trim() && { collection: uploadCollection.trim() }),
+    ...(uploadTags.trim() && { tags: uploadTags.trim() }),
+    ...(uploadPrivate && { visibility: 'private' })
+  });
+
+  const toggleCollection = (name: string) => {
+    setSelectedCollections(prev => prev.includes(name) ? prev.filter(item => item !== name) : [...prev, name]);
+  };
+
+  // Datei(en) per XHR hochladen (Fortschritt der Übertragung), Antwort enthält Job- bzw. Batch-ID
+  const sendUploadRequest = <T,>(url: string, formData: FormData, headers: Record<string, string>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      
+      // Progress tracking
+      xhr.upload.addEventListener('progress', (e) => {
+        if (e.lengthComputable) {
+          const percentComplete = (e.loaded / e.total) * 100;
+          setUploadProgress(percentComplete);
+        }
+      });
+      
+      xhr.addEventListener('load', () => {
+        try {
+          const response = JSON.parse(xhr.responseText);
+          if (xhr.status === 202) {
+            resolve(response);
+          } else {
+            reject(new Error(response.error || 'Upload failed'));
+          }
+        } catch {
+          reject(new Error('Upload failed'));
+        }
+      });
+      
+      xhr.addEventListener('error', () => {
+        reject(new Error('Network error'));
+      });
+      
+      // Sende Request
+      xhr.open('POST', url);
+      Object.entries(headers).forEach(([key, value]) => {
+        xhr.setRequestHeader(key, value);
+      });
+      xhr.send(formData);
+    });
+  };
+
+  // Fortschritt des Jobs per Server-Sent Events verfolgen (fetch statt EventSource, damit der Token mitgeht)
+  const followIngestionJob = async (jobId: string, headers: Record<string, string>): Promise<IngestionJob> => {
+    const response = await fetch(`http://localhost:3001/api/admin/jobs/${jobId}/events`, { headers });
+    if (!response.ok || !response.body) {
+      throw new Error('Could not follow document processing');
+    }
+    
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let latest: IngestionJob | null = null;
+    
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+      
+      for (const event of events) {
+        const data = event
+          .split('\n')
+          .filter(line => line.startsWith('data: '))
+          .map(line => line.slice('data: '.length))
+          .join('\n');
+        if (!data) continue;
+        
+        latest = JSON.parse(data) as IngestionJob;
+        setIngestionJob(latest);
+      }
+    }
+    
+    if (!latest) {
+      throw new Error('Document processing ended without a result');
+    }
+    return latest;
+  };
+
+  const cancelIngestionJob = async () => {
+    if (!ingestionJob) return;
+    
+    try {
+      const token = await getAccessToken();
+      const headers: HeadersInit = {};
+      
+      if (token) {
+        headers['Authorization'] = `Bearer ${token}`;
+      }
+      
+      await fetch(`http://localhost:3001/api/admin/jobs/${ingestionJob.id}/cancel`, {
+        method: 'POST',
+        headers
+      });
+    } catch (error) {
+      console.error('Error cancelling upload:', error);
+    }
+  };
+
+  // Erfolgsmeldung abhängig davon, ob neu, neue Version oder Duplikat
+  const describeIngestionResult = (fileName: string, result: NonNullable<IngestionJob['result']>): string => {
+    const chunkInfo = result.chunks ? `Created ${result.chunks} searchable chunks.` : '';
+    
+    switch (result.status) {
+      case 'updated':
+        return `Document "${fileName}" was updated to version ${result.version}. ${chunkInfo}`;
+      case 'unchanged':
+        return `Document "${fileName}" is already in the knowledge base with identical content.`;
+      case 'duplicate':
+        return `Document "${fileName}" was not added: ${result.message}.`;
+      default:
+        return `Document "${fileName}" was successfully uploaded. ${chunkInfo} You can now ask questions about it!`;
+    }
+  };
+
+  const resetUpload = (closePanel: boolean) => {
+    setUploadStatus('idle');
+    setUploadProgress(0);
+    setIngestionJob(null);
+    setBulkBatch(null);
+    if (closePanel) {
+      setShowUpload(false);
+    }
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  // Vor der Job-ID: Übertragung der Datei, danach: Fortschritt des Jobs
+  const getUploadPhaseLabel = (): string => {
+    if (bulkBatch) {
+      return 'Processing files...';
+    }
+    switch (ingestionJob?.state) {
+      case undefined:
+        return 'Uploading document...';
+      case 'queued':
+        return 'Waiting for processing...';
+      case 'parsing':
+        return 'Reading document...';
+      case 'embedding':
+        return 'Creating embeddings...';
+      default:
+        return 'Finishing...';
+    }
+  };
+
+  const getUploadPercent = (): number => {
+    if (bulkBatch) {
+      const { total, done, failed, cancelled } = bulkBatch.summary;
+      return ((done + failed + cancelled) / total) * 100;
+    }
+    if (!ingestionJob) return uploadProgress;
+    if (ingestionJob.state === 'embedding' && ingestionJob.totalChunks > 0) {
+      return (ingestionJob.processedChunks / ingestionJob.totalChunks) * 100;
+    }
+    return ingestionJob.state === 'done' ? 100 : 0;
+  };
+
   // File Upload Handler - erweitert für verschiedene Dateitypen
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
+    const selectedFiles = Array.from(event.target.files || []);
+    const file = selectedFiles[0];
     if (!file) return;
     
-    // Erweiterte Validierung
-    const allowedExtensions = ['.pdf', '.txt', '.docx', '.md'];
-    const fileExtension = file.name.toLowerCase().substring(file.name.lastIndexOf('.'));
+    // Mehrere Dateien oder ZIP-Archiv: Sammel-Upload
+    if (selectedFiles.length > 1 || getExtension(file.name) === '.zip') {
+      await handleBulkUpload(selectedFiles);
+      return;
+    }
     
-    if (!allowedExtensions.includes(fileExtension)) {
+    // Erweiterte Validierung
+    if (!allowedExtensions.includes(getExtension(file.name))) {
       alert(`Please select a valid file type: ${allowedExtensions.join(', ')}`);
       return;
     }
@@ -240,90 +546,171 @@ const Chatbot: React.FC = () => {
     
     setUploadStatus('uploading');
     setUploadProgress(0);
+    setIngestionJob(null);
     
     const formData = new FormData();
     formData.append('file', file);
+    Object.entries(getUploadFields()).forEach(([key, value]) => formData.append(key, value));
     
     try {
       const token = await getAccessToken();
-      const headers: HeadersInit = {};
+      const headers: Record<string, string> = {};
       
       if (token) {
         headers['Authorization'] = `Bearer ${token}`;
       }
       
-      const xhr = new XMLHttpRequest();
+      const { job } = await sendUploadRequest<{ job: IngestionJob }>('http://localhost:3001/api/admin/upload', formData, headers);
+      await completeIngestionJob(job, file.name, headers);
+    } catch (error) {
+      handleIngestionError(error);
+    }
+  };
+
+  // Sammel-Upload: Server entpackt ZIPs und legt je Datei einen Job an; Bericht wird abgefragt, bis alle fertig sind
+  const handleBulkUpload = async (files: File[]) => {
+    const invalid = files.filter(f => ![...allowedExtensions, '.zip'].includes(getExtension(f.name)));
+    if (invalid.length > 0) {
+      alert(`Unsupported file types: ${invalid.map(f => f.name).join(', ')}`);
+      return;
+    }
+    
+    setUploadStatus('uploading');
+    setUploadProgress(0);
+    setIngestionJob(null);
+    setBulkBatch(null);
+    
+    const formData = new FormData();
+    files.forEach(f => formData.append('files', f));
+    Object.entries(getUploadFields()).forEach(([key, value]) => formData.append(key, value));
+    
+    try {
+      const token = await getAccessToken();
+      const headers: Record<string, string> = {};
       
-      // Progress tracking
-      xhr.upload.addEventListener('progress', (e) => {
-        if (e.lengthComputable) {
-          const percentComplete = (e.loaded / e.total) * 100;
-          setUploadProgress(percentComplete);
-        }
-      });
+      if (token) {
+        headers['Authorization'] = `Bearer ${token}`;
+      }
       
-      // Handle completion
-      xhr.addEventListener('load', async () => {
-        if (xhr.status === 200) {
-          setUploadStatus('success');
-          
-          const response = JSON.parse(xhr.responseText);
-          
-          // Zeige Erfolgsmeldung
-          const successMessage: Message = {
-            id: Date.now().toString(),
-            role: 'assistant',
-            content: `Document "${file.name}" was successfully uploaded. ${response.chunks ? `Created ${response.chunks} searchable chunks.` : ''} You can now ask questions about it!`,
-            timestamp: new Date()
-          };
-          setMessages(prev => [...prev, successMessage]);
-          
-          // Refresh KB files list
-          await fetchKnowledgeBaseFiles();
-          
-          // Reset nach 3 Sekunden
-          setTimeout(() => {
-            setUploadStatus('idle');
-            setUploadProgress(0);
-            setShowUpload(false);
-            if (fileInputRef.current) {
-              fileInputRef.current.value = '';
-            }
-          }, 3000);
-        } else {
-          const errorResponse = JSON.parse(xhr.responseText);
-          throw new Error(errorResponse.error || 'Upload failed');
+      let batch = await sendUploadRequest<BulkBatch>('http://localhost:3001/api/admin/upload/bulk', formData, headers);
+      setBulkBatch(batch);
+      
+      while (!batch.finished) {
+        await new Promise(resolve => setTimeout(resolve, 1000));
+        const response = await fetch(`http://localhost:3001/api/admin/upload/bulk/${batch.batchId}`, { headers });
+        if (!response.ok) {
+          throw new Error('Could not follow bulk upload');
         }
-      });
+        batch = await response.json();
+        setBulkBatch(batch);
+      }
       
-      xhr.addEventListener('error', () => {
-        throw new Error('Network error');
-      });
+      const failed = batch.files.filter(job => job.state !== 'done');
+      const report = [
+        `Bulk upload finished: ${batch.summary.done} of ${batch.summary.total} files added to the knowledge base.`,
+        ...failed.map(job => `- ${job.filename}: ${job.error || job.state}`)
+      ].join('\n');
       
-      // Sende Request
-      xhr.open('POST', 'http://localhost:3001/api/admin/upload');
-      Object.entries(headers).forEach(([key, value]) => {
-        xhr.setRequestHeader(key, value as string);
-      });
-      xhr.send(formData);
+      setUploadStatus('success');
+      setMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        role: 'assistant',
+        content: report,
+        timestamp: new Date()
+      }]);
       
+      await fetchKnowledgeBaseFiles();
+      setTimeout(() => resetUpload(true), 3000);
     } catch (error) {
-      console.error('Upload error:', error);
-      setUploadStatus('error');
+      handleIngestionError(error);
+    }
+  };
+
+  // Webseite per URL einlesen; der Server lädt sie herunter und legt wie beim Upload einen Job an
+  const handleUrlImport = async () => {
+    const url = importUrl.trim();
+    if (!url) return;
+    
+    setUploadStatus('uploading');
+    setUploadProgress(0);
+    setIngestionJob(null);
+    
+    try {
+      const token = await getAccessToken();
+      const headers: Record<string, string> = {};
       
-      const errorMessage: Message = {
+      if (token) {
+        headers['Authorization'] = `Bearer ${token}`;
+      }
+      
+      const response = await fetch('http://localhost:3001/api/admin/ingest/url', {
+        method: 'POST',
+        headers: { ...headers, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url, ...getUploadFields() })
+      });
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data.error || 'Import failed');
+      }
+      
+      await completeIngestionJob(data.job, url, headers);
+      setImportUrl('');
+    } catch (error) {
+      handleIngestionError(error);
+    }
+  };
+
+  // Gemeinsamer Abschluss für Datei-Upload und URL-Import
+  const completeIngestionJob = async (queuedJob: IngestionJob, name: string, headers: Record<string, string>) => {
+    setIngestionJob(queuedJob);
+    const job = await followIngestionJob(queuedJob.id, headers);
+    
+    if (job.state === 'cancelled') {
+      setMessages(prev => [...prev, {
         id: Date.now().toString(),
         role: 'assistant',
-        content: `Failed to upload: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        content: `Upload of "${name}" was cancelled.`,
         timestamp: new Date()
-      };
-      setMessages(prev => [...prev, errorMessage]);
-      
-      setTimeout(() => {
-        setUploadStatus('idle');
-        setUploadProgress(0);
-      }, 3000);
+      }]);
+      resetUpload(false);
+      return;
+    }
+    
+    if (job.state !== 'done' || !job.result) {
+      throw new Error(job.error || 'Processing failed');
     }
+    
+    setUploadStatus('success');
+    
+    const successMessage: Message = {
+      id: Date.now().toString(),
+      role: 'assistant',
+      content: describeIngestionResult(name, job.result),
+      timestamp: new Date()
+    };
+    setMessages(prev => [...prev, successMessage]);
+    
+    // Refresh KB files list
+    await fetchKnowledgeBaseFiles();
+    
+    // Reset nach 3 Sekunden
+    setTimeout(() => resetUpload(true), 3000);
+  };
+
+  const handleIngestionError = (error: unknown) => {
+    console.error('Upload error:', error);
+    setUploadStatus('error');
+    
+    const errorMessage: Message = {
+      id: Date.now().toString(),
+      role: 'assistant',
+      content: `Failed to upload: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      timestamp: new Date()
+    };
+    setMessages(prev => [...prev, errorMessage]);
+    
+    setTimeout(() => resetUpload(false), 3000);
   };
 
   const scrollToBottom = () => {
@@ -361,7 +748,8 @@ const Chatbot: React.FC = () => {
         body: JSON.stringify({
           message: currentMessage,
           model: selectedModel,
-          useKnowledgeBase
+          useKnowledgeBase,
+          ...(selectedCollections.length > 0 && { collections: selectedCollections })
         })
       });
 
@@ -371,8 +759,9 @@ const Chatbot: React.FC = () => {
 
       const data = await response.json();
 
-      // NEU: Erkennung des Navigationsziels
-      const navigationTarget = detectNavigationTarget(data.response);
+      // Navigationsziel: Route der besten Website-Fundstelle, sonst Keyword-Erkennung
+      const citedRoute = (data.citations as Citation[] | undefined)?.find(citation => citation.route)?.route;
+      const navigationTarget = citedRoute || detectNavigationTarget(data.response);
 
       const assistantMessage: Message = {
         id: (Date.now() + 1).toString(),
@@ -380,7 +769,14 @@ const Chatbot: React.FC = () => {
         content: data.response,
         timestamp: new Date(),
         sources: data.sources,
-        navigationTarget: navigationTarget || undefined // NEU: Navigation Target hinzufügen
+        citations: data.citations,
+        navigationTarget: navigationTarget || undefined, // NEU: Navigation Target hinzufügen
+        ...(useKnowledgeBase && {
+          retrieval: {
+            query: data.rewrittenQuery || currentMessage,
+            ...(selectedCollections.length > 0 && { collections: selectedCollections })
+          }
+        })
       };
 
       setMessages(prev => [...prev, assistantMessage]);
@@ -405,6 +801,47 @@ const Chatbot: React.FC = () => {
     }
   };
 
+  // Suche hinter einer Antwort erneut ausführen, mit allen Kandidaten und Scores (Admin)
+  const inspectRetrieval = async (retrieval: RetrievalRequest) => {
+    setRetrievalInspection({ query: retrieval.query, loading: true });
+
+    try {
+      const token = await getAccessToken();
+      const headers: HeadersInit = {
+        'Content-Type': 'application/json'
+      };
+
+      if (token) {
+        headers['Authorization'] = `Bearer ${token}`;
+      }
+
+      // Bereits umgeschriebene Frage: nicht erneut anhand des (inzwischen längeren) Verlaufs umschreiben
+      const response = await fetch('http://localhost:3001/api/search', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          message: retrieval.query,
+          rewriteQuery: false,
+          ...(retrieval.collections && { collections: retrieval.collections })
+        })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Search failed');
+      }
+
+      setRetrievalInspection({ query: retrieval.query, loading: false, trace: data.trace });
+    } catch (error) {
+      console.error('Retrieval inspection error:', error);
+      setRetrievalInspection({
+        query: retrieval.query,
+        loading: false,
+        error: error instanceof Error ? error.message : 'Search failed'
+      });
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -489,6 +926,24 @@ const Chatbot: React.FC = () => {
             </button>
           </div>
 
+          {/* Sammlungen für die Antworten wählen (keine Auswahl = alle) */}
+          {useKnowledgeBase && collections.length > 1 && (
+            <div className="collection-filter">
+              <span className="collection-filter-label">Answer from:</span>
+              {collections.map(collection => (
+                <label key={collection.name} className="collection-chip" title={`${collection.documents} documents`}>
+                  <input
+                    type="checkbox"
+                    checked={selectedCollections.includes(collection.name)}
+                    onChange={() => toggleCollection(collection.name)}
+                  />
+                  {collection.name}
+                </label>
+              ))}
+              {selectedCollections.length === 0 && <span className="collection-filter-hint">all collections</span>}
+            </div>
+          )}
+
           {/* Knowledge Base Viewer */}
           {showKnowledgeBase && (
             <div className="kb-viewer">
@@ -500,15 +955,33 @@ const Chatbot: React.FC = () => {
                 {knowledgeBaseFiles.length === 0 ? (
                   <p className="kb-empty">No documents uploaded yet</p>
                 ) : (
-                  knowledgeBaseFiles.map(file => (
-                    <div key={file.id} className="kb-file-item">
-                      <span className="kb-file-name">{file.name}</span>
-                      <button 
-                        className="kb-file-delete"
-                        onClick={() => deleteKnowledgeBaseFile(file.id, file.name)}
-                      >
-                        Delete
-                      </button>
+                  [
+                    { title: 'My documents', files: knowledgeBaseFiles.filter(file => file.owner) },
+                    { title: 'Shared', files: knowledgeBaseFiles.filter(file => !file.owner) }
+                  ].filter(group => group.files.length > 0).map(group => (
+                    <div key={group.title} className="kb-file-group">
+                      <h5 className="kb-file-group-title">{group.title} ({group.files.length})</h5>
+                      {group.files.map(file => (
+                        <div key={file.id} className="kb-file-item">
+                          <span className="kb-file-name">
+                            {file.name}
+                            {file.version && file.version > 1 && (
+                              <span className="kb-file-version"> v{file.version}</span>
+                            )}
+                            {file.collection && (
+                              <span className="kb-file-scope">
+                                {[file.collection, ...(file.tags || []).map(tag => `#${tag}`)].join(' ')}
+                              </span>
+                            )}
+                          </span>
+                          <button 
+                            className="kb-file-delete"
+                            onClick={() => deleteKnowledgeBaseFile(file.id, file.name)}
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      ))}
                     </div>
                   ))
                 )}
@@ -516,6 +989,78 @@ const Chatbot: React.FC = () => {
             </div>
           )}
 
+          {/* Retrieval-Ansicht: Kandidaten der Suche mit Scores je Stufe (nur Admins) */}
+          {isAdmin && retrievalInspection && (
+            <div className="kb-viewer retrieval-viewer">
+              <div className="kb-viewer-header">
+                <h4>Retrieval</h4>
+                <button onClick={() => setRetrievalInspection(null)}>×</button>
+              </div>
+              <div className="retrieval-body">
+                <p className="retrieval-query">"{retrievalInspection.query}"</p>
+                {retrievalInspection.loading ? (
+                  <p className="kb-empty">Searching...</p>
+                ) : retrievalInspection.error ? (
+                  <p className="retrieval-error">{retrievalInspection.error}</p>
+                ) : !retrievalInspection.trace ? (
+                  <p className="kb-empty">Nothing to search (knowledge base or selected collections are empty)</p>
+                ) : (
+                  <>
+                    <p className="retrieval-meta">
+                      {[
+                        retrievalInspection.trace.retrievalMode,
+                        `lexical weight ${retrievalInspection.trace.lexicalWeight}`,
+                        retrievalInspection.trace.reranker
+                          ? `${retrievalInspection.trace.reranker.name} (min ${retrievalInspection.trace.reranker.minScore}${retrievalInspection.trace.reranker.failed ? ', failed' : ''})`
+                          : 'no reranking',
+                        `MMR λ ${retrievalInspection.trace.mmrLambda}`,
+                        `top ${retrievalInspection.trace.topK}`
+                      ].join(' · ')}
+                    </p>
+                    {retrievalInspection.trace.retrievalMode !== 'standard' && (
+                      <p className="retrieval-meta">Searched with: {retrievalInspection.trace.vectorQueries.join(' | ')}</p>
+                    )}
+                    <p className="retrieval-meta">
+                      {Object.entries(retrievalInspection.trace.timings)
+                        .map(([stage, ms]) => `${stage} ${ms} ms`)
+                        .join(' · ')}
+                    </p>
+                    <table className="retrieval-table">
+                      <thead>
+                        <tr>
+                          <th>#</th>
+                          <th>Chunk</th>
+                          <th>Vector</th>
+                          <th>BM25</th>
+                          <th>Rerank</th>
+                          <th>Result</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {retrievalInspection.trace.candidates.map(candidate => (
+                          <tr key={candidate.chunkId} className={`retrieval-${candidate.status}`} title={candidate.excerpt}>
+                            <td>{candidate.rank ?? '–'}</td>
+                            <td>
+                              {formatCitation(candidate)}
+                              <span className="retrieval-chunk-id">{candidate.chunkId}</span>
+                            </td>
+                            <td>{formatScore(candidate.vectorScore)}</td>
+                            <td>{formatScore(candidate.lexicalScore)}</td>
+                            <td>{formatScore(candidate.rerankScore)}</td>
+                            <td>
+                              {candidateStatusLabels[candidate.status]}
+                              {candidate.finalRank !== undefined && ` #${candidate.finalRank}`}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Upload Section - erweitert */}
           {showUpload && (
             <div className="upload-section">
@@ -524,7 +1069,8 @@ const Chatbot: React.FC = () => {
                   type="file"
                   ref={fileInputRef}
                   onChange={handleFileUpload}
-                  accept=".pdf,.txt,.docx,.md"
+                  accept=".pdf,.txt,.docx,.md,.html,.htm,.csv,.xlsx,.json,.zip"
+                  multiple
                   style={{ display: 'none' }}
                 />
                 
@@ -535,22 +1081,73 @@ const Chatbot: React.FC = () => {
                       className="upload-button"
                       onClick={() => fileInputRef.current?.click()}
                     >
-                      Choose File (PDF, TXT, DOCX, MD)
+                      Choose Files (PDF, TXT, DOCX, MD, HTML, CSV, XLSX, JSON, ZIP)
                     </button>
-                    <p className="upload-hint">Max file size: 10MB</p>
+                    <p className="upload-hint">Max file size: 10MB per document; select several files or a ZIP archive for bulk upload</p>
+                    <div className="upload-scope">
+                      <input
+                        type="text"
+                        value={uploadCollection}
+                        onChange={(e) => setUploadCollection(e.target.value)}
+                        placeholder="Collection (e.g. product-a)"
+                        list="kb-collections"
+                      />
+                      <datalist id="kb-collections">
+                        {collections.map(collection => (
+                          <option key={collection.name} value={collection.name} />
+                        ))}
+                      </datalist>
+                      <input
+                        type="text"
+                        value={uploadTags}
+                        onChange={(e) => setUploadTags(e.target.value)}
+                        placeholder="Tags, comma-separated"
+                      />
+                    </div>
+                    <label className="upload-private">
+                      <input
+                        type="checkbox"
+                        checked={uploadPrivate}
+                        onChange={(e) => setUploadPrivate(e.target.checked)}
+                      />
+                      Private (only visible to me)
+                    </label>
+                    <div className="upload-url">
+                      <input
+                        type="url"
+                        value={importUrl}
+                        onChange={(e) => setImportUrl(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleUrlImport()}
+                        placeholder="https://example.com/page"
+                      />
+                      <button onClick={handleUrlImport} disabled={!importUrl.trim()}>
+                        Import URL
+                      </button>
+                    </div>
                   </div>
                 )}
                 
                 {uploadStatus === 'uploading' && (
                   <div className="upload-progress">
-                    <p>Processing document...</p>
+                    <p>{getUploadPhaseLabel()}</p>
                     <div className="progress-bar">
                       <div 
                         className="progress-fill" 
-                        style={{ width: `${uploadProgress}%` }}
+                        style={{ width: `${getUploadPercent()}%` }}
                       />
                     </div>
-                    <p>{Math.round(uploadProgress)}%</p>
+                    <p>
+                      {bulkBatch
+                        ? `${bulkBatch.summary.total - bulkBatch.summary.queued - bulkBatch.summary.processing} / ${bulkBatch.summary.total} files`
+                        : ingestionJob?.state === 'embedding'
+                          ? `${ingestionJob.processedChunks} / ${ingestionJob.totalChunks} chunks`
+                          : `${Math.round(getUploadPercent())}%`}
+                    </p>
+                    {ingestionJob && (
+                      <button className="upload-cancel" onClick={cancelIngestionJob}>
+                        Cancel
+                      </button>
+                    )}
                   </div>
                 )}
                 
@@ -598,8 +1195,17 @@ const Chatbot: React.FC = () => {
                         📍 {getPageName(message.navigationTarget)}
                       </div>
                     )}
-                    {/* Quellen anzeigen */}
-                    {message.sources && message.sources.length > 0 && (
+                    {/* Quellen mit Seite/Abschnitt anzeigen, Auszug als Tooltip */}
+                    {message.citations && message.citations.length > 0 ? (
+                      <div className="message-sources">
+                        <span className="source-label">Source:</span>
+                        {message.citations.map((citation) => (
+                          <span key={citation.chunkId} className="source-item" title={citation.excerpt}>
+                            {formatCitation(citation)}
+                          </span>
+                        ))}
+                      </div>
+                    ) : message.sources && message.sources.length > 0 && (
                       <div className="message-sources">
                         <span className="source-label">Source:</span>
                         {message.sources.map((source, idx) => (
@@ -607,6 +1213,16 @@ const Chatbot: React.FC = () => {
                         ))}
                       </div>
                     )}
+                    {/* Admins: Kandidaten und Scores der Suche hinter der Antwort */}
+                    {isAdmin && message.retrieval && (
+                      <button
+                        className="retrieval-inspect-button"
+                        onClick={() => message.retrieval && inspectRetrieval(message.retrieval)}
+                        title="Show retrieval candidates and scores"
+                      >
+                        Retrieval
+                      </button>
+                    )}
                   </div>
                   <div className="message-time">
                     {message.timestamp.toLocaleTimeString()}
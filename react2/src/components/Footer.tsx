@@ -1,11 +1,15 @@
+import { siteContent } from '../content/siteContent';
+
 const Footer = () => {
+  const { company } = siteContent;
+
   return (
     <footer className="footer">
       <div className="container">
         <div className="footer-content">
           <div className="footer-section">
-            <h3>MyApp</h3>
-            <p>Your trusted partner for digital solutions.</p>
+            <h3>{company.name}</h3>
+            <p>{company.tagline}</p>
           </div>
           
           <div className="footer-section">
@@ -19,13 +23,13 @@ const Footer = () => {
           
           <div className="footer-section">
             <h4>Contact Info</h4>
-            <p>Email: info@myapp.com</p>
-            <p>Phone: +49 123 456 789</p>
+            <p>Email: {company.email}</p>
+            <p>Phone: {company.phone}</p>
           </div>
         </div>
         
         <div className="footer-bottom">
-          <p>&copy; 2024 MyApp. All rights reserved.</p>
+          <p>&copy; 2024 {company.name}. All rights reserved.</p>
         </div>
       </div>
     </footer>
@@ -7,6 +7,9 @@ export const useAuth = () => {
     
     const isAuthenticated = accounts.length > 0;
     const account = accounts[0] || null;
+    // App-Rolle aus dem ID-Token wie im Backend (adminMiddleware); lokal wie das Backend alle als Admin
+    const roles = (account?.idTokenClaims?.roles as string[] | undefined) || [];
+    const isAdmin = import.meta.env.DEV || roles.includes('Admin') || roles.includes('Administrator');
     const loading = inProgress === InteractionStatus.Login || 
                    inProgress === InteractionStatus.SsoSilent ||
                    inProgress === InteractionStatus.Startup;
@@ -28,6 +31,7 @@ export const useAuth = () => {
     return {
         isAuthenticated,
         account,
+        isAdmin,
         login,
         logout,
         loading
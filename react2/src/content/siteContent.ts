@@ -0,0 +1,42 @@
+// src/content/siteContent.ts
+// Gemeinsame Inhaltsquelle der Seiten; das Backend indexiert dieselbe JSON-Datei für den Chatbot
+import content from './siteContent.json';
+
+export interface SiteItem {
+  title: string;
+  text: string;
+  date?: string;
+}
+
+export interface SitePage {
+  route: string;
+  name: string;
+  description: string;
+  title: string;
+  intro?: string[];
+  heading?: string;
+  items?: SiteItem[];
+  // Seite zeigt die Kontaktdaten der Firma
+  contactDetails?: boolean;
+}
+
+export interface SiteContent {
+  company: {
+    name: string;
+    tagline: string;
+    email: string;
+    phone: string;
+    location: string;
+  };
+  pages: SitePage[];
+}
+
+export const siteContent: SiteContent = content;
+
+export const getPage = (route: string): SitePage => {
+  const page = siteContent.pages.find(p => p.route === route);
+  if (!page) {
+    throw new Error(`No site content for route ${route}`);
+  }
+  return page;
+};
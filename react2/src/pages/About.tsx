@@ -1,15 +1,17 @@
 // src/pages/About.tsx
+import { getPage } from '../content/siteContent';
+
 const About = () => {
+  const page = getPage('/about');
+
   return (
     <div className="page">
       <div className="container">
-        <h1>About Us</h1>
-        <p>We are a dedicated team focused on delivering exceptional digital solutions.</p>
-        <p>Our mission is to help businesses grow through innovative technology and outstanding service.</p>
+        <h1>{page.title}</h1>
+        {page.intro?.map(paragraph => <p key={paragraph}>{paragraph}</p>)}
       </div>
     </div>
   );
 };
 
 export default About;
-
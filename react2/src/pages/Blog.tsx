@@ -1,24 +1,25 @@
 // src/pages/Blog.tsx
+import { getPage } from '../content/siteContent';
+
 const Blog = () => {
+  const page = getPage('/blog');
+
   return (
     <div className="page">
       <div className="container">
-        <h1>Blog</h1>
+        <h1>{page.title}</h1>
         <div className="blog-posts">
-          <article className="blog-post">
-            <h3>Getting Started with React</h3>
-            <p>Learn the basics of React development...</p>
-            <span className="date">March 15, 2024</span>
-          </article>
-          <article className="blog-post">
-            <h3>Best Practices for Web Development</h3>
-            <p>Tips and tricks for better web development...</p>
-            <span className="date">March 10, 2024</span>
-          </article>
+          {page.items?.map(item => (
+            <article className="blog-post" key={item.title}>
+              <h3>{item.title}</h3>
+              <p>{item.text}</p>
+              <span className="date">{item.date}</span>
+            </article>
+          ))}
         </div>
       </div>
     </div>
   );
 };
 
-export default Blog;
\ No newline at end of file
+export default Blog;
@@ -1,15 +1,20 @@
 // src/pages/Contact.tsx
+import { getPage, siteContent } from '../content/siteContent';
+
 const Contact = () => {
+  const page = getPage('/contact');
+  const { company } = siteContent;
+
   return (
     <div className="page">
       <div className="container">
-        <h1>Contact Us</h1>
+        <h1>{page.title}</h1>
         <div className="contact-content">
           <div className="contact-info">
-            <h3>Get in Touch</h3>
-            <p>Email: info@myapp.com</p>
-            <p>Phone: +49 123 456 789</p>
-            <p>Address: Berlin, Germany</p>
+            <h3>{page.heading}</h3>
+            <p>Email: {company.email}</p>
+            <p>Phone: {company.phone}</p>
+            <p>Address: {company.location}</p>
           </div>
           <form className="contact-form">
             <input type="text" placeholder="Your Name" className="form-input" />
@@ -23,4 +28,4 @@ const Contact = () => {
   );
 };
 
-export default Contact;
\ No newline at end of file
+export default Contact;
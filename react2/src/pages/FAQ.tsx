@@ -1,26 +1,24 @@
 // src/pages/FAQ.tsx
+import { getPage } from '../content/siteContent';
+
 const FAQ = () => {
+  const page = getPage('/faq');
+
   return (
     <div className="page">
       <div className="container">
-        <h1>Frequently Asked Questions</h1>
+        <h1>{page.title}</h1>
         <div className="faq-list">
-          <div className="faq-item">
-            <h3>How do I get started?</h3>
-            <p>Simply contact us through our contact form or give us a call.</p>
-          </div>
-          <div className="faq-item">
-            <h3>What technologies do you use?</h3>
-            <p>We use modern technologies like React, Node.js, and cloud services.</p>
-          </div>
-          <div className="faq-item">
-            <h3>Do you offer support?</h3>
-            <p>Yes, we provide 24/7 support for all our clients.</p>
-          </div>
+          {page.items?.map(item => (
+            <div className="faq-item" key={item.title}>
+              <h3>{item.title}</h3>
+              <p>{item.text}</p>
+            </div>
+          ))}
         </div>
       </div>
     </div>
   );
 };
 
-export default FAQ;
\ No newline at end of file
+export default FAQ;
@@ -1,4 +1,8 @@
+import { getPage } from '../content/siteContent';
+
 const Home = () => {
+  const page = getPage('/');
+
   const handleGetStarted = () => {
     // Event senden, um Chatbot zu öffnen
     window.dispatchEvent(new CustomEvent('openChatbot'));
@@ -8,26 +12,20 @@ const Home = () => {
     <div className="page">
       <div className="container">
         <section className="hero">
-          <h1>RAG 1</h1>
-          <p>AI Chatbot: chat about our website content & and with your uploaded documents.</p>
+          <h1>{page.title}</h1>
+          {page.intro?.map(paragraph => <p key={paragraph}>{paragraph}</p>)}
           <button className="cta-button" onClick={handleGetStarted}>Get Started</button>
         </section>
         
         <section className="features">
-          <h2>Why Choose Us</h2>
+          <h2>{page.heading}</h2>
           <div className="features-grid">
-            <div className="feature-card">
-              <h3>Quality</h3>
-              <p>High-quality solutions tailored to your needs.</p>
-            </div>
-            <div className="feature-card">
-              <h3>Speed</h3>
-              <p>Fast delivery and quick response times.</p>
-            </div>
-            <div className="feature-card">
-              <h3>Support</h3>
-              <p>24/7 customer support and assistance.</p>
-            </div>
+            {page.items?.map(item => (
+              <div className="feature-card" key={item.title}>
+                <h3>{item.title}</h3>
+                <p>{item.text}</p>
+              </div>
+            ))}
           </div>
         </section>
       </div>
@@ -35,4 +33,4 @@ const Home = () => {
   );
 };
 
-export default Home;
\ No newline at end of file
+export default Home;
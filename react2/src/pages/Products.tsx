@@ -1,24 +1,25 @@
 // src/pages/Products.tsx
+import { getPage } from '../content/siteContent';
+
 const Products = () => {
+  const page = getPage('/products');
+
   return (
     <div className="page">
       <div className="container">
-        <h1>Our Products</h1>
+        <h1>{page.title}</h1>
         <div className="products-grid">
-          <div className="product-card">
-            <h3>Product A</h3>
-            <p>Advanced solution for enterprise needs.</p>
-            <button className="button">Learn More</button>
-          </div>
-          <div className="product-card">
-            <h3>Product B</h3>
-            <p>Perfect for small and medium businesses.</p>
-            <button className="button">Learn More</button>
-          </div>
+          {page.items?.map(item => (
+            <div className="product-card" key={item.title}>
+              <h3>{item.title}</h3>
+              <p>{item.text}</p>
+              <button className="button">Learn More</button>
+            </div>
+          ))}
         </div>
       </div>
     </div>
   );
 };
 
-export default Products;
\ No newline at end of file
+export default Products;
@@ -1,26 +1,24 @@
 // src/pages/Services.tsx
+import { getPage } from '../content/siteContent';
+
 const Services = () => {
+  const page = getPage('/services');
+
   return (
     <div className="page">
       <div className="container">
-        <h1>Our Services</h1>
+        <h1>{page.title}</h1>
         <div className="services-list">
-          <div className="service-item">
-            <h3>Web Development</h3>
-            <p>Modern, responsive websites and web applications.</p>
-          </div>
-          <div className="service-item">
-            <h3>Mobile Apps</h3>
-            <p>Native and cross-platform mobile applications.</p>
-          </div>
-          <div className="service-item">
-            <h3>Consulting</h3>
-            <p>Strategic technology consulting and planning.</p>
-          </div>
+          {page.items?.map(item => (
+            <div className="service-item" key={item.title}>
+              <h3>{item.title}</h3>
+              <p>{item.text}</p>
+            </div>
+          ))}
         </div>
       </div>
     </div>
   );
 };
 
-export default Services;
\ No newline at end of file
+export default Services;